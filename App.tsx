@@ -1,48 +1,223 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import Scene from './components/Scene';
 import HandController from './components/HandController';
-import { ButterflyParams, ViewMode, HandState } from './types';
+import ControlPanel from './components/ControlPanel';
+import { ButterflyParams, RenderSettings, ViewMode, HandsState, HandBindings, HandFilterConfig, FingerForces, RingLayer, QualitySettings, ProjectileSettings, EmitterConfig, PostProcessingSettings, SceneConfig, Theme, AudioSettings, GestureAction, GestureBindings, CameraSettings } from './types';
+import { createHandsState } from './utils/gestures';
+import { VIEW_MODE_OPTIONS, nextViewMode } from './utils/cameraModes';
+import { CaptureTarget } from './utils/canvasCapture';
+import { AudioInput } from './utils/audioInput';
+import { HandEventEmitter } from './utils/handEvents';
+import { adjacentTheme } from './utils/themes';
+import { loadCameraSettings, saveCameraSettings } from './utils/camera';
+import { DEFAULT_SCENE_CONFIG, SCENE_CONFIG_VERSION, SceneConfigError, decodeSceneHash, encodeSceneHash } from './utils/sceneConfig';
+
+// Delay before mirroring edits into the URL, so dragging a slider doesn't flood the history API
+const HASH_SYNC_DELAY_MS = 300;
+
+// Reads a share link (#z=... or #s=...) from the current URL; invalid links fall back to the defaults
+const readSceneFromHash = (): { config: SceneConfig; issues: string[] | null } => {
+  try {
+    return { config: decodeSceneHash(window.location.hash) ?? DEFAULT_SCENE_CONFIG, issues: null };
+  } catch (err) {
+    const issues = err instanceof SceneConfigError ? err.issues : [String(err)];
+    return { config: DEFAULT_SCENE_CONFIG, issues };
+  }
+};
 
 const App: React.FC = () => {
-  const [params] = useState<ButterflyParams>({
-    iter: 24, // 24 PI
-    a: 1.0,   // exp(sin(t)) multiplier
-    b: 2.0,   // cos(4t) multiplier
-    c: 5.0,   // power of sin term
-    scale: 3.5, // Increased size of butterfly
-    color: '#8b5cf6' // Violet default
-  });
-
-  const [viewMode] = useState<ViewMode>(ViewMode.Orbit);
-  
+  const [initialScene] = useState(readSceneFromHash);
+
+  const [params, setParams] = useState<ButterflyParams>(initialScene.config.params);
+  const [settings, setSettings] = useState<RenderSettings>(initialScene.config.settings);
+
+  const [viewMode, setViewMode] = useState<ViewMode>(initialScene.config.viewMode);
+
+  // Which hand drives the orb and the magic circle
+  const [handBindings, setHandBindings] = useState<HandBindings>(initialScene.config.handBindings);
+
+  const [handFilter, setHandFilter] = useState<HandFilterConfig>(initialScene.config.handFilter);
+  const [fingerForces, setFingerForces] = useState<FingerForces>(initialScene.config.fingerForces);
+  const [rings, setRings] = useState<RingLayer[]>(initialScene.config.rings);
+  const [quality, setQuality] = useState<QualitySettings>(initialScene.config.quality);
+  const [projectiles, setProjectiles] = useState<ProjectileSettings>(initialScene.config.projectiles);
+  const [emitters, setEmitters] = useState<EmitterConfig[]>(initialScene.config.emitters);
+  const [postProcessing, setPostProcessing] = useState<PostProcessingSettings>(initialScene.config.postProcessing);
+  const [theme, setTheme] = useState<Theme>(initialScene.config.theme);
+  const [audio, setAudio] = useState<AudioSettings>(initialScene.config.audio);
+  const [gestures, setGestures] = useState<GestureBindings>(initialScene.config.gestures);
+  // Per-machine, so kept in localStorage rather than in share links
+  const [camera, setCamera] = useState<CameraSettings>(loadCameraSettings);
+  const [configError, setConfigError] = useState<string[] | null>(initialScene.issues);
+
   // Mutable ref for high-frequency hand updates without re-renders
-  const handStateRef = useRef<HandState>({
-    detected: false,
-    x: 0.5,
-    y: 0.5,
-    palmX: 0.5,
-    palmY: 0.5,
-    pinch: 1.0,
-    rotation: 0,
-    fingerTips: [
-      { x: 0.5, y: 0.3, dirX: 0, dirY: -1 },
-      { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
-      { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
-      { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
-      { x: 0.5, y: 0.3, dirX: 0, dirY: -1 }
-    ],
-    blast: 0
-  });
+  const handStateRef = useRef<HandsState>(createHandsState());
+  // Discrete hand events derived from handStateRef; HandController feeds it, the scene subscribes
+  const [handEvents] = useState(() => new HandEventEmitter());
+
+  // Renderer handle and webcam element for the canvas recorder
+  const captureRef = useRef<CaptureTarget | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Microphone / audio file input; outlives the control panel, which unmounts when closed
+  const [audioInput] = useState(() => new AudioInput());
+  useEffect(() => () => audioInput.dispose(), [audioInput]);
+
+  const sceneConfig = useMemo<SceneConfig>(() => ({
+    version: SCENE_CONFIG_VERSION,
+    params,
+    settings,
+    viewMode,
+    handBindings,
+    handFilter,
+    fingerForces,
+    rings,
+    quality,
+    projectiles,
+    emitters,
+    postProcessing,
+    theme,
+    audio,
+    gestures
+  }), [params, settings, viewMode, handBindings, handFilter, fingerForces, rings, quality, projectiles, emitters, postProcessing, theme, audio, gestures]);
+
+  const applySceneConfig = (config: SceneConfig) => {
+    setParams(config.params);
+    setSettings(config.settings);
+    setViewMode(config.viewMode);
+    setHandBindings(config.handBindings);
+    setHandFilter(config.handFilter);
+    setFingerForces(config.fingerForces);
+    setRings(config.rings);
+    setQuality(config.quality);
+    setProjectiles(config.projectiles);
+    setEmitters(config.emitters);
+    setPostProcessing(config.postProcessing);
+    setTheme(config.theme);
+    setAudio(config.audio);
+    setGestures(config.gestures);
+    setConfigError(null);
+  };
+
+  // One-shot actions bound to gestures; blast and landmark recording stay in HandController
+  const handleGestureAction = (action: GestureAction) => {
+    switch (action) {
+      case 'nextTheme':
+        setTheme(current => adjacentTheme(current, 1));
+        break;
+      case 'previousTheme':
+        setTheme(current => adjacentTheme(current, -1));
+        break;
+      case 'cycleRingLayers':
+        setRings(layers => [...layers.slice(1), layers[0]]);
+        break;
+      case 'nextViewMode':
+        setViewMode(mode => nextViewMode(mode));
+        break;
+    }
+  };
+
+  useEffect(() => saveCameraSettings(camera), [camera]);
+
+  // Keep the address bar pointing at the current scene so it can be bookmarked or copied. A share
+  // link that failed to load stays there, so it can be fixed or reported, until the scene is edited.
+  const linkErrorRef = useRef<{ issues: string[]; scene: SceneConfig } | null>(null);
+  useEffect(() => {
+    if (linkErrorRef.current?.issues !== configError) {
+      linkErrorRef.current = configError && { issues: configError, scene: sceneConfig };
+    }
+    if (linkErrorRef.current?.scene === sceneConfig) return;
+
+    const timer = setTimeout(() => {
+      const url = new URL(window.location.href);
+      url.hash = encodeSceneHash(sceneConfig);
+      window.history.replaceState(window.history.state, '', url);
+    }, HASH_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sceneConfig, configError]);
+
+  // Number keys pick a view mode, V cycles through them
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (event.ctrlKey || event.metaKey || event.altKey || target.closest('input, textarea, select')) return;
+
+      const option = VIEW_MODE_OPTIONS.find(o => o.key === event.key);
+      if (option) setViewMode(option.mode);
+      else if (event.key === 'v' || event.key === 'V') setViewMode(mode => nextViewMode(mode));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // A share link pasted into this tab only changes the hash, so the page doesn't reload
+  useEffect(() => {
+    const handleHashChange = () => {
+      const { config, issues } = readSceneFromHash();
+      if (issues) setConfigError(issues);
+      else applySceneConfig(config);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
-      
+
       {/* Webcam Background - Full Screen */}
-      <HandController handStateRef={handStateRef} />
-      
+      <HandController
+        handStateRef={handStateRef}
+        filterConfig={handFilter}
+        videoRef={videoRef}
+        gestureBindings={gestures}
+        onGestureAction={handleGestureAction}
+        handEvents={handEvents}
+        camera={camera}
+      />
+
       {/* 3D Scene Overlay */}
       <div className="absolute inset-0 z-10">
-        <Scene params={params} viewMode={viewMode} handStateRef={handStateRef} />
+        <Scene params={params} settings={settings} viewMode={viewMode} handStateRef={handStateRef} handBindings={handBindings} fingerForces={fingerForces} rings={rings} quality={quality} projectiles={projectiles} emitters={emitters} postProcessing={postProcessing} theme={theme} audio={audio} audioInput={audioInput} handEvents={handEvents} captureRef={captureRef} />
+      </div>
+
+      {/* Live parameter controls */}
+      <div className="absolute top-4 left-4 z-20">
+        <ControlPanel
+          params={params}
+          onParamsChange={setParams}
+          settings={settings}
+          onSettingsChange={setSettings}
+          handBindings={handBindings}
+          onHandBindingsChange={setHandBindings}
+          fingerForces={fingerForces}
+          onFingerForcesChange={setFingerForces}
+          rings={rings}
+          onRingsChange={setRings}
+          quality={quality}
+          onQualityChange={setQuality}
+          projectiles={projectiles}
+          onProjectilesChange={setProjectiles}
+          emitters={emitters}
+          onEmittersChange={setEmitters}
+          postProcessing={postProcessing}
+          onPostProcessingChange={setPostProcessing}
+          theme={theme}
+          onThemeChange={setTheme}
+          audio={audio}
+          onAudioChange={setAudio}
+          audioInput={audioInput}
+          gestures={gestures}
+          onGesturesChange={setGestures}
+          camera={camera}
+          onCameraChange={setCamera}
+          viewMode={viewMode}
+          onViewModeChange={setViewMode}
+          sceneConfig={sceneConfig}
+          onImportConfig={applySceneConfig}
+          configError={configError}
+          captureRef={captureRef}
+          videoRef={videoRef}
+        />
       </div>
 
       {/* Footer / Branding */}
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileAudio, Mic, Square } from 'lucide-react';
+import { AudioInput, AudioSourceKind } from '../utils/audioInput';
+
+interface AudioPanelProps {
+  input: AudioInput;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/15 transition-colors';
+
+const METERS = ['bass', 'mid', 'treble', 'beat'] as const;
+
+// Picks the audio input and shows what the analysis hears. The input itself lives in App, so
+// closing the control panel doesn't stop the music.
+const AudioPanel: React.FC<AudioPanelProps> = ({ input }) => {
+  const [kind, setKind] = useState<AudioSourceKind | null>(input.kind);
+  const [fileName, setFileName] = useState<string | null>(input.fileName);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const meterRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Meter widths are set directly each frame instead of re-rendering the panel
+  useEffect(() => {
+    if (!kind) return;
+    let frameId = 0;
+    const tick = () => {
+      METERS.forEach((meter, i) => {
+        const bar = meterRefs.current[i];
+        if (bar) bar.style.width = `${Math.round((input.features?.[meter] ?? 0) * 100)}%`;
+      });
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [input, kind]);
+
+  const start = async (open: () => Promise<void>) => {
+    setError(null);
+    try {
+      await open();
+    } catch (err) {
+      input.stop();
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setKind(input.kind);
+    setFileName(input.fileName);
+  };
+
+  const stop = () => {
+    input.stop();
+    setKind(null);
+    setFileName(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => start(() => input.useMicrophone())}
+          className={`${buttonClass} ${kind === 'microphone' ? 'bg-violet-500/40 text-white' : ''}`}
+        >
+          <Mic className="w-3.5 h-3.5" />
+          Microphone
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={`${buttonClass} ${kind === 'file' ? 'bg-violet-500/40 text-white' : ''}`}
+        >
+          <FileAudio className="w-3.5 h-3.5" />
+          File
+        </button>
+        {kind && (
+          <button onClick={stop} className="ml-auto p-1.5 rounded-md hover:bg-white/10" title="Stop audio">
+            <Square className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) start(() => input.useFile(file));
+          }}
+        />
+      </div>
+
+      {fileName && <span className="truncate text-white/50">{fileName}</span>}
+
+      {kind && (
+        <div className="grid grid-cols-[3rem_1fr] items-center gap-x-2 gap-y-1">
+          {METERS.map((meter, i) => (
+            <React.Fragment key={meter}>
+              <span className="capitalize text-white/50">{meter}</span>
+              <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div ref={bar => { meterRefs.current[i] = bar; }} className="h-full bg-violet-400" style={{ width: 0 }} />
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="px-2 py-1.5 bg-red-900/60 rounded-md">{error}</div>}
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,87 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandsState, ViewMode } from '../types';
+import { selectHand } from '../utils/gestures';
+import { SceneClock } from '../utils/sceneClock';
+import {
+  applyCameraPose, cameraPoseDistance, cinematicPose, copyCameraPose, createCameraPose, dampCameraPose,
+  handSteeredPose, isFreeViewMode, poseFromCamera, topDownPose
+} from '../utils/cameraModes';
+
+interface CameraRigProps {
+  viewMode: ViewMode;
+  clock: SceneClock;
+  handStateRef: React.MutableRefObject<HandsState>;
+  // Called once a transition back to Orbit/AutoRotate lands (true) or when leaving them (false)
+  onFreeCameraChange: (free: boolean) => void;
+}
+
+const TRANSITION_DAMPING = 2.5;  // Higher = snappier mode changes
+const STEER_DAMPING = 4;         // Hand-steered follows the palm a little faster
+const SETTLE_DISTANCE = 0.5;      // Remaining pose error at which control snaps back to OrbitControls
+
+const ORIGIN = new THREE.Vector3();
+
+// Drives the camera for the scripted view modes and animates every mode change.
+// In Orbit/AutoRotate it steps aside and leaves the camera to OrbitControls.
+const CameraRig: React.FC<CameraRigProps> = ({ viewMode, clock, handStateRef, onFreeCameraChange }) => {
+  const current = useMemo(createCameraPose, []);
+  const goal = useMemo(createCameraPose, []);
+  // Where the user left the orbit camera, restored when returning to a free mode
+  const orbitPose = useMemo(createCameraPose, []);
+  const lastMode = useRef(viewMode);
+  const settled = useRef(isFreeViewMode(viewMode));
+  const cinematicTime = useRef(0);
+
+  useFrame(({ camera }) => {
+    const perspective = camera as THREE.PerspectiveCamera;
+    const { delta } = clock;
+
+    if (viewMode !== lastMode.current) {
+      const wasFree = isFreeViewMode(lastMode.current);
+      lastMode.current = viewMode;
+      if (wasFree && isFreeViewMode(viewMode)) return;
+
+      // Start every transition from wherever the camera is right now
+      if (wasFree && settled.current) {
+        poseFromCamera(perspective, ORIGIN, orbitPose);
+        copyCameraPose(current, orbitPose);
+        onFreeCameraChange(false);
+      }
+      settled.current = false;
+    }
+
+    if (settled.current) return;
+
+    switch (viewMode) {
+      case ViewMode.Cinematic:
+        cinematicTime.current += delta;
+        cinematicPose(cinematicTime.current, goal);
+        break;
+      case ViewMode.TopDown:
+        topDownPose(goal);
+        break;
+      case ViewMode.HandSteered:
+        handSteeredPose(selectHand(handStateRef.current, 'any'), goal);
+        break;
+      default:
+        copyCameraPose(goal, orbitPose);
+    }
+
+    const damping = viewMode === ViewMode.HandSteered ? STEER_DAMPING : TRANSITION_DAMPING;
+    dampCameraPose(current, goal, damping, delta);
+    applyCameraPose(perspective, current);
+
+    // Hand control back to OrbitControls only once the camera has arrived
+    if (isFreeViewMode(viewMode) && cameraPoseDistance(current, goal) < SETTLE_DISTANCE) {
+      applyCameraPose(perspective, goal);
+      settled.current = true;
+      onFreeCameraChange(true);
+    }
+  });
+
+  return null;
+};
+
+export default CameraRig;
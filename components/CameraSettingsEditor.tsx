@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { CameraSettings } from '../types';
+import { CAMERA_FRAME_RATES, CAMERA_RESOLUTIONS, listCameras } from '../utils/camera';
+
+interface CameraSettingsEditorProps {
+  camera: CameraSettings;
+  onChange: (camera: CameraSettings) => void;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+const selectClass = 'flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10';
+
+// Resolution and frame rate are requests the camera may round, so what it actually delivers is
+// shown underneath
+const CameraSettingsEditor: React.FC<CameraSettingsEditorProps> = ({ camera, onChange, videoRef }) => {
+  const [devices, setDevices] = useState<{ deviceId: string; label: string }[]>([]);
+  const [actual, setActual] = useState<string | null>(null);
+
+  // Re-listed when cameras are plugged in or out, and whenever a stream starts, since labels
+  // only appear once permission is granted
+  useEffect(() => {
+    const video = videoRef.current;
+    const refresh = () => {
+      listCameras().then(setDevices, () => setDevices([]));
+      const track = (video?.srcObject as MediaStream | null)?.getVideoTracks()[0];
+      const { width, height, frameRate } = track?.getSettings() ?? {};
+      setActual(width && height ? `${width} × ${height}${frameRate ? ` @ ${Math.round(frameRate)} fps` : ''}` : null);
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    video?.addEventListener('loadedmetadata', refresh);
+    video?.addEventListener('resize', refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+      video?.removeEventListener('loadedmetadata', refresh);
+      video?.removeEventListener('resize', refresh);
+    };
+  }, [videoRef]);
+
+  const resolution = `${camera.width}x${camera.height}`;
+  const resolutions = CAMERA_RESOLUTIONS.some(option => option.value === resolution)
+    ? CAMERA_RESOLUTIONS
+    : [...CAMERA_RESOLUTIONS, { value: resolution, label: `${camera.width} × ${camera.height}` }];
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center justify-between gap-2">
+        <span className="shrink-0">Device</span>
+        <select value={camera.deviceId} onChange={e => onChange({ ...camera, deviceId: e.target.value })} className={selectClass}>
+          <option value="">Default camera</option>
+          {devices.map(device => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+          ))}
+          {camera.deviceId && !devices.some(device => device.deviceId === camera.deviceId) && (
+            <option value={camera.deviceId}>Disconnected camera</option>
+          )}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        <span className="shrink-0">Resolution</span>
+        <select
+          value={resolution}
+          onChange={e => {
+            const [width, height] = e.target.value.split('x').map(Number);
+            onChange({ ...camera, width, height });
+          }}
+          className={selectClass}
+        >
+          {resolutions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        <span className="shrink-0">Frame rate</span>
+        <select value={camera.frameRate} onChange={e => onChange({ ...camera, frameRate: Number(e.target.value) })} className={selectClass}>
+          {CAMERA_FRAME_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate} fps</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={camera.mirror}
+          onChange={e => onChange({ ...camera, mirror: e.target.checked })}
+          className="accent-violet-500"
+        />
+        <span>Mirror (selfie view)</span>
+      </label>
+      {actual && <span className="text-white/40">Camera delivers {actual}</span>}
+    </div>
+  );
+};
+
+export default CameraSettingsEditor;
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Film, Square } from 'lucide-react';
+import {
+  CaptureTarget, LiveCanvasRecorder, OfflineFormat, captureOffline, downloadBlob
+} from '../utils/canvasCapture';
+
+interface CapturePanelProps {
+  captureRef: React.MutableRefObject<CaptureTarget | null>;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  mirrorVideo: boolean;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/15 transition-colors disabled:opacity-40';
+const inputClass = 'w-14 px-1.5 py-0.5 rounded-md bg-white/5 text-white outline-none focus:bg-white/10';
+
+// GIF quantization is per frame, so keep exports small enough to encode in a few seconds
+const GIF_MAX_WIDTH = 480;
+const PNG_MAX_WIDTH = 1920;
+
+// Live WebM recording and fixed-timestep GIF / PNG sequence export of the scene
+const CapturePanel: React.FC<CapturePanelProps> = ({ captureRef, videoRef, mirrorVideo }) => {
+  const recorderRef = useRef(new LiveCanvasRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [includeVideo, setIncludeVideo] = useState(false);
+  const [frames, setFrames] = useState(90);
+  const [fps, setFps] = useState(30);
+  const [format, setFormat] = useState<OfflineFormat>('gif');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Closing the control panel unmounts this panel; finish and save a running recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) recorder.stop().then(blob => downloadBlob(blob, `butterfly-${Date.now()}.webm`));
+  }, []);
+
+  const video = () => (includeVideo ? videoRef.current : null);
+
+  const toggleRecording = async () => {
+    const recorder = recorderRef.current;
+    const target = captureRef.current;
+    try {
+      if (recorder.isRecording) {
+        setIsRecording(false);
+        downloadBlob(await recorder.stop(), `butterfly-${Date.now()}.webm`);
+      } else if (target) {
+        recorder.start(target.getState().gl.domElement, video(), fps, mirrorVideo);
+        setIsRecording(true);
+        setError(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const renderOffline = async () => {
+    const target = captureRef.current;
+    if (!target || progress !== null) return;
+
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await captureOffline(target, {
+        frames,
+        fps,
+        format,
+        maxWidth: format === 'gif' ? GIF_MAX_WIDTH : PNG_MAX_WIDTH,
+        video: video(),
+        mirrorVideo,
+        onProgress: (done, total) => setProgress(done / total)
+      });
+      downloadBlob(blob, `butterfly-${Date.now()}.${format === 'gif' ? 'gif' : 'zip'}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const busy = progress !== null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={includeVideo} onChange={e => setIncludeVideo(e.target.checked)} className="accent-violet-500" />
+        <span>Include webcam</span>
+      </label>
+
+      <button onClick={toggleRecording} disabled={busy} className={buttonClass}>
+        {isRecording ? <Square className="w-3.5 h-3.5 text-red-400" /> : <Circle className="w-3.5 h-3.5 text-red-400" />}
+        {isRecording ? 'Stop & save WebM' : 'Record WebM'}
+      </button>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="number" min={1} max={600} value={frames}
+          onChange={e => setFrames(Math.max(1, Math.min(600, Number(e.target.value) || 1)))}
+          className={inputClass} title="Frames"
+        />
+        <span>frames @</span>
+        <input
+          type="number" min={1} max={60} value={fps}
+          onChange={e => setFps(Math.max(1, Math.min(60, Number(e.target.value) || 1)))}
+          className={inputClass} title="Frames per second"
+        />
+        <span>fps</span>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {(['gif', 'png'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFormat(option)}
+            className={`px-2 py-0.5 rounded-md transition-colors ${format === option ? 'bg-violet-500/40 text-white' : 'hover:bg-white/10'}`}
+          >
+            {option === 'gif' ? 'GIF' : 'PNG zip'}
+          </button>
+        ))}
+        <button onClick={renderOffline} disabled={busy || isRecording} className={`${buttonClass} ml-auto`}>
+          <Film className="w-3.5 h-3.5" />
+          {busy ? `${Math.round((progress ?? 0) * 100)}%` : 'Render'}
+        </button>
+      </div>
+
+      {error && <div className="px-2 py-1.5 bg-red-900/60 rounded-md">{error}</div>}
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,504 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, X, Save, Trash2 } from 'lucide-react';
+import { AudioSettings, ButterflyParams, CameraSettings, EmitterConfig, FingerForces, GestureBindings, HandBindings, PostProcessingSettings, Preset, ProjectileSettings, QualitySettings, RenderSettings, RingLayer, SceneConfig, Theme, ViewMode } from '../types';
+import { BUILT_IN_PRESETS, deletePreset, loadPresets, savePreset } from '../utils/presets';
+import { CaptureTarget } from '../utils/canvasCapture';
+import { FINGER_NAMES } from '../utils/fingerForces';
+import { CONTENT_OPTIONS } from '../utils/projectileContent';
+import { AUDIO_FEATURES } from '../utils/audioAnalysis';
+import { AudioInput } from '../utils/audioInput';
+import HandBindingSelector from './HandBindingSelector';
+import GestureBindingEditor from './GestureBindingEditor';
+import RingLayerEditor from './RingLayerEditor';
+import EmitterEditor from './EmitterEditor';
+import ThemeEditor from './ThemeEditor';
+import SharePanel from './SharePanel';
+import CapturePanel from './CapturePanel';
+import AudioPanel from './AudioPanel';
+import ViewModeSelector from './ViewModeSelector';
+import CameraSettingsEditor from './CameraSettingsEditor';
+
+interface ControlPanelProps {
+  params: ButterflyParams;
+  onParamsChange: (params: ButterflyParams) => void;
+  settings: RenderSettings;
+  onSettingsChange: (settings: RenderSettings) => void;
+  handBindings: HandBindings;
+  onHandBindingsChange: (bindings: HandBindings) => void;
+  fingerForces: FingerForces;
+  onFingerForcesChange: (forces: FingerForces) => void;
+  rings: RingLayer[];
+  onRingsChange: (rings: RingLayer[]) => void;
+  quality: QualitySettings;
+  onQualityChange: (quality: QualitySettings) => void;
+  projectiles: ProjectileSettings;
+  onProjectilesChange: (projectiles: ProjectileSettings) => void;
+  emitters: EmitterConfig[];
+  onEmittersChange: (emitters: EmitterConfig[]) => void;
+  postProcessing: PostProcessingSettings;
+  onPostProcessingChange: (postProcessing: PostProcessingSettings) => void;
+  theme: Theme;
+  onThemeChange: (theme: Theme) => void;
+  audio: AudioSettings;
+  onAudioChange: (audio: AudioSettings) => void;
+  audioInput: AudioInput;
+  gestures: GestureBindings;
+  onGesturesChange: (gestures: GestureBindings) => void;
+  camera: CameraSettings;
+  onCameraChange: (camera: CameraSettings) => void;
+  viewMode: ViewMode;
+  onViewModeChange: (viewMode: ViewMode) => void;
+  sceneConfig: SceneConfig;
+  onImportConfig: (config: SceneConfig) => void;
+  configError?: string[] | null;
+  captureRef: React.MutableRefObject<CaptureTarget | null>;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+}
+
+type NumericKeys<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+
+interface SliderField<T> {
+  key: NumericKeys<T>;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const CURVE_FIELDS: SliderField<ButterflyParams>[] = [
+  { key: 'iter', label: 'Iterations (×π)', min: 1, max: 48, step: 1 },
+  { key: 'a', label: 'a · e^sin t', min: 0, max: 3, step: 0.05 },
+  { key: 'b', label: 'b · cos 4t', min: 0, max: 5, step: 0.05 },
+  { key: 'c', label: 'c (sin power)', min: 0, max: 10, step: 0.5 },
+  { key: 'morph', label: 'Orb → Butterfly', min: 0, max: 1, step: 0.01 },
+  { key: 'scale', label: 'Scale', min: 1, max: 6, step: 0.1 }
+];
+
+const PARTICLE_FIELDS: SliderField<RenderSettings>[] = [
+  { key: 'particleSize', label: 'Particle size', min: 2, max: 30, step: 0.5 },
+  { key: 'blastStrength', label: 'Blast strength', min: 0, max: 3, step: 0.1 },
+  { key: 'blastGravity', label: 'Blast gravity', min: 0, max: 20, step: 0.5 },
+  { key: 'blastDrag', label: 'Blast drag', min: 0, max: 3, step: 0.05 },
+  { key: 'blastBounce', label: 'Ground bounce', min: 0, max: 1, step: 0.05 },
+  { key: 'groundHeight', label: 'Ground height', min: -60, max: 0, step: 1 },
+  { key: 'handForce', label: 'Hand force', min: 0, max: 500, step: 10 }
+];
+
+const TRANSITION_FIELDS: SliderField<RenderSettings>[] = [
+  { key: 'morphSpeed', label: 'Morph speed', min: 0.01, max: 0.3, step: 0.01 },
+  { key: 'magicSpeed', label: 'Magic circle speed', min: 0.01, max: 0.3, step: 0.01 },
+  { key: 'blastRampSpeed', label: 'Blast ramp', min: 0.01, max: 0.5, step: 0.01 },
+  { key: 'blastRecoverySpeed', label: 'Blast recovery', min: 0.01, max: 0.5, step: 0.01 }
+];
+
+const FINGER_FIELDS: SliderField<FingerForces>[] = FINGER_NAMES.flatMap(finger => {
+  const name = finger[0].toUpperCase() + finger.slice(1);
+  return [
+    { key: `${finger}Radius` as const, label: `${name} radius`, min: 0, max: 20, step: 0.5 },
+    { key: `${finger}Strength` as const, label: `${name} strength`, min: 0, max: 10, step: 0.1 }
+  ];
+});
+
+const QUALITY_FIELDS: SliderField<QualitySettings>[] = [
+  { key: 'particleCount', label: 'Particle count', min: 5000, max: 150000, step: 5000 },
+  { key: 'targetFps', label: 'Target FPS', min: 24, max: 144, step: 1 }
+];
+
+const PROJECTILE_FIELDS: SliderField<ProjectileSettings>[] = [
+  { key: 'spawnRate', label: 'Digits / finger / s', min: 0, max: 100, step: 1 },
+  { key: 'lifetime', label: 'Lifetime (s)', min: 0.5, max: 8, step: 0.1 },
+  { key: 'speed', label: 'Speed', min: 2, max: 80, step: 1 }
+];
+
+const EMITTER_FIELDS: SliderField<EmitterConfig>[] = [
+  { key: 'rate', label: 'Rate / s', min: 0, max: 2000, step: 10 },
+  { key: 'lifetime', label: 'Lifetime (s)', min: 0.2, max: 6, step: 0.1 },
+  { key: 'gravity', label: 'Gravity', min: -10, max: 10, step: 0.1 },
+  { key: 'drift', label: 'Drift', min: 0, max: 3, step: 0.05 },
+  { key: 'spread', label: 'Spread', min: 0, max: 20, step: 0.1 },
+  { key: 'size', label: 'Size', min: 1, max: 15, step: 0.5 }
+];
+
+const BLOOM_FIELDS: SliderField<PostProcessingSettings>[] = [
+  { key: 'bloomStrength', label: 'Bloom strength', min: 0, max: 3, step: 0.05 },
+  { key: 'bloomRadius', label: 'Bloom radius', min: 0, max: 1, step: 0.05 },
+  { key: 'bloomThreshold', label: 'Bloom threshold', min: 0, max: 1, step: 0.01 }
+];
+
+const TRAIL_FIELDS: SliderField<PostProcessingSettings>[] = [
+  { key: 'trailLength', label: 'Trail length', min: 0, max: 0.98, step: 0.01 },
+  { key: 'trailSpeed', label: 'Full trail at hand speed', min: 0.2, max: 5, step: 0.1 }
+];
+
+const CHROMATIC_FIELDS: SliderField<PostProcessingSettings>[] = [
+  { key: 'chromaticStrength', label: 'Fringe', min: 0, max: 0.05, step: 0.001 }
+];
+
+const VIGNETTE_FIELDS: SliderField<PostProcessingSettings>[] = [
+  { key: 'vignetteStrength', label: 'Darkening', min: 0, max: 1, step: 0.05 }
+];
+
+const AUDIO_ANALYSIS_FIELDS: SliderField<AudioSettings>[] = [
+  { key: 'gain', label: 'Input gain', min: 0, max: 5, step: 0.1 },
+  { key: 'smoothing', label: 'Smoothing', min: 0, max: 0.98, step: 0.01 },
+  { key: 'beatSensitivity', label: 'Beat threshold', min: 0.5, max: 4, step: 0.1 }
+];
+
+type AudioFeatureKey = 'pulseFeature' | 'ringSpeedFeature' | 'wobbleFeature';
+
+// Each mapping picks an audio feature and how strongly it drives its uniform
+const AUDIO_MAPPINGS: { feature: AudioFeatureKey; label: string; amount: SliderField<AudioSettings> }[] = [
+  { feature: 'pulseFeature', label: 'Pulse scale', amount: { key: 'pulseAmount', label: 'Pulse amount', min: 0, max: 0.5, step: 0.01 } },
+  { feature: 'ringSpeedFeature', label: 'Ring speed', amount: { key: 'ringSpeedAmount', label: 'Speed boost', min: 0, max: 4, step: 0.1 } },
+  { feature: 'wobbleFeature', label: 'Orb wobble', amount: { key: 'wobbleAmount', label: 'Wobble amount', min: 0, max: 2, step: 0.05 } }
+];
+
+const AUDIO_BLAST_FIELDS: SliderField<AudioSettings>[] = [
+  { key: 'blastThreshold', label: 'Beat strength to blast', min: 0, max: 1, step: 0.05 }
+];
+
+type EffectToggle = 'bloom' | 'trails' | 'chromatic' | 'vignette' | 'bloomButterfly' | 'bloomEmitters' | 'bloomProjectiles';
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-2">
+    <h3 className="text-[10px] uppercase tracking-widest text-white/40">{title}</h3>
+    {children}
+  </div>
+);
+
+function Sliders<T>({ fields, values, onChange }: {
+  fields: SliderField<T>[];
+  values: T;
+  onChange: (values: T) => void;
+}) {
+  return (
+    <>
+      {fields.map(field => {
+        const value = values[field.key] as number;
+        return (
+          <label key={String(field.key)} className="flex flex-col gap-0.5">
+            <span className="flex justify-between">
+              <span>{field.label}</span>
+              <span className="text-white/50">{value}</span>
+            </span>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={value}
+              onChange={e => onChange({ ...values, [field.key]: Number(e.target.value) })}
+              className="accent-violet-500"
+            />
+          </label>
+        );
+      })}
+    </>
+  );
+}
+
+// Collapsible overlay for live editing of ButterflyParams, shader settings and presets
+const ControlPanel: React.FC<ControlPanelProps> = ({
+  params,
+  onParamsChange,
+  settings,
+  onSettingsChange,
+  handBindings,
+  onHandBindingsChange,
+  fingerForces,
+  onFingerForcesChange,
+  rings,
+  onRingsChange,
+  quality,
+  onQualityChange,
+  projectiles,
+  onProjectilesChange,
+  emitters,
+  onEmittersChange,
+  postProcessing,
+  onPostProcessingChange,
+  theme,
+  onThemeChange,
+  audio,
+  onAudioChange,
+  audioInput,
+  gestures,
+  onGesturesChange,
+  camera,
+  onCameraChange,
+  viewMode,
+  onViewModeChange,
+  sceneConfig,
+  onImportConfig,
+  configError,
+  captureRef,
+  videoRef
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+
+  // Open automatically so a broken share link doesn't fail silently
+  useEffect(() => {
+    if (configError) setIsOpen(true);
+  }, [configError]);
+
+  const applyPreset = (preset: Preset) => {
+    onParamsChange(preset.params);
+    onSettingsChange(preset.settings);
+    if (preset.theme) onThemeChange(preset.theme);
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setUserPresets(savePreset({ name, params, settings, theme }));
+    setPresetName('');
+  };
+
+  const effectToggle = (key: EffectToggle, label: string) => (
+    <label className="flex items-center gap-2">
+      <input
+        type="checkbox"
+        checked={postProcessing[key]}
+        onChange={e => onPostProcessingChange({ ...postProcessing, [key]: e.target.checked })}
+        className="accent-violet-500"
+      />
+      <span>{label}</span>
+    </label>
+  );
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="p-2 bg-black/60 backdrop-blur-sm rounded-lg text-white/70 hover:text-white transition-colors"
+        title="Open controls"
+      >
+        <SlidersHorizontal className="w-5 h-5" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-72 max-h-[calc(100vh-2rem)] overflow-y-auto flex flex-col gap-4 p-4 bg-black/70 backdrop-blur-md rounded-lg text-xs font-mono text-white/70">
+      <div className="flex items-center justify-between">
+        <span className="uppercase tracking-widest text-white/80">Controls</span>
+        <button onClick={() => setIsOpen(false)} className="text-white/50 hover:text-white" title="Close controls">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Section title="Butterfly Curve">
+        <Sliders fields={CURVE_FIELDS} values={params} onChange={onParamsChange} />
+      </Section>
+
+      <Section title="Theme">
+        <ThemeEditor theme={theme} onChange={onThemeChange} />
+      </Section>
+
+      <Section title="Magic Circle">
+        <RingLayerEditor layers={rings} colors={theme.ringColors} onChange={onRingsChange} />
+      </Section>
+
+      <Section title="Projectiles">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={projectiles.enabled}
+            onChange={e => onProjectilesChange({ ...projectiles, enabled: e.target.checked })}
+            className="accent-violet-500"
+          />
+          <span>Fingertips shoot glyphs in magic circle mode</span>
+        </label>
+        {projectiles.enabled && (
+          <>
+            <Sliders fields={PROJECTILE_FIELDS} values={projectiles} onChange={onProjectilesChange} />
+            {FINGER_NAMES.map(finger => {
+              const key = `${finger}Content` as const;
+              return (
+                <label key={finger} className="flex items-center justify-between gap-2">
+                  <span className="capitalize">{finger}</span>
+                  <select
+                    value={projectiles[key]}
+                    onChange={e => onProjectilesChange({ ...projectiles, [key]: e.target.value })}
+                    className="flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10"
+                  >
+                    {CONTENT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              );
+            })}
+            <input
+              value={projectiles.text}
+              onChange={e => onProjectilesChange({ ...projectiles, text: e.target.value })}
+              maxLength={500}
+              placeholder="Text for 'My text' fingers"
+              className="px-2 py-1 rounded-md bg-white/5 text-white placeholder-white/30 outline-none focus:bg-white/10"
+            />
+          </>
+        )}
+      </Section>
+
+      <Section title="Emitters">
+        <EmitterEditor
+          emitters={emitters}
+          onChange={onEmittersChange}
+          renderSliders={(emitter, onChange) => <Sliders fields={EMITTER_FIELDS} values={emitter} onChange={onChange} />}
+        />
+      </Section>
+
+      <Section title="Particles">
+        <Sliders fields={PARTICLE_FIELDS} values={settings} onChange={onSettingsChange} />
+      </Section>
+
+      <Section title="Transitions">
+        <Sliders fields={TRANSITION_FIELDS} values={settings} onChange={onSettingsChange} />
+      </Section>
+
+      <Section title="Effects">
+        {effectToggle('bloom', 'Bloom')}
+        {postProcessing.bloom && (
+          <>
+            <Sliders fields={BLOOM_FIELDS} values={postProcessing} onChange={onPostProcessingChange} />
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {effectToggle('bloomButterfly', 'Orb / circle')}
+              {effectToggle('bloomEmitters', 'Emitters')}
+              {effectToggle('bloomProjectiles', 'Projectiles')}
+            </div>
+          </>
+        )}
+        {effectToggle('trails', 'Motion trails when hands move fast')}
+        {postProcessing.trails && <Sliders fields={TRAIL_FIELDS} values={postProcessing} onChange={onPostProcessingChange} />}
+        {effectToggle('chromatic', 'Chromatic aberration during blast')}
+        {postProcessing.chromatic && <Sliders fields={CHROMATIC_FIELDS} values={postProcessing} onChange={onPostProcessingChange} />}
+        {effectToggle('vignette', 'Vignette during blast')}
+        {postProcessing.vignette && <Sliders fields={VIGNETTE_FIELDS} values={postProcessing} onChange={onPostProcessingChange} />}
+      </Section>
+
+      <Section title="Audio">
+        <AudioPanel input={audioInput} />
+        {AUDIO_MAPPINGS.map(mapping => (
+          <React.Fragment key={mapping.feature}>
+            <label className="flex items-center justify-between gap-2">
+              <span>{mapping.label}</span>
+              <select
+                value={audio[mapping.feature]}
+                onChange={e => onAudioChange({ ...audio, [mapping.feature]: e.target.value })}
+                className="flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10"
+              >
+                {AUDIO_FEATURES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            {audio[mapping.feature] !== 'off' && <Sliders fields={[mapping.amount]} values={audio} onChange={onAudioChange} />}
+          </React.Fragment>
+        ))}
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={audio.blastOnBeat}
+            onChange={e => onAudioChange({ ...audio, blastOnBeat: e.target.checked })}
+            className="accent-violet-500"
+          />
+          <span>Strong beats blast the particles</span>
+        </label>
+        {audio.blastOnBeat && <Sliders fields={AUDIO_BLAST_FIELDS} values={audio} onChange={onAudioChange} />}
+        <Sliders fields={AUDIO_ANALYSIS_FIELDS} values={audio} onChange={onAudioChange} />
+      </Section>
+
+      <Section title="Quality">
+        <Sliders fields={QUALITY_FIELDS} values={quality} onChange={onQualityChange} />
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={quality.adaptive}
+            onChange={e => onQualityChange({ ...quality, adaptive: e.target.checked })}
+            className="accent-violet-500"
+          />
+          <span>Lower quality automatically to hold the target FPS</span>
+        </label>
+      </Section>
+
+      <Section title="View">
+        <ViewModeSelector viewMode={viewMode} onChange={onViewModeChange} />
+      </Section>
+
+      <Section title="Camera">
+        <CameraSettingsEditor camera={camera} onChange={onCameraChange} videoRef={videoRef} />
+      </Section>
+
+      <Section title="Hands">
+        <HandBindingSelector bindings={handBindings} onChange={onHandBindingsChange} />
+      </Section>
+
+      <Section title="Gestures">
+        <GestureBindingEditor bindings={gestures} onChange={onGesturesChange} />
+      </Section>
+
+      <Section title="Finger Forces">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={fingerForces.enabled}
+            onChange={e => onFingerForcesChange({ ...fingerForces, enabled: e.target.checked })}
+            className="accent-violet-500"
+          />
+          <span>Fingertips push the orb, pull the circle</span>
+        </label>
+        {fingerForces.enabled && <Sliders fields={FINGER_FIELDS} values={fingerForces} onChange={onFingerForcesChange} />}
+      </Section>
+
+      <Section title="Presets">
+        <div className="flex flex-wrap gap-1">
+          {BUILT_IN_PRESETS.map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => applyPreset(preset)}
+              className="px-2 py-0.5 rounded-md bg-white/5 hover:bg-white/15 transition-colors"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+        {userPresets.map(preset => (
+          <div key={preset.name} className="flex items-center justify-between">
+            <button onClick={() => applyPreset(preset)} className="hover:text-white truncate">{preset.name}</button>
+            <button
+              onClick={() => setUserPresets(deletePreset(preset.name))}
+              className="text-white/40 hover:text-red-400"
+              title="Delete preset"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-1">
+          <input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleSave()}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 px-2 py-1 rounded-md bg-white/5 text-white placeholder-white/30 outline-none focus:bg-white/10"
+          />
+          <button onClick={handleSave} className="p-1.5 rounded-md hover:bg-white/10" title="Save preset">
+            <Save className="w-4 h-4" />
+          </button>
+        </div>
+      </Section>
+
+      <Section title="Share">
+        <SharePanel config={sceneConfig} onImport={onImportConfig} linkError={configError} />
+      </Section>
+
+      <Section title="Capture">
+        <CapturePanel captureRef={captureRef} videoRef={videoRef} mirrorVideo={camera.mirror} />
+      </Section>
+    </div>
+  );
+};
+
+export default ControlPanel;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { EmitterConfig } from '../types';
+import { DEFAULT_EMITTER, EMITTER_ANCHORS, EMITTER_SHAPES, MAX_EMITTERS } from '../utils/emitters';
+
+interface EmitterEditorProps {
+  emitters: EmitterConfig[];
+  onChange: (emitters: EmitterConfig[]) => void;
+  // Numeric settings of an expanded emitter, drawn with the panel's own sliders
+  renderSliders: (emitter: EmitterConfig, onChange: (emitter: EmitterConfig) => void) => React.ReactNode;
+}
+
+const SELECT_CLASS = 'flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10';
+
+// One row per emitter: toggle, name, color over life and remove; expand a row for its anchor,
+// shape and motion
+const EmitterEditor: React.FC<EmitterEditorProps> = ({ emitters, onChange, renderSliders }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const update = (index: number, emitter: EmitterConfig) =>
+    onChange(emitters.map((e, i) => (i === index ? emitter : e)));
+
+  const remove = (index: number) => {
+    onChange(emitters.filter((_, i) => i !== index));
+    setExpanded(null);
+  };
+
+  const add = () => {
+    onChange([...emitters, { ...DEFAULT_EMITTER, name: `Emitter ${emitters.length + 1}` }]);
+    setExpanded(emitters.length);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      {emitters.map((emitter, index) => (
+        <div key={index} className="flex flex-col gap-1">
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={() => setExpanded(expanded === index ? null : index)}
+              className="text-white/50 hover:text-white"
+              title={expanded === index ? 'Collapse' : 'Edit emitter'}
+            >
+              {expanded === index ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            </button>
+            <input
+              type="checkbox"
+              checked={emitter.enabled}
+              onChange={e => update(index, { ...emitter, enabled: e.target.checked })}
+              className="accent-violet-500"
+            />
+            <input
+              value={emitter.name}
+              onChange={e => update(index, { ...emitter, name: e.target.value })}
+              maxLength={40}
+              className="flex-1 min-w-0 px-1 py-0.5 rounded-md bg-transparent text-white/70 outline-none focus:bg-white/10"
+            />
+            <input
+              type="color"
+              value={emitter.startColor}
+              onChange={e => update(index, { ...emitter, startColor: e.target.value })}
+              className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+              title="Color at birth"
+            />
+            <input
+              type="color"
+              value={emitter.endColor}
+              onChange={e => update(index, { ...emitter, endColor: e.target.value })}
+              className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+              title="Color at death"
+            />
+            <button
+              onClick={() => remove(index)}
+              className="text-white/40 hover:text-red-400"
+              title="Remove emitter"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {expanded === index && (
+            <div className="flex flex-col gap-2 pl-5 pb-1">
+              <label className="flex items-center justify-between gap-2">
+                <span>Anchor</span>
+                <select
+                  value={emitter.anchor}
+                  onChange={e => update(index, { ...emitter, anchor: e.target.value as EmitterConfig['anchor'] })}
+                  className={SELECT_CLASS}
+                >
+                  {EMITTER_ANCHORS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                <span>Shape</span>
+                <select
+                  value={emitter.shape}
+                  onChange={e => update(index, { ...emitter, shape: e.target.value as EmitterConfig['shape'] })}
+                  className={SELECT_CLASS}
+                >
+                  {EMITTER_SHAPES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              {renderSliders(emitter, next => update(index, next))}
+            </div>
+          )}
+        </div>
+      ))}
+      {emitters.length < MAX_EMITTERS && (
+        <button onClick={add} className="flex items-center gap-1.5 text-white/50 hover:text-white">
+          <Plus className="w-3.5 h-3.5" />
+          <span>Add emitter</span>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EmitterEditor;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { GestureAction, GestureBindings } from '../types';
+import { GESTURES, GESTURE_ACTIONS } from '../utils/gestureBindings';
+
+interface GestureBindingEditorProps {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+}
+
+// One row per gesture in the catalogue, each bound to an action
+const GestureBindingEditor: React.FC<GestureBindingEditorProps> = ({ bindings, onChange }) => (
+  <>
+    {GESTURES.map(gesture => (
+      <label key={gesture.value} className="flex items-center justify-between gap-2">
+        <span className="shrink-0">{gesture.label}</span>
+        <select
+          value={bindings[gesture.value]}
+          onChange={e => onChange({ ...bindings, [gesture.value]: e.target.value as GestureAction })}
+          className={`flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 outline-none focus:bg-white/10 ${
+            bindings[gesture.value] === 'none' ? 'text-white/40' : 'text-white/70'
+          }`}
+        >
+          {GESTURE_ACTIONS.map(action => (
+            <option key={action.value} value={action.value}>{action.label}</option>
+          ))}
+        </select>
+      </label>
+    ))}
+  </>
+);
+
+export default GestureBindingEditor;
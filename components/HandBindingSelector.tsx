@@ -0,0 +1,42 @@
+import React from 'react';
+import { HandBinding, HandBindings } from '../types';
+
+interface HandBindingSelectorProps {
+  bindings: HandBindings;
+  onChange: (bindings: HandBindings) => void;
+}
+
+const OPTIONS: { value: HandBinding; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' }
+];
+
+const ROWS: { key: keyof HandBindings; label: string }[] = [
+  { key: 'orb', label: 'Orb' },
+  { key: 'magicCircle', label: 'Circle' }
+];
+
+// Assigns the butterfly orb and the magic circle to hands
+const HandBindingSelector: React.FC<HandBindingSelectorProps> = ({ bindings, onChange }) => (
+  <div className="flex flex-col gap-1 px-3 py-2 bg-black/60 backdrop-blur-sm rounded-lg text-xs font-mono text-white/70">
+    {ROWS.map(row => (
+      <div key={row.key} className="flex items-center gap-2">
+        <span className="w-12 uppercase tracking-widest text-white/50">{row.label}</span>
+        {OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ ...bindings, [row.key]: option.value })}
+            className={`px-2 py-0.5 rounded-md transition-colors ${
+              bindings[row.key] === option.value ? 'bg-violet-500/40 text-white' : 'hover:bg-white/10'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    ))}
+  </div>
+);
+
+export default HandBindingSelector;
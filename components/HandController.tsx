@@ -1,217 +1,347 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { HandState, FingerTip } from '../types';
-import { Camera, Loader2 } from 'lucide-react';
+import { createPortal } from 'react-dom';
+import { CameraSettings, GestureAction, GestureBindings, HandDetection, HandFilterConfig, HandsState, LandmarkRecording } from '../types';
+import { Camera, Loader2, MousePointer2, TriangleAlert } from 'lucide-react';
+import { HandInputSource, createWebcamSource, createWorkerWebcamSource } from '../utils/handInput';
+import { HandDetector, createMediaPipeDetector } from '../utils/handDetection';
+import { LoadProgress, loadDetectorAssets, releaseDetectorAssets } from '../utils/detectorAssets';
+import { DetectionWorkerClient, spawnDetectionWorker } from '../utils/detectionProtocol';
+import { LandmarkPlayback, LandmarkRecorder, downloadRecording, parseRecording } from '../utils/landmarkRecording';
+import { GESTURE_THRESHOLDS, computeHandsState } from '../utils/gestures';
+import { createPointerSource } from '../utils/pointerHand';
+import { DEFAULT_HAND_FILTER, HandTrackingFilter } from '../utils/landmarkFilter';
+import { DEFAULT_GESTURE_BINDINGS, GestureRecognizer } from '../utils/gestureBindings';
+import { HandEventEmitter } from '../utils/handEvents';
+import { CameraError, DEFAULT_CAMERA, describeCameraError, openCamera } from '../utils/camera';
+import PlaybackControls from './PlaybackControls';
 
 interface HandControllerProps {
-  handStateRef: React.MutableRefObject<HandState>;
+  handStateRef: React.MutableRefObject<HandsState>;
+  filterConfig?: HandFilterConfig;
+  // Lets the canvas recorder composite the webcam image
+  videoRef?: React.RefObject<HTMLVideoElement | null>;
+  gestureBindings?: GestureBindings;
+  // One-shot actions of recognized gestures; blast and landmark recording are handled here
+  onGestureAction?: (action: GestureAction) => void;
+  // Fed with every frame's hands, after gesture bindings have set the blast
+  handEvents?: HandEventEmitter;
+  // Changing the device, resolution or frame rate reopens the camera in place
+  camera?: CameraSettings;
 }
 
-const HandController: React.FC<HandControllerProps> = ({ handStateRef }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+// Optional ?playback=<url>[&loop=0] replays a recording instead of opening the camera,
+// so the scene can run on machines without a webcam (demos, headless CI)
+const getPlaybackUrl = () => new URLSearchParams(window.location.search).get('playback');
+const getPlaybackLoop = () => new URLSearchParams(window.location.search).get('loop') !== '0';
+
+const HandController: React.FC<HandControllerProps> = ({
+  handStateRef,
+  filterConfig = DEFAULT_HAND_FILTER,
+  videoRef: externalVideoRef,
+  gestureBindings = DEFAULT_GESTURE_BINDINGS,
+  onGestureAction,
+  handEvents,
+  camera = DEFAULT_CAMERA
+}) => {
+  const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = externalVideoRef ?? internalVideoRef;
   const [isLoading, setIsLoading] = useState(true);
-  const [hasPermission, setHasPermission] = useState(false);
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  // Why hand tracking couldn't start (missing asset, unsupported browser); the pointer takes over
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [detectorReady, setDetectorReady] = useState(false);
+  const [cameraError, setCameraError] = useState<CameraError | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [playback, setPlayback] = useState<LandmarkPlayback | null>(null);
+  // Mouse / touch stand-in used when the camera or the detector is unavailable
+  const [usePointer, setUsePointer] = useState(false);
+  // Detection runs in a worker; the main-thread detector is the fallback where it can't start
+  const workerClientRef = useRef<DetectionWorkerClient | null>(null);
+  const detectorRef = useRef<HandDetector | null>(null);
+
+  // Active input: playback overrides the webcam (or pointer) while a recording is loaded
+  const webcamSourceRef = useRef<HandInputSource | null>(null);
+  const pointerSourceRef = useRef<HandInputSource | null>(null);
+  const playbackRef = useRef<LandmarkPlayback | null>(null);
+  const recorderRef = useRef(new LandmarkRecorder());
+  const filterRef = useRef(new HandTrackingFilter(filterConfig));
+  const recognizerRef = useRef(new GestureRecognizer());
+  // Read from the polling loop, which is set up once
+  const gestureBindingsRef = useRef(gestureBindings);
+  const onGestureActionRef = useRef(onGestureAction);
+  const handEventsRef = useRef(handEvents);
+  const mirrorRef = useRef(camera.mirror);
+
+  useEffect(() => {
+    playbackRef.current = playback;
+    filterRef.current.reset();
+  }, [playback]);
+
+  useEffect(() => {
+    filterRef.current.setConfig(filterConfig);
+  }, [filterConfig]);
+
+  useEffect(() => {
+    gestureBindingsRef.current = gestureBindings;
+    onGestureActionRef.current = onGestureAction;
+    handEventsRef.current = handEvents;
+    mirrorRef.current = camera.mirror;
+  }, [gestureBindings, onGestureAction, handEvents, camera.mirror]);
+
+  useEffect(() => {
+    if (!usePointer) return;
+    const source = createPointerSource(window, () => mirrorRef.current);
+    pointerSourceRef.current = source;
+    return () => {
+      source.dispose();
+      pointerSourceRef.current = null;
+    };
+  }, [usePointer]);
 
   useEffect(() => {
+    let disposed = false;
+
     const initMediaPipe = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        
-        landmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
+        const options = await loadDetectorAssets(progress => !disposed && setLoadProgress(progress));
+        setLoadProgress({ label: 'Starting hand tracking', fraction: null });
+
+        // A worker that dies mid-session hands over to the main thread; the camera keeps running.
+        // The files the worker started from are released by then, so they are downloaded again.
+        const fallBackToMainThread = async (error: Error) => {
+          console.warn("Hand detection worker stopped, detecting on the main thread:", error);
+          try {
+            const fallbackOptions = await loadDetectorAssets(() => {});
+            const detector = await createMediaPipeDetector(fallbackOptions).finally(() => releaseDetectorAssets(fallbackOptions));
+            if (disposed) return detector.close();
+            workerClientRef.current = null;
+            detectorRef.current = detector;
+            const video = videoRef.current;
+            if (webcamSourceRef.current && video) webcamSourceRef.current = createWebcamSource(video, detector);
+          } catch (fallbackError) {
+            console.error("Error initializing MediaPipe:", fallbackError);
+            if (disposed) return;
+            webcamSourceRef.current?.dispose();
+            webcamSourceRef.current = null;
+            setLoadError(fallbackError instanceof Error ? fallbackError.message : String(fallbackError));
+            setUsePointer(true);
+          }
+        };
+
+        try {
+          const client = await spawnDetectionWorker(options, fallBackToMainThread);
+          if (disposed) return client.close();
+          workerClientRef.current = client;
+        } catch (error) {
+          console.warn("Hand detection worker unavailable, detecting on the main thread:", error);
+          const detector = await createMediaPipeDetector(options);
+          if (disposed) return detector.close();
+          detectorRef.current = detector;
+        } finally {
+          releaseDetectorAssets(options);
+        }
 
         setIsLoading(false);
-        startCamera();
+        setDetectorReady(true);
       } catch (error) {
         console.error("Error initializing MediaPipe:", error);
+        if (disposed) return;
+        setLoadError(error instanceof Error ? error.message : String(error));
         setIsLoading(false);
+        setUsePointer(true);
       }
     };
 
-    initMediaPipe();
+    const playbackUrl = getPlaybackUrl();
+    if (playbackUrl) {
+      fetch(playbackUrl)
+        .then(res => {
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return res.text();
+        })
+        .then(text => loadRecording(parseRecording(text), getPlaybackLoop()))
+        .catch(error => {
+          console.error("Error loading playback recording:", error);
+          if (disposed) return;
+          // Say why nothing is playing, and hand the scene to the pointer instead
+          setLoadError(`Recording could not be loaded from ${playbackUrl} (${error instanceof Error ? error.message : String(error)})`);
+          setUsePointer(true);
+        })
+        .finally(() => setIsLoading(false));
+    } else {
+      initMediaPipe();
+    }
 
     return () => {
-      if (landmarkerRef.current) {
-        landmarkerRef.current.close();
+      disposed = true;
+      workerClientRef.current?.close();
+      detectorRef.current?.close();
+    };
+  }, []);
+
+  // Single polling loop shared by every input source
+  useEffect(() => {
+    let frameId = 0;
+
+    const tick = () => {
+      const source = playbackRef.current ?? webcamSourceRef.current ?? pointerSourceRef.current;
+      if (source) {
+        const now = performance.now();
+        const hands = source.read(now);
+        // Recordings keep the raw detector output; smoothing is applied on the way to HandState
+        if (hands) recorderRef.current.capture(hands, now);
+        const filtered = filterRef.current.update(hands, now);
+        if (filtered) applyHands(filtered, now);
       }
+      frameId = requestAnimationFrame(tick);
     };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
   }, []);
 
-  const startCamera = async () => {
-    if (!videoRef.current) return;
-
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { width: 320, height: 240 } 
-      });
-      videoRef.current.srcObject = stream;
-      videoRef.current.addEventListener('loadeddata', predictWebcam);
-      setHasPermission(true);
-    } catch (err) {
-      console.error("Camera permission denied", err);
-      setHasPermission(false);
-    }
+  // Opens the camera once the detector is ready, and again whenever the capture settings change.
+  // The previous stream is stopped first: many cameras can't be opened twice.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!detectorReady || !video) return;
+
+    let cancelled = false;
+    openCamera(camera).then(
+      stream => {
+        // Read the detector now: the worker may have been replaced while the camera opened
+        const client = workerClientRef.current;
+        const detector = detectorRef.current;
+        if (cancelled || (!client && !detector)) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        video.srcObject = stream;
+        webcamSourceRef.current = client ? createWorkerWebcamSource(video, client) : createWebcamSource(video, detector!);
+        filterRef.current.reset();
+        setCameraError(null);
+        setUsePointer(false);
+      },
+      err => {
+        if (cancelled) return;
+        console.error("Could not start the camera:", err);
+        setCameraError(describeCameraError(err));
+        setUsePointer(true);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      webcamSourceRef.current?.dispose();
+      webcamSourceRef.current = null;
+    };
+  }, [detectorReady, camera.deviceId, camera.width, camera.height, camera.frameRate]);
+
+  const applyHands = (hands: HandDetection[], now = performance.now()) => {
+    // Update ref directly to avoid React re-renders
+    const bound = recognizerRef.current.update(
+      computeHandsState(hands, handStateRef.current, GESTURE_THRESHOLDS, mirrorRef.current),
+      now,
+      gestureBindingsRef.current
+    );
+    handStateRef.current = bound.hands;
+    handEventsRef.current?.update(bound.hands, now, bound.started);
+    bound.actions.forEach(action => {
+      if (action === 'toggleRecording') toggleRecording();
+      else onGestureActionRef.current?.(action);
+    });
   };
 
-  const predictWebcam = () => {
-    if (!videoRef.current || !landmarkerRef.current) return;
-
-    const startTimeMs = performance.now();
-    
-    if (videoRef.current.videoWidth > 0) {
-       const results = landmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-
-       if (results.landmarks && results.landmarks.length > 0) {
-         const landmarks = results.landmarks[0];
-         
-         // 1. Calculate Pinch Point (midpoint between thumb tip and index tip)
-         const thumbTip = landmarks[4];
-         const indexTip = landmarks[8];
-         
-         // Pinch center - midpoint between thumb and index finger
-         const pinchX = (thumbTip.x + indexTip.x) / 2;
-         const pinchY = (thumbTip.y + indexTip.y) / 2;
-         
-         // 2. Calculate Palm Center (average of wrist and base of all fingers)
-         const wrist = landmarks[0];
-         const thumbBase = landmarks[1];
-         const indexBase = landmarks[5];
-         const middleBase = landmarks[9];
-         const ringBase = landmarks[13];
-         const pinkyBase = landmarks[17];
-         
-         const palmCenterX = (wrist.x + thumbBase.x + indexBase.x + middleBase.x + ringBase.x + pinkyBase.x) / 6;
-         const palmCenterY = (wrist.y + thumbBase.y + indexBase.y + middleBase.y + ringBase.y + pinkyBase.y) / 6;
-         
-         // 3. Calculate Pinch Distance
-         const pinchDx = thumbTip.x - indexTip.x;
-         const pinchDy = thumbTip.y - indexTip.y;
-         const pinchDz = thumbTip.z - indexTip.z;
-         const dist = Math.sqrt(pinchDx*pinchDx + pinchDy*pinchDy + pinchDz*pinchDz);
-
-         // Normalize dist roughly (0.02 is touching, 0.2 is open)
-         const pinchStrength = Math.min(Math.max((dist - 0.02) / 0.15, 0), 1);
-
-         // 4. Calculate Rotation (Roll)
-         // Use Wrist (0) and Middle Finger MCP (9) to determine orientation
-         const middleMCP = landmarks[9];
-         
-         // Calculate vector from wrist to middle finger
-         const vecX = middleMCP.x - wrist.x;
-         const vecY = middleMCP.y - wrist.y;
-         
-         // Calculate angle relative to "Up" (-Y direction)
-         const rotationRad = Math.atan2(vecY, vecX) + Math.PI / 2;
-         
-         // 5. Calculate Fingertip Positions and Directions
-         // Fingertip landmark indices: thumb=4, index=8, middle=12, ring=16, pinky=20
-         const fingerTipIndices = [4, 8, 12, 16, 20];
-         const fingerMCPIndices = [2, 5, 9, 13, 17]; // Base knuckles for each finger
-         
-         const fingerTips: FingerTip[] = fingerTipIndices.map(idx => {
-           const tip = landmarks[idx];
-           // Direction from palm center to fingertip (outward)
-           const dirX = tip.x - palmCenterX;
-           const dirY = tip.y - palmCenterY;
-           const len = Math.sqrt(dirX * dirX + dirY * dirY);
-           return {
-             x: 1.0 - tip.x, // Mirror for camera
-             y: tip.y,
-             dirX: len > 0.001 ? -dirX / len : 0, // Mirror direction
-             dirY: len > 0.001 ? dirY / len : 0
-           };
-         });
-         
-         // 6. Detect Stop/Punch gesture (open palm or closed fist)
-         // Check if all fingers are extended (open palm) or all curled (fist)
-         let fingersExtended = 0;
-         let fingersCurled = 0;
-         
-         // For index, middle, ring, pinky (skip thumb - different mechanics)
-         for (let i = 1; i < 5; i++) {
-           const tipIdx = fingerTipIndices[i];
-           const mcpIdx = fingerMCPIndices[i];
-           const tip = landmarks[tipIdx];
-           const mcp = landmarks[mcpIdx];
-           
-           // Finger is extended if tip is further from wrist than MCP
-           const tipDistToWrist = Math.sqrt(
-             Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2)
-           );
-           const mcpDistToWrist = Math.sqrt(
-             Math.pow(mcp.x - wrist.x, 2) + Math.pow(mcp.y - wrist.y, 2)
-           );
-           
-           if (tipDistToWrist > mcpDistToWrist * 1.2) {
-             fingersExtended++;
-           } else if (tipDistToWrist < mcpDistToWrist * 0.9) {
-             fingersCurled++;
-           }
-         }
-         
-         // Blast triggers only on fist (closed hand)
-         const isFist = fingersCurled >= 3 && pinchStrength < 0.3; // Closed fist
-         const blastValue = isFist ? 1.0 : 0.0;
-
-         // Update ref directly to avoid React re-renders
-         handStateRef.current = {
-           detected: true,
-           // Pinch point position (for butterfly)
-           x: 1.0 - pinchX, 
-           y: pinchY,
-           // Palm center position (for magic circle)
-           palmX: 1.0 - palmCenterX,
-           palmY: palmCenterY,
-           pinch: pinchStrength,
-           rotation: rotationRad,
-           fingerTips: fingerTips,
-           blast: blastValue
-         };
-       } else {
-         handStateRef.current = { ...handStateRef.current, detected: false };
-       }
-    }
+  const loadRecording = (recording: LandmarkRecording, loop = true) => {
+    playback?.dispose();
+    setPlayback(new LandmarkPlayback(recording, { loop }));
+  };
 
-    requestAnimationFrame(predictWebcam);
+  const closePlayback = () => {
+    playback?.dispose();
+    setPlayback(null);
+    applyHands([]);
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      downloadRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
   };
 
+  const isPlayingBack = playback !== null;
+
   return (
     <div className="fixed inset-0 z-0 overflow-hidden">
       {isLoading && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black">
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black">
           <Loader2 className="w-12 h-12 animate-spin text-white/50" />
+          {loadProgress && (
+            <div className="flex flex-col items-center gap-2 w-48 text-xs font-mono text-white/50">
+              <span>{loadProgress.label}{loadProgress.fraction !== null && ` ${Math.round(loadProgress.fraction * 100)}%`}</span>
+              {loadProgress.fraction !== null && (
+                <div className="w-full h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-violet-400" style={{ width: `${loadProgress.fraction * 100}%` }} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
-      
-      {!hasPermission && !isLoading && (
+
+      {(loadError || cameraError) && !isLoading && !isPlayingBack && (
         <div className="absolute inset-0 flex flex-col items-center justify-center text-center bg-black p-4">
-            <Camera className="w-16 h-16 text-red-400 mb-4" />
-            <span className="text-lg text-white/80 leading-tight">Camera Access Blocked</span>
-            <span className="text-sm text-white/50 mt-2">Please allow camera permissions to use hand tracking</span>
+            {loadError ? (
+              <>
+                <TriangleAlert className="w-16 h-16 text-amber-400 mb-4" />
+                <span className="text-lg text-white/80 leading-tight">Hand Tracking Unavailable</span>
+                <span className="text-sm text-white/50 mt-2 max-w-md break-words">{loadError}</span>
+              </>
+            ) : (
+              <>
+                <Camera className="w-16 h-16 text-red-400 mb-4" />
+                <span className="text-lg text-white/80 leading-tight">{cameraError!.title}</span>
+                <span className="text-sm text-white/50 mt-2 max-w-md">{cameraError!.hint}</span>
+              </>
+            )}
+            {usePointer && (
+              <span className="flex items-center gap-2 text-xs font-mono text-white/40 mt-6 max-w-sm">
+                <MousePointer2 className="w-4 h-4 shrink-0" />
+                Using mouse / touch instead: move to steer, scroll or pinch to open, twist or Q / E to roll, hold or Space to blast
+              </span>
+            )}
         </div>
       )}
 
-      <video 
+      <video
         ref={videoRef}
-        autoPlay 
+        autoPlay
         playsInline
-        className={`w-full h-full object-cover transform -scale-x-100 ${isLoading ? 'hidden' : 'block'}`}
+        className={`w-full h-full object-cover ${camera.mirror ? 'transform -scale-x-100' : ''} ${isLoading || isPlayingBack ? 'hidden' : 'block'}`}
       />
-      
+
       <div className="absolute top-4 right-4 px-3 py-1.5 bg-black/60 backdrop-blur-sm rounded-lg text-xs font-mono text-white/70 uppercase tracking-widest pointer-events-none">
-        Hand Tracking Active
+        {isPlayingBack ? 'Playback Active' : usePointer ? 'Pointer Input Active' : 'Hand Tracking Active'}
       </div>
+
+      {/* Portal so the controls sit above the scene overlay instead of under it */}
+      {createPortal(
+        <PlaybackControls
+          playback={playback}
+          isRecording={isRecording}
+          onToggleRecording={toggleRecording}
+          onLoadRecording={recording => loadRecording(recording)}
+          onClose={closePlayback}
+        />,
+        document.body
+      )}
     </div>
   );
 };
 
-export default HandController;
\ No newline at end of file
+export default HandController;
@@ -1,169 +1,222 @@
-import React, { useRef, useMemo, useState, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
-import { Text } from '@react-three/drei';
-import * as THREE from 'three';
-import { HandState } from '../types';
-
-interface NumberProjectile {
-  id: number;
-  number: number;
-  fingerIndex: number;
-  startTime: number;
-  startX: number;
-  startY: number;
-  dirX: number;
-  dirY: number;
-  speed: number;
-  angle: number; // Spread angle offset
-  scale: number;
-}
-
-interface NumberProjectilesProps {
-  handStateRef: React.MutableRefObject<HandState>;
-}
-
-const NumberProjectiles: React.FC<NumberProjectilesProps> = ({ handStateRef }) => {
-  const [projectiles, setProjectiles] = useState<NumberProjectile[]>([]);
-  const nextIdRef = useRef(0);
-  const lastSpawnTimeRef = useRef<number[]>([0, 0, 0, 0, 0]);
-  const groupRef = useRef<THREE.Group>(null);
-
-  // Spawn new projectiles periodically
-  useFrame((state) => {
-    const time = state.clock.getElapsedTime();
-    const hand = handStateRef.current;
-    
-    if (!hand.detected || !hand.fingerTips) return;
-    
-    // Calculate magic mode (only spawn when in magic mode)
-    const magicMode = THREE.MathUtils.smoothstep(hand.pinch, 0.3, 0.8);
-    if (magicMode < 0.5) return;
-    
-    // Calculate camera frustum for world coordinates
-    const camera = state.camera as THREE.PerspectiveCamera;
-    const distance = camera.position.z;
-    const vFOV = (camera.fov * Math.PI) / 180;
-    const height = 2 * Math.tan(vFOV / 2) * distance;
-    const width = height * camera.aspect;
-    
-    // Blend position based on magic mode
-    const targetX = THREE.MathUtils.lerp(hand.x, hand.palmX, magicMode);
-    const targetY = THREE.MathUtils.lerp(hand.y, hand.palmY, magicMode);
-    const worldCenterX = (targetX - 0.5) * width;
-    const worldCenterY = -(targetY - 0.5) * height;
-    
-    // Spawn rate per finger
-    const spawnInterval = 0.15 + Math.random() * 0.1; // Random interval between spawns
-    
-    const newProjectiles: NumberProjectile[] = [];
-    
-    hand.fingerTips.forEach((tip, fingerIndex) => {
-      if (time - lastSpawnTimeRef.current[fingerIndex] > spawnInterval) {
-        // Random chance to spawn (not every frame)
-        if (Math.random() > 0.4) {
-          lastSpawnTimeRef.current[fingerIndex] = time;
-          
-          // Outer radius of magic circle in world units (scaled)
-          const outerRadius = 10.5 * (0.8 + hand.pinch * 1.5); // Match the scale from Scene
-          
-          // Calculate spawn position at outer radius along finger direction
-          const dirAngle = Math.atan2(tip.dirY, tip.dirX);
-          const spreadAngle = (Math.random() - 0.5) * 0.6; // Spread cone
-          const finalAngle = dirAngle + spreadAngle;
-          
-          const spawnX = worldCenterX + Math.cos(finalAngle) * outerRadius;
-          const spawnY = worldCenterY + Math.sin(finalAngle) * outerRadius;
-          
-          newProjectiles.push({
-            id: nextIdRef.current++,
-            number: Math.floor(Math.random() * 10), // Random digit 0-9
-            fingerIndex,
-            startTime: time,
-            startX: spawnX,
-            startY: spawnY,
-            dirX: Math.cos(finalAngle),
-            dirY: Math.sin(finalAngle),
-            speed: 15 + Math.random() * 10, // Random speed
-            angle: finalAngle,
-            scale: 0.8 + Math.random() * 0.6
-          });
-        }
-      }
-    });
-    
-    if (newProjectiles.length > 0) {
-      setProjectiles(prev => [...prev, ...newProjectiles]);
-    }
-    
-    // Clean up old projectiles
-    setProjectiles(prev => prev.filter(p => time - p.startTime < 2.0));
-  });
-
-  return (
-    <group ref={groupRef}>
-      {projectiles.map(proj => (
-        <ProjectileNumber key={proj.id} projectile={proj} />
-      ))}
-    </group>
-  );
-};
-
-// Individual projectile number component
-const ProjectileNumber: React.FC<{ projectile: NumberProjectile }> = ({ projectile }) => {
-  const textRef = useRef<THREE.Mesh>(null);
-  
-  useFrame((state) => {
-    if (!textRef.current) return;
-    
-    const elapsed = state.clock.getElapsedTime() - projectile.startTime;
-    const lifetime = 2.0;
-    const progress = elapsed / lifetime;
-    
-    if (progress >= 1) return;
-    
-    // Position: move outward from spawn point
-    const distance = elapsed * projectile.speed;
-    const x = projectile.startX + projectile.dirX * distance;
-    const y = projectile.startY + projectile.dirY * distance;
-    const z = Math.sin(elapsed * 3) * 2; // Slight wave in Z
-    
-    textRef.current.position.set(x, y, z);
-    
-    // Fade out and shrink
-    const fadeOut = 1 - progress;
-    const scale = projectile.scale * (1 + progress * 0.5) * fadeOut;
-    textRef.current.scale.setScalar(scale);
-    
-    // Rotate slightly
-    textRef.current.rotation.z += 0.02;
-    
-    // Update opacity
-    const material = textRef.current.material as THREE.MeshBasicMaterial;
-    if (material && 'opacity' in material) {
-      material.opacity = fadeOut * 0.9;
-    }
-  });
-  
-  // Color based on finger (gradient from cyan to purple)
-  const colors = ['#00ffff', '#00e5ff', '#00d4ff', '#00c3ff', '#00b0ff'];
-  const color = colors[projectile.fingerIndex % colors.length];
-  
-  return (
-    <Text
-      ref={textRef}
-      fontSize={2}
-      color={color}
-      anchorX="center"
-      anchorY="middle"
-      font="https://fonts.gstatic.com/s/roboto/v30/KFOmCnqEu92Fr1Me5Q.ttf"
-      material-transparent={true}
-      material-opacity={0.9}
-      material-blending={THREE.AdditiveBlending}
-      material-depthWrite={false}
-    >
-      {projectile.number}
-    </Text>
-  );
-};
-
-export default NumberProjectiles;
+import React, { useRef, useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { HandsState, HandBinding, Handedness, ModeLock, ProjectileSettings, RingLayer, Theme } from '../types';
+import { magicAmount, selectHandSide } from '../utils/gestures';
+import { screenToWorld } from '../utils/screenToWorld';
+import { SceneClock } from '../utils/sceneClock';
+import { ProjectilePool } from '../utils/projectilePool';
+import { ATLAS_COLUMNS, GLYPH_CELL_SCALE, GlyphAtlas } from '../utils/glyphAtlas';
+import { FingerContent, contentGlyphs, dominantRingContent } from '../utils/projectileContent';
+import { FINGER_NAMES } from '../utils/fingerForces';
+import { ThemeBlend } from '../utils/themes';
+import { PROJECTILES_LAYERS } from '../utils/postProcessing';
+import { HandEventEmitter } from '../utils/handEvents';
+
+interface NumberProjectilesProps {
+  handStateRef: React.MutableRefObject<HandsState>;
+  clock: SceneClock;
+  settings: ProjectileSettings;
+  rings: RingLayer[];
+  theme: Theme;
+  hand?: HandBinding;
+  modeLock?: ModeLock;
+  // Spawning follows its modeChange events
+  handEvents: HandEventEmitter;
+}
+
+const MAX_PROJECTILES = 8192;  // Pool size; beyond this the oldest digits are recycled
+const FONT_SIZE = 2;           // World-space glyph height
+const SPIN = 1.2;              // Radians per second
+const SPREAD = 0.6;            // Width of the spawn cone around each finger's direction
+
+// Position, size and fade follow from the launch state in the instance attributes and uTime
+const vertexShader = `
+  attribute vec4 aStart;  // x, y, spawn time, lifetime
+  attribute vec4 aMotion; // velocity x, y, scale, glyph atlas cell
+  attribute vec3 aColor;
+  uniform float uTime;
+  uniform float uQuadSize;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    float age = uTime - aStart.z;
+    float progress = age / max(aStart.w, 1e-4);
+    if (aStart.w <= 0.0 || progress < 0.0 || progress >= 1.0) {
+        gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // Outside the clip volume
+        return;
+    }
+
+    // Fade out and shrink while growing slightly at first
+    float fadeOut = 1.0 - progress;
+    float size = aMotion.z * (1.0 + progress * 0.5) * fadeOut * uQuadSize;
+    float angle = age * ${SPIN.toFixed(2)};
+    vec2 corner = mat2(cos(angle), sin(angle), -sin(angle), cos(angle)) * position.xy * size;
+
+    // Move outward from the spawn point with a slight wave in Z
+    vec3 center = vec3(aStart.xy + aMotion.xy * age, sin(age * 3.0) * 2.0);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(center + vec3(corner, 0.0), 1.0);
+
+    float cell = floor(aMotion.w + 0.5);
+    vec2 cellOrigin = vec2(mod(cell, ${ATLAS_COLUMNS.toFixed(1)}), floor(cell / ${ATLAS_COLUMNS.toFixed(1)}));
+    vUv = (cellOrigin + uv) / ${ATLAS_COLUMNS.toFixed(1)};
+    vColor = aColor;
+    vAlpha = fadeOut * 0.9;
+  }
+`;
+
+const fragmentShader = `
+  uniform sampler2D uAtlas;
+  varying vec2 vUv;
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    float dist = texture2D(uAtlas, vUv).r;
+    float edge = fwidth(dist) * 0.75;
+    float glyph = smoothstep(0.5 - edge, 0.5 + edge, dist);
+    float glow = smoothstep(0.2, 0.5, dist) * 0.35;
+    float alpha = max(glyph, glow) * vAlpha;
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(vColor, alpha);
+  }
+`;
+
+// Glyphs flying out of the fingertips in magic circle mode, drawn as one instanced mesh from
+// a fixed pool. Spawning writes a few floats per glyph; nothing goes through React state.
+const NumberProjectiles: React.FC<NumberProjectilesProps> = ({ handStateRef, clock, settings, rings, theme, hand: binding = 'any', modeLock, handEvents }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const center = useMemo(() => new THREE.Vector3(), []);
+  const inverseView = useMemo(() => new THREE.Quaternion(), []);
+  const spawnDebtRef = useRef<number[]>([0, 0, 0, 0, 0]);
+  const lastTimeRef = useRef(0);
+  const fingerContent = useMemo(() => FINGER_NAMES.map(() => new FingerContent()), []);
+  const circleContent = useMemo(() => dominantRingContent(rings), [rings]);
+
+  const pool = useMemo(() => new ProjectilePool(MAX_PROJECTILES), []);
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(1, 1);
+    plane.setAttribute('aStart', new THREE.InstancedBufferAttribute(pool.start, 4).setUsage(THREE.DynamicDrawUsage));
+    plane.setAttribute('aMotion', new THREE.InstancedBufferAttribute(pool.motion, 4).setUsage(THREE.DynamicDrawUsage));
+    plane.setAttribute('aColor', new THREE.InstancedBufferAttribute(pool.color, 3).setUsage(THREE.DynamicDrawUsage));
+    return plane;
+  }, [pool]);
+  // Built-in glyphs are drawn once up front; spawning only looks cells up
+  const atlas = useMemo(() => new GlyphAtlas(contentGlyphs()), []);
+  useEffect(() => () => {
+    geometry.dispose();
+    atlas.dispose();
+  }, [geometry, atlas]);
+
+  // Custom text is drawn when it changes, never mid-frame, into cells no live projectile shows
+  useEffect(() => {
+    atlas.add(contentGlyphs(settings.text), pool.liveGlyphs(clock.time));
+  }, [atlas, pool, clock, settings.text]);
+
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uQuadSize: { value: FONT_SIZE * GLYPH_CELL_SCALE },
+    uAtlas: { value: atlas.texture }
+  }), [atlas]);
+
+  // Finger colors; new glyphs pick up a theme change as it fades in
+  const themeBlend = useMemo(() => new ThemeBlend(theme), []);
+  useEffect(() => themeBlend.setTheme(theme), [themeBlend, theme]);
+
+  // Which hands show the magic circle, per the debounced mode events
+  const magicHandsRef = useRef<Record<Handedness, boolean>>({ left: false, right: false });
+  useEffect(() => handEvents.on('modeChange', event => {
+    magicHandsRef.current[event.hand] = event.mode === 'magicCircle';
+  }), [handEvents]);
+
+  useFrame((state) => {
+    const time = clock.time;
+    uniforms.uTime.value = time;
+    themeBlend.update(clock.delta);
+
+    // Offline capture restarts scene time; old spawn times would otherwise fire again
+    if (time < lastTimeRef.current) pool.clear();
+    lastTimeRef.current = time;
+
+    // Projectiles fly in the screen plane: keep the group facing the camera
+    groupRef.current?.quaternion.copy(state.camera.quaternion);
+
+    const side = selectHandSide(handStateRef.current, binding);
+    const hand = handStateRef.current[side];
+
+    // Only spawn in magic mode
+    const inMagic = modeLock ? modeLock === 'magicCircle' : magicHandsRef.current[side];
+    const magicMode = magicAmount(hand.pinch, modeLock);
+
+    if (!settings.enabled || !hand.detected || !hand.fingerTips || !inMagic) {
+      spawnDebtRef.current.fill(0);
+    } else {
+      // Blend position based on magic mode
+      const targetX = THREE.MathUtils.lerp(hand.x, hand.palmX, magicMode);
+      const targetY = THREE.MathUtils.lerp(hand.y, hand.palmY, magicMode);
+
+      // Hand position in world space, then into the camera-aligned group frame
+      screenToWorld(state.camera, targetX, targetY, center);
+      center.applyQuaternion(inverseView.copy(state.camera.quaternion).invert());
+
+      // Outer radius of magic circle in world units (scaled)
+      const outerRadius = 10.5 * (0.8 + hand.pinch * 1.5); // Match the scale from Scene
+
+      hand.fingerTips.forEach((tip, fingerIndex) => {
+        const debt = spawnDebtRef.current;
+        // Jittered so the fingers don't fire in lockstep
+        debt[fingerIndex] += settings.spawnRate * clock.delta * (0.5 + Math.random());
+        const content = settings[`${FINGER_NAMES[fingerIndex]}Content` as const];
+        for (; debt[fingerIndex] >= 1; debt[fingerIndex]--) {
+          const token = fingerContent[fingerIndex].next(content, settings.text, circleContent);
+          const glyph = atlas.cellOf(token);
+          if (glyph === undefined) continue; // Spaces in streamed text leave a gap
+
+          // Spawn at the outer radius, within a cone around the finger direction
+          const angle = Math.atan2(tip.dirY, tip.dirX) + (Math.random() - 0.5) * SPREAD;
+          const speed = settings.speed * (0.75 + Math.random() * 0.5);
+          pool.spawn({
+            x: center.x + Math.cos(angle) * outerRadius,
+            y: center.y + Math.sin(angle) * outerRadius,
+            velocityX: Math.cos(angle) * speed,
+            velocityY: Math.sin(angle) * speed,
+            time,
+            lifetime: settings.lifetime,
+            scale: 0.8 + Math.random() * 0.6,
+            glyph,
+            color: themeBlend.projectiles[fingerIndex]
+          });
+        }
+      });
+    }
+
+    // Upload only the slots written this frame
+    const ranges = pool.takeDirtyRanges();
+    if (ranges.length === 0) return;
+    (['aStart', 'aMotion', 'aColor'] as const).forEach(name => {
+      const attribute = geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+      attribute.clearUpdateRanges();
+      ranges.forEach(([first, count]) => attribute.addUpdateRange(first * attribute.itemSize, count * attribute.itemSize));
+      attribute.needsUpdate = true;
+    });
+  });
+
+  return (
+    <group ref={groupRef}>
+      <instancedMesh args={[geometry, undefined, MAX_PROJECTILES]} frustumCulled={false} layers={PROJECTILES_LAYERS}>
+        <shaderMaterial
+          vertexShader={vertexShader}
+          fragmentShader={fragmentShader}
+          uniforms={uniforms}
+          transparent
+          depthWrite={false}
+          blending={THREE.AdditiveBlending}
+        />
+      </instancedMesh>
+    </group>
+  );
+};
+
+export default NumberProjectiles;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+
+interface PaletteEditorProps {
+  label: string;
+  colors: string[];
+  max: number;
+  onChange: (colors: string[]) => void;
+}
+
+// Row of color swatches; click one to edit, × to remove, + to append a copy of the last color
+const PaletteEditor: React.FC<PaletteEditorProps> = ({ label, colors, max, onChange }) => (
+  <div className="flex items-center justify-between gap-2">
+    <span>{label}</span>
+    <div className="flex flex-wrap items-center justify-end gap-1">
+      {colors.map((color, index) => (
+        <div key={index} className="relative group">
+          <input
+            type="color"
+            value={color}
+            onChange={e => onChange(colors.map((c, i) => (i === index ? e.target.value : c)))}
+            className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+          />
+          {colors.length > 1 && (
+            <button
+              onClick={() => onChange(colors.filter((_, i) => i !== index))}
+              className="absolute -top-1.5 -right-1.5 hidden group-hover:block rounded-full bg-black/80 text-white/60 hover:text-red-400"
+              title="Remove color"
+            >
+              <X className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </div>
+      ))}
+      {colors.length < max && (
+        <button
+          onClick={() => onChange([...colors, colors[colors.length - 1]])}
+          className="text-white/50 hover:text-white"
+          title="Add color"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+export default PaletteEditor;
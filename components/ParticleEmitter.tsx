@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { ButterflyParams, EmitterConfig, HandBinding, HandsState } from '../types';
+import { fillButterflyCurve } from '../utils/butterfly';
+import { selectHand } from '../utils/gestures';
+import { screenToWorld } from '../utils/screenToWorld';
+import { SceneClock } from '../utils/sceneClock';
+import { AnchorState, EmitterParticles, emitterCapacity, sampleEmitterShape } from '../utils/emitters';
+import { EMITTERS_LAYERS } from '../utils/postProcessing';
+
+interface ParticleEmitterProps {
+  config: EmitterConfig;
+  params: ButterflyParams;
+  clock: SceneClock;
+  // The InteractiveButterfly group: emitters follow its position, hand roll and scale
+  anchorRef: React.RefObject<THREE.Group | null>;
+  anchorStateRef: React.MutableRefObject<AnchorState>;
+  handStateRef: React.MutableRefObject<HandsState>;
+  hand: HandBinding;
+  rateScale?: number;  // Adaptive quality multiplier on the emission rate
+}
+
+const FINGERTIP_COUNT = 5;
+const CURVE_SAMPLES = 2048;  // Birth points along the butterfly curve
+
+const vertexShader = `
+  attribute float aLife;
+  uniform float uSize;
+  varying float vLife;
+
+  void main() {
+    vLife = aLife;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Size attenuation; dead particles vanish
+    gl_PointSize = aLife < 1.0 ? uSize * (25.0 / -mvPosition.z) : 0.0;
+  }
+`;
+
+const fragmentShader = `
+  uniform vec3 uStartColor;
+  uniform vec3 uEndColor;
+  varying float vLife;
+
+  void main() {
+    // Soft Circular Particle
+    vec2 uv = gl_PointCoord - 0.5;
+    float r = length(uv);
+    if (r > 0.5) discard;
+
+    // Glow gradient: center is bright, edges fade
+    float glow = 1.0 - (r * 2.0);
+    glow = pow(glow, 1.5); // Tune sharpness
+
+    // Alpha is controlled by remaining life and radial glow
+    float alpha = glow * (1.0 - vLife) * 0.8;
+
+    // Color over life, mixed with white for a "hot" center
+    vec3 color = mix(uStartColor, uEndColor, vLife);
+    vec3 finalColor = mix(color, vec3(1.0), glow * 0.5);
+
+    gl_FragColor = vec4(finalColor, alpha);
+  }
+`;
+
+// One emitter: CPU particles born on the butterfly, the magic circle or the fingertips, then
+// falling and drifting in world space with color over life
+const ParticleEmitter: React.FC<ParticleEmitterProps> = ({
+  config, params, clock, anchorRef, anchorStateRef, handStateRef, hand: binding, rateScale = 1
+}) => {
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const birth = useMemo(() => new THREE.Vector3(), []);
+  const tipWorld = useMemo(() => new THREE.Vector3(), []);
+  const anchorWorld = useMemo(() => new THREE.Vector3(), []);
+
+  const sources = config.anchor === 'fingertips' ? FINGERTIP_COUNT : 1;
+  const capacity = emitterCapacity(config, sources);
+  const particles = useMemo(() => new EmitterParticles(capacity), [capacity]);
+
+  // Same points (and vertical centering) the butterfly is drawn from
+  const curve = useMemo(() => fillButterflyCurve(new Float32Array(CURVE_SAMPLES * 3), params), [params.iter, params.a, params.b, params.c, params.scale]);
+
+  const uniforms = useMemo(() => ({
+    uSize: { value: config.size },
+    uStartColor: { value: new THREE.Color() },
+    uEndColor: { value: new THREE.Color() }
+  }), []);
+  useEffect(() => {
+    uniforms.uSize.value = config.size;
+    uniforms.uStartColor.value.setStyle(config.startColor, THREE.LinearSRGBColorSpace);
+    uniforms.uEndColor.value.setStyle(config.endColor, THREE.LinearSRGBColorSpace);
+  }, [uniforms, config.size, config.startColor, config.endColor]);
+
+  useFrame(({ camera }) => {
+    const anchor = anchorRef.current;
+    if (!geometryRef.current || !anchor) return;
+    const dt = clock.delta;
+    const { visible, magic } = anchorStateRef.current;
+
+    // Orb and circle emitters fade with the pinch that morphs one into the other
+    let strength = visible ? 1 : 0;
+    if (config.anchor === 'orb') strength *= 1 - magic;
+    else if (config.anchor === 'magicCircle') strength *= magic;
+
+    const count = particles.due(config.rate * sources * strength * rateScale, dt);
+    if (count > 0) {
+      anchor.updateWorldMatrix(true, false);
+      if (config.anchor === 'fingertips') {
+        // Fingertips on the camera-facing plane through the butterfly, taking turns
+        const hand = selectHand(handStateRef.current, binding);
+        anchor.getWorldPosition(anchorWorld);
+        for (let i = 0; i < count && hand.fingerTips.length > 0; i++) {
+          const tip = hand.fingerTips[i % hand.fingerTips.length];
+          screenToWorld(camera, tip.x, tip.y, tipWorld, anchorWorld);
+          sampleEmitterShape(config.shape, config.spread, curve, birth);
+          particles.spawn(birth.add(tipWorld), config.lifetime);
+        }
+      } else {
+        for (let i = 0; i < count; i++) {
+          sampleEmitterShape(config.shape, config.spread, curve, birth);
+          particles.spawn(birth.applyMatrix4(anchor.matrixWorld), config.lifetime);
+        }
+      }
+    }
+
+    particles.update(config, dt, clock.time);
+    geometryRef.current.attributes.position.needsUpdate = true;
+    geometryRef.current.attributes.aLife.needsUpdate = true;
+  });
+
+  return (
+    <points frustumCulled={false} layers={EMITTERS_LAYERS}>
+      {/* Attribute sizes are fixed once uploaded, so a new capacity needs a new geometry */}
+      <bufferGeometry key={capacity} ref={geometryRef}>
+        <bufferAttribute
+          attach="attributes-position"
+          count={capacity}
+          array={particles.positions}
+          itemSize={3}
+          usage={THREE.DynamicDrawUsage}
+        />
+        <bufferAttribute
+          attach="attributes-aLife"
+          count={capacity}
+          array={particles.ages}
+          itemSize={1}
+          usage={THREE.DynamicDrawUsage}
+        />
+      </bufferGeometry>
+      <shaderMaterial
+        vertexShader={vertexShader}
+        fragmentShader={fragmentShader}
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+        uniforms={uniforms}
+      />
+    </points>
+  );
+};
+
+export default ParticleEmitter;
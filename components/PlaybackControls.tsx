@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Square, Play, Pause, Repeat, Upload, X } from 'lucide-react';
+import { LandmarkRecording } from '../types';
+import { LandmarkPlayback, parseRecording } from '../utils/landmarkRecording';
+
+interface PlaybackControlsProps {
+  playback: LandmarkPlayback | null;
+  isRecording: boolean;
+  onToggleRecording: () => void;
+  onLoadRecording: (recording: LandmarkRecording) => void;
+  onClose: () => void;
+}
+
+const buttonClass = "p-1.5 rounded-md text-white/70 hover:text-white hover:bg-white/10 transition-colors";
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playback,
+  isRecording,
+  onToggleRecording,
+  onLoadRecording,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const seekRef = useRef<HTMLInputElement>(null);
+  const timeLabelRef = useRef<HTMLSpanElement>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [loop, setLoop] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!playback) return;
+    setIsPaused(playback.isPaused);
+    setLoop(playback.loop);
+
+    // Drive the seek bar from the playback clock without re-rendering every frame
+    let frameId = 0;
+    const update = () => {
+      const time = playback.currentTime();
+      if (seekRef.current && document.activeElement !== seekRef.current) {
+        seekRef.current.value = String(time);
+      }
+      if (timeLabelRef.current) {
+        timeLabelRef.current.textContent = `${(time / 1000).toFixed(1)}s / ${(playback.duration / 1000).toFixed(1)}s`;
+      }
+      frameId = requestAnimationFrame(update);
+    };
+    frameId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frameId);
+  }, [playback]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoadRecording(parseRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const togglePause = () => {
+    if (!playback) return;
+    if (playback.isPaused) playback.play();
+    else playback.pause();
+    setIsPaused(playback.isPaused);
+  };
+
+  const toggleLoop = () => {
+    if (!playback) return;
+    playback.loop = !playback.loop;
+    setLoop(playback.loop);
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-30 flex flex-col gap-2 text-xs font-mono text-white/70">
+      {error && (
+        <div className="px-3 py-1.5 bg-red-900/60 backdrop-blur-sm rounded-lg max-w-xs">{error}</div>
+      )}
+
+      {playback && (
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-black/60 backdrop-blur-sm rounded-lg">
+          <button className={buttonClass} onClick={togglePause} title={isPaused ? 'Play' : 'Pause'}>
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+          <input
+            ref={seekRef}
+            type="range"
+            min={0}
+            max={playback.duration}
+            step={1}
+            defaultValue={0}
+            onChange={e => playback.seek(Number(e.target.value))}
+            className="w-40 accent-violet-500"
+          />
+          <span ref={timeLabelRef} className="w-24 text-right" />
+          <button
+            className={`${buttonClass} ${loop ? 'text-violet-300' : ''}`}
+            onClick={toggleLoop}
+            title="Loop"
+          >
+            <Repeat className="w-4 h-4" />
+          </button>
+          <button className={buttonClass} onClick={onClose} title="Back to camera">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 px-2 py-1.5 bg-black/60 backdrop-blur-sm rounded-lg self-start">
+        <button
+          className={buttonClass}
+          onClick={onToggleRecording}
+          title={isRecording ? 'Stop and save recording' : 'Record hand landmarks'}
+        >
+          {isRecording
+            ? <Square className="w-4 h-4 text-red-400 fill-red-400" />
+            : <Circle className="w-4 h-4 text-red-400" />}
+        </button>
+        <button className={buttonClass} onClick={() => fileInputRef.current?.click()} title="Load recording">
+          <Upload className="w-4 h-4" />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
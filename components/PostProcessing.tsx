@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { HandsState, PostProcessingSettings } from '../types';
+import { PostEffectDrivers, bloomLayerMask } from '../utils/postProcessing';
+import { SceneClock } from '../utils/sceneClock';
+
+interface PostProcessingProps {
+  settings: PostProcessingSettings;
+  clock: SceneClock;
+  handStateRef: React.MutableRefObject<HandsState>;
+}
+
+const fullscreenVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// Adds the glow of the bloom layers. Alpha is left alone: on the premultiplied canvas the
+// extra color lands on top of the webcam like the additive particles themselves.
+const bloomMixShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    tBloom: { value: null }
+  },
+  vertexShader: fullscreenVertexShader,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform sampler2D tBloom;
+    varying vec2 vUv;
+
+    void main() {
+      vec4 base = texture2D(tDiffuse, vUv);
+      gl_FragColor = vec4(base.rgb + texture2D(tBloom, vUv).rgb, base.a);
+    }
+  `
+};
+
+// Radial color fringes and edge darkening, both scaled by the blast. The vignette raises alpha
+// toward the edges so it darkens the webcam too.
+const lensShader = {
+  uniforms: {
+    tDiffuse: { value: null },
+    uChromatic: { value: 0 },
+    uVignette: { value: 0 }
+  },
+  vertexShader: fullscreenVertexShader,
+  fragmentShader: `
+    uniform sampler2D tDiffuse;
+    uniform float uChromatic;
+    uniform float uVignette;
+    varying vec2 vUv;
+
+    void main() {
+      vec2 offset = (vUv - 0.5) * uChromatic;
+      vec4 base = texture2D(tDiffuse, vUv);
+      vec4 red = texture2D(tDiffuse, vUv + offset);
+      vec4 blue = texture2D(tDiffuse, vUv - offset);
+      vec4 color = vec4(red.r, base.g, blue.b, max(base.a, max(red.a, blue.a)));
+
+      float edge = uVignette * smoothstep(0.35, 0.75, length(vUv - 0.5));
+      gl_FragColor = vec4(color.rgb * (1.0 - edge), color.a + (1.0 - color.a) * edge);
+    }
+  `
+};
+
+// Replaces R3F's render with an EffectComposer chain: scene → bloom mix → afterimage → lens.
+// Bloom comes from a second composer that only sees the particle layers picked for it.
+// Only mounted while an effect is on, so the plain render stays as cheap as before.
+const PostProcessing: React.FC<PostProcessingProps> = ({ settings, clock, handStateRef }) => {
+  const gl = useThree(state => state.gl);
+  const scene = useThree(state => state.scene);
+  const camera = useThree(state => state.camera);
+  const size = useThree(state => state.size);
+  const dpr = useThree(state => state.viewport.dpr);
+  const drivers = useMemo(() => new PostEffectDrivers(), []);
+
+  const { bloom, trails } = settings;
+  const pipeline = useMemo(() => {
+    let bloomComposer: EffectComposer | null = null;
+    let bloomPass: UnrealBloomPass | null = null;
+    if (bloom) {
+      bloomComposer = new EffectComposer(gl);
+      bloomComposer.renderToScreen = false;
+      bloomComposer.addPass(new RenderPass(scene, camera));
+      bloomPass = new UnrealBloomPass(new THREE.Vector2(size.width, size.height), 1, 0, 0);
+      bloomComposer.addPass(bloomPass);
+    }
+
+    const composer = new EffectComposer(gl);
+    composer.addPass(new RenderPass(scene, camera));
+    if (bloomPass) {
+      const mix = new ShaderPass(bloomMixShader);
+      // The bloom pass leaves its glow, without the scene under it, in its first horizontal target
+      mix.uniforms.tBloom.value = bloomPass.renderTargetsHorizontal[0].texture;
+      composer.addPass(mix);
+    }
+    const afterimage = trails ? new AfterimagePass(0) : null;
+    if (afterimage) composer.addPass(afterimage);
+    const lens = new ShaderPass(lensShader);
+    composer.addPass(lens);
+
+    return { composer, bloomComposer, bloomPass, afterimage, lens };
+  }, [gl, scene, camera, bloom, trails]);
+
+  useEffect(() => {
+    pipeline.composer.setPixelRatio(dpr);
+    pipeline.composer.setSize(size.width, size.height);
+    pipeline.bloomComposer?.setPixelRatio(dpr);
+    pipeline.bloomComposer?.setSize(size.width, size.height);
+  }, [pipeline, size, dpr]);
+
+  useEffect(() => () => {
+    pipeline.composer.dispose();
+    pipeline.bloomComposer?.dispose();
+  }, [pipeline]);
+
+  // Positive priority takes over rendering from R3F
+  useFrame(() => {
+    const { composer, bloomComposer, bloomPass, afterimage, lens } = pipeline;
+    const { delta } = clock;
+    drivers.update(handStateRef.current, delta);
+
+    if (bloomComposer && bloomPass) {
+      bloomPass.strength = settings.bloomStrength;
+      bloomPass.radius = settings.bloomRadius;
+      bloomPass.threshold = settings.bloomThreshold;
+      const mask = camera.layers.mask;
+      camera.layers.mask = bloomLayerMask(settings);
+      bloomComposer.render(delta);
+      camera.layers.mask = mask;
+    }
+    if (afterimage) afterimage.damp = drivers.trailDamping(settings);
+    lens.uniforms.uChromatic.value = settings.chromatic ? settings.chromaticStrength * drivers.blast : 0;
+    lens.uniforms.uVignette.value = settings.vignette ? settings.vignetteStrength * drivers.blast : 0;
+
+    composer.render(delta);
+  }, 1);
+
+  return null;
+};
+
+export default PostProcessing;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { RingLayer } from '../types';
+import { MAX_RING_LAYERS, getRingModule, listRingModules } from '../utils/rings';
+
+interface RingLayerEditorProps {
+  layers: RingLayer[];
+  colors: string[];  // Theme ring colors, repeating like in the shader
+  onChange: (layers: RingLayer[]) => void;
+}
+
+// Stacks magic circle layers, innermost first: reorder, add from the module library, remove
+const RingLayerEditor: React.FC<RingLayerEditorProps> = ({ layers, colors, onChange }) => {
+  const move = (index: number, offset: number) => {
+    const next = [...layers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const add = (moduleId: string) => {
+    const module = getRingModule(moduleId);
+    if (module) onChange([...layers, { module: module.id }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      {layers.map((layer, index) => (
+        <div key={index} className="flex items-center gap-1.5">
+          <span
+            className="w-3 h-3 rounded-full shrink-0"
+            style={{ backgroundColor: colors[index % colors.length] }}
+            title="Set in the theme"
+          />
+          <span className="flex-1 truncate">{getRingModule(layer.module)?.name ?? layer.module}</span>
+          <button
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            className="text-white/50 hover:text-white disabled:opacity-20"
+            title="Move inward"
+          >
+            <ArrowUp className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => move(index, 1)}
+            disabled={index === layers.length - 1}
+            className="text-white/50 hover:text-white disabled:opacity-20"
+            title="Move outward"
+          >
+            <ArrowDown className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onChange(layers.filter((_, i) => i !== index))}
+            disabled={layers.length === 1}
+            className="text-white/40 hover:text-red-400 disabled:opacity-20"
+            title="Remove layer"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {layers.length < MAX_RING_LAYERS && (
+        <label className="flex items-center gap-1.5 text-white/50">
+          <Plus className="w-3.5 h-3.5" />
+          <select
+            value=""
+            onChange={e => add(e.target.value)}
+            className="flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10"
+          >
+            <option value="" disabled>Add layer…</option>
+            {listRingModules().map(module => (
+              <option key={module.id} value={module.id}>{module.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default RingLayerEditor;
@@ -1,54 +1,104 @@
-import React, { Suspense, useRef } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import ButterflyCurve from './ButterflyCurve';
 import NumberProjectiles from './NumberProjectiles';
-import { ButterflyParams, ViewMode, HandState } from '../types';
+import CameraRig from './CameraRig';
+import ParticleEmitter from './ParticleEmitter';
+import PostProcessing from './PostProcessing';
+import { ButterflyParams, RenderSettings, ViewMode, HandsState, HandBinding, HandBindings, FingerForces, ModeLock, ProjectileSettings, QualitySettings, RingLayer, EmitterConfig, PostProcessingSettings, Theme, AudioSettings } from '../types';
+import { magicAmount, selectHand } from '../utils/gestures';
+import { screenToWorld } from '../utils/screenToWorld';
+import { isFreeViewMode } from '../utils/cameraModes';
+import { SceneClock } from '../utils/sceneClock';
+import { CaptureTarget } from '../utils/canvasCapture';
+import { AdaptiveQuality, QUALITY_LEVELS, scaledParticleCount } from '../utils/adaptiveQuality';
+import { AnchorState } from '../utils/emitters';
+import { hasPostEffects } from '../utils/postProcessing';
+import { AudioDrive } from '../utils/audioAnalysis';
+import { AudioInput } from '../utils/audioInput';
+import { HandEventEmitter } from '../utils/handEvents';
 
 interface SceneProps {
   params: ButterflyParams;
+  settings: RenderSettings;
   viewMode: ViewMode;
-  handStateRef: React.MutableRefObject<HandState>;
+  handStateRef: React.MutableRefObject<HandsState>;
+  handBindings: HandBindings;
+  fingerForces: FingerForces;
+  rings: RingLayer[];
+  quality: QualitySettings;
+  projectiles: ProjectileSettings;
+  emitters: EmitterConfig[];
+  postProcessing: PostProcessingSettings;
+  theme: Theme;
+  audio: AudioSettings;
+  audioInput: AudioInput;
+  handEvents: HandEventEmitter;
+  // Filled with the renderer and scene clock for the canvas recorder
+  captureRef?: React.MutableRefObject<CaptureTarget | null>;
 }
 
-const InteractiveButterfly = ({ params, handStateRef }: { params: ButterflyParams, handStateRef: React.MutableRefObject<HandState> }) => {
+interface InteractiveButterflyProps {
+  params: ButterflyParams;
+  settings: RenderSettings;
+  clock: SceneClock;
+  handStateRef: React.MutableRefObject<HandsState>;
+  hand: HandBinding;
+  fingerForces: FingerForces;
+  rings: RingLayer[];
+  theme: Theme;
+  particleCount: number;
+  pointScale: number;
+  emitters: EmitterConfig[];
+  emitterRateScale: number;
+  audio: AudioDrive;
+  handEvents: HandEventEmitter;
+  modeLock?: ModeLock;
+}
+
+const IDENTITY = new THREE.Quaternion();
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+const InteractiveButterfly = ({ params, settings, clock, handStateRef, hand: binding, fingerForces, rings, theme, particleCount, pointScale, emitters, emitterRateScale, audio, handEvents, modeLock }: InteractiveButterflyProps) => {
   const groupRef = useRef<THREE.Group>(null);
+  const anchorState = useRef<AnchorState>({ visible: false, magic: 0 });
   const currentScale = useRef(1.0);
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  const rollQuat = useMemo(() => new THREE.Quaternion(), []);
 
-  useFrame((state, delta) => {
+  useFrame((state) => {
     if (!groupRef.current) return;
 
-    const hand = handStateRef.current;
+    const { delta } = clock;
+    const hand = selectHand(handStateRef.current, binding);
+    anchorState.current.visible = hand.detected;
+    anchorState.current.magic = 0;
 
     if (hand.detected) {
        // Hand interaction logic - INSTANT position tracking (no lerp)
-       
-       // Calculate visible area at z=0 plane based on camera frustum
-       const camera = state.camera;
-       const distance = camera.position.z;
-       const vFOV = (camera.fov * Math.PI) / 180;
-       const height = 2 * Math.tan(vFOV / 2) * distance;
-       const width = height * camera.aspect;
-       
-       // Determine magic mode based on pinch strength
-       const magicMode = THREE.MathUtils.smoothstep(hand.pinch, 0.3, 0.8);
-       
+       // Jitter is removed upstream by HandTrackingFilter, so no smoothing here
+
+       // Determine magic mode based on pinch strength (or the locked mode)
+       const magicMode = magicAmount(hand.pinch, modeLock);
+       anchorState.current.magic = magicMode;
+
        // Butterfly uses pinch point, magic circle uses palm center
        // Blend between them based on magic mode
        const targetX = THREE.MathUtils.lerp(hand.x, hand.palmX, magicMode);
        const targetY = THREE.MathUtils.lerp(hand.y, hand.palmY, magicMode);
-       
-       // Map normalized position to world coordinates
-       const worldX = (targetX - 0.5) * width;
-       const worldY = -(targetY - 0.5) * height;
-       
+
+       // Map normalized position onto the camera-facing plane through the origin
+       screenToWorld(state.camera, targetX, targetY, worldPos);
+
        // INSTANT position update - no interpolation for immediate response
-       groupRef.current.position.set(worldX, worldY, 0);
-       
-       // INSTANT rotation update
-       groupRef.current.rotation.set(0, 0, hand.rotation);
-       
+       groupRef.current.position.copy(worldPos);
+
+       // INSTANT rotation update - face the camera, then roll with the hand
+       rollQuat.setFromAxisAngle(Z_AXIS, hand.rotation);
+       groupRef.current.quaternion.copy(state.camera.quaternion).multiply(rollQuat);
+
        // Slightly smoothed scale for visual comfort
        const scaleVal = 0.8 + hand.pinch * 1.5;
        currentScale.current = THREE.MathUtils.lerp(currentScale.current, scaleVal, 0.3);
@@ -58,54 +108,219 @@ const InteractiveButterfly = ({ params, handStateRef }: { params: ButterflyParam
         groupRef.current.position.x = THREE.MathUtils.lerp(groupRef.current.position.x, 0, delta * 3);
         groupRef.current.position.y = THREE.MathUtils.lerp(groupRef.current.position.y, 0, delta * 3);
         groupRef.current.position.z = THREE.MathUtils.lerp(groupRef.current.position.z, 0, delta * 3);
-        
+
         // Reset scale slowly if hand lost
         currentScale.current = THREE.MathUtils.lerp(currentScale.current, 1.0, delta * 2);
         groupRef.current.scale.setScalar(currentScale.current);
-        
+
         // Reset rotation to 0 slowly
-        groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, 0, delta * 2);
-        groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, 0, delta * 2);
-        groupRef.current.rotation.z = THREE.MathUtils.lerp(groupRef.current.rotation.z, 0, delta * 2);
+        groupRef.current.quaternion.slerp(IDENTITY, Math.min(delta * 2, 1));
     }
   });
 
+  // Emitters sit beside the group: they read its world transform at spawn time, and particles
+  // already born stay behind in world space
   return (
-    <group ref={groupRef}>
-      <ButterflyCurve params={params} handStateRef={handStateRef} />
-    </group>
+    <>
+      <group ref={groupRef}>
+        <ButterflyCurve params={params} settings={settings} clock={clock} handStateRef={handStateRef} hand={binding} fingerForces={fingerForces} rings={rings} theme={theme} particleCount={particleCount} pointScale={pointScale} modeLock={modeLock} audio={audio} handEvents={handEvents} />
+      </group>
+      {emitters.map((emitter, i) => emitter.enabled && (
+        <ParticleEmitter
+          key={i}
+          config={emitter}
+          params={params}
+          clock={clock}
+          anchorRef={groupRef}
+          anchorStateRef={anchorState}
+          handStateRef={handStateRef}
+          hand={binding}
+          rateScale={emitterRateScale}
+        />
+      ))}
+    </>
   );
 };
 
-const Scene: React.FC<SceneProps> = ({ params, viewMode, handStateRef }) => {
+// Ticks the scene clock ahead of every other frame callback (negative priority runs first
+// without taking over rendering) and hands the clock and renderer to the recorder
+const SceneClockDriver = ({ clock, captureRef }: {
+  clock: SceneClock;
+  captureRef?: React.MutableRefObject<CaptureTarget | null>;
+}) => {
+  const getState = useThree(state => state.get);
+
+  useEffect(() => {
+    if (!captureRef) return;
+    captureRef.current = { clock, getState };
+    return () => {
+      captureRef.current = null;
+    };
+  }, [clock, getState, captureRef]);
+
+  useFrame((_, delta) => clock.tick(delta), -1);
+  return null;
+};
+
+// Analyzes the audio input once per frame, ahead of the particles that follow it
+const AudioDriver = ({ input, settings, clock, drive }: {
+  input: AudioInput;
+  settings: AudioSettings;
+  clock: SceneClock;
+  drive: AudioDrive;
+}) => {
+  useFrame(() => {
+    input.update(clock.delta, settings);
+    drive.update(input.features, settings, clock.delta);
+  }, -1);
+  return null;
+};
+
+// Feeds frame times to the adaptive quality controller. Offline capture runs on a fixed step,
+// where render time says nothing about the live frame rate.
+const QualityMonitor = ({ controller, clock, targetFps, onLevelChange }: {
+  controller: AdaptiveQuality;
+  clock: SceneClock;
+  targetFps: number;
+  onLevelChange: (level: number) => void;
+}) => {
+  useFrame((_, delta) => {
+    if (clock.fixedStep === null && controller.update(delta, targetFps)) onLevelChange(controller.level);
+  });
+  return null;
+};
+
+const MIN_CAMERA_DISTANCE = 15;
+const MAX_CAMERA_DISTANCE = 150;
+
+// Wraps an angle difference into -PI..PI so twisting across the atan2 seam doesn't jump
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+// Two-handed camera gestures: spreading the hands apart zooms in, twisting them orbits the view
+const TwoHandCameraControls = ({ handStateRef }: { handStateRef: React.MutableRefObject<HandsState> }) => {
+  const gestureStart = useRef<{ spread: number; twist: number; radius: number; theta: number } | null>(null);
+  const spherical = useMemo(() => new THREE.Spherical(), []);
+
+  useFrame(({ camera }) => {
+    const twoHand = handStateRef.current.twoHand;
+    if (!twoHand.detected || twoHand.spread < 0.05) {
+      gestureStart.current = null;
+      return;
+    }
+
+    spherical.setFromVector3(camera.position);
+
+    // Measure relative to the pose when both hands first appeared
+    if (!gestureStart.current) {
+      gestureStart.current = {
+        spread: twoHand.spread,
+        twist: twoHand.twist,
+        radius: spherical.radius,
+        theta: spherical.theta
+      };
+      return;
+    }
+
+    const start = gestureStart.current;
+    spherical.radius = THREE.MathUtils.clamp(
+      start.radius * (start.spread / twoHand.spread),
+      MIN_CAMERA_DISTANCE,
+      MAX_CAMERA_DISTANCE
+    );
+    spherical.theta = start.theta - wrapAngle(twoHand.twist - start.twist);
+
+    camera.position.setFromSpherical(spherical);
+    camera.lookAt(0, 0, 0);
+  });
+
+  return null;
+};
+
+const Scene: React.FC<SceneProps> = ({ params, settings, viewMode, handStateRef, handBindings, fingerForces, rings, quality, projectiles, emitters, postProcessing, theme, audio, audioInput, handEvents, captureRef }) => {
+  const handsDetected = handStateRef.current.left.detected || handStateRef.current.right.detected;
+  // Different hands for orb and magic circle -> one particle system per hand, each locked to its shape
+  const splitHands = handBindings.orb !== handBindings.magicCircle;
+  // OrbitControls and two-hand gestures only take over once CameraRig has flown back to the orbit pose
+  const [freeCameraReady, setFreeCameraReady] = useState(isFreeViewMode(viewMode));
+  const freeCamera = isFreeViewMode(viewMode) && freeCameraReady;
+  const clock = useMemo(() => new SceneClock(), []);
+  const audioDrive = useMemo(() => new AudioDrive(), []);
+
+  const qualityController = useMemo(() => new AdaptiveQuality(), []);
+  const [qualityLevel, setQualityLevel] = useState(0);
+  useEffect(() => {
+    if (!quality.adaptive && qualityController.reset()) setQualityLevel(0);
+  }, [quality.adaptive, qualityController]);
+  const level = QUALITY_LEVELS[qualityLevel];
+  const particleCount = scaledParticleCount(quality, level);
+  // Matches the Canvas default dpr of [1, 2] at full quality
+  const dpr = Math.max(0.5, Math.min(window.devicePixelRatio, 2) * level.dprScale);
+
+  // Antialiasing is fixed when the WebGL context is created, so changing it remounts the canvas
   return (
     <Canvas
-      camera={{ position: [0, 0, 50], fov: 60 }}
+      key={level.antialias ? 'antialias' : 'aliased'}
+      dpr={dpr}
+      camera={{ position: [0, 0, 50], fov: 60, far: 2000 }}
       style={{ width: '100%', height: '100%' }}
-      gl={{ antialias: true, alpha: true }}
+      gl={{ antialias: level.antialias, alpha: true }}
     >
       <Suspense fallback={null}>
         {/* Transparent background - no color attached */}
-        
+
+        <SceneClockDriver clock={clock} captureRef={captureRef} />
+
+        <AudioDriver input={audioInput} settings={audio} clock={clock} drive={audioDrive} />
+
+        {quality.adaptive && (
+          <QualityMonitor controller={qualityController} clock={clock} targetFps={quality.targetFps} onLevelChange={setQualityLevel} />
+        )}
+
         <ambientLight intensity={0.5} />
-        
-        <InteractiveButterfly params={params} handStateRef={handStateRef} />
-        
+
+        {splitHands ? (
+          <>
+            <InteractiveButterfly params={params} settings={settings} clock={clock} handStateRef={handStateRef} hand={handBindings.orb} fingerForces={fingerForces} rings={rings} theme={theme} particleCount={particleCount} pointScale={level.pointScale} emitters={emitters} emitterRateScale={level.particleScale} audio={audioDrive} handEvents={handEvents} modeLock="orb" />
+            <InteractiveButterfly params={params} settings={settings} clock={clock} handStateRef={handStateRef} hand={handBindings.magicCircle} fingerForces={fingerForces} rings={rings} theme={theme} particleCount={particleCount} pointScale={level.pointScale} emitters={emitters} emitterRateScale={level.particleScale} audio={audioDrive} handEvents={handEvents} modeLock="magicCircle" />
+          </>
+        ) : (
+          <InteractiveButterfly params={params} settings={settings} clock={clock} handStateRef={handStateRef} hand={handBindings.orb} fingerForces={fingerForces} rings={rings} theme={theme} particleCount={particleCount} pointScale={level.pointScale} emitters={emitters} emitterRateScale={level.particleScale} audio={audioDrive} handEvents={handEvents} />
+        )}
+
         {/* Random numbers shooting from fingertips */}
-        <NumberProjectiles handStateRef={handStateRef} />
-
-        <OrbitControls 
-          autoRotate={viewMode === ViewMode.AutoRotate && !handStateRef.current?.detected}
-          autoRotateSpeed={2.0}
-          enableDamping={true}
-          dampingFactor={0.05}
-          enableRotate={!handStateRef.current?.detected}
-          enabled={!handStateRef.current?.detected}
+        <NumberProjectiles
+          handStateRef={handStateRef}
+          clock={clock}
+          settings={projectiles}
+          rings={rings}
+          theme={theme}
+          hand={handBindings.magicCircle}
+          modeLock={splitHands ? 'magicCircle' : undefined}
+          handEvents={handEvents}
         />
-        
+
+        {hasPostEffects(postProcessing) && <PostProcessing settings={postProcessing} clock={clock} handStateRef={handStateRef} />}
+
+        <CameraRig viewMode={viewMode} clock={clock} handStateRef={handStateRef} onFreeCameraChange={setFreeCameraReady} />
+
+        {freeCamera && (
+          <>
+            <TwoHandCameraControls handStateRef={handStateRef} />
+
+            <OrbitControls
+              autoRotate={viewMode === ViewMode.AutoRotate && !handsDetected}
+              autoRotateSpeed={2.0}
+              enableDamping={true}
+              dampingFactor={0.05}
+              enableRotate={!handsDetected}
+              enabled={!handsDetected}
+            />
+          </>
+        )}
+
       </Suspense>
     </Canvas>
   );
 };
 
-export default Scene;
\ No newline at end of file
+export default Scene;
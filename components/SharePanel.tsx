@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { Check, Download, Link, Upload } from 'lucide-react';
+import { SceneConfig } from '../types';
+import { SceneConfigError, downloadSceneConfig, encodeSceneHash, parseSceneConfigJson } from '../utils/sceneConfig';
+
+interface SharePanelProps {
+  config: SceneConfig;
+  onImport: (config: SceneConfig) => void;
+  // Problem with a share link the page was opened from, reported by App
+  linkError?: string[] | null;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 hover:bg-white/15 transition-colors';
+
+const toIssues = (err: unknown) =>
+  err instanceof SceneConfigError ? err.issues : [err instanceof Error ? err.message : String(err)];
+
+// Copy a share link, or export / import the full scene as a JSON file
+const SharePanel: React.FC<SharePanelProps> = ({ config, onImport, linkError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [copied, setCopied] = useState(false);
+  const [issues, setIssues] = useState<string[] | null>(null);
+  const shown = issues ?? linkError;
+
+  const copyLink = async () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeSceneHash(config);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setIssues(['Clipboard unavailable, copy the link from the address bar instead']);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(parseSceneConfigJson(await file.text()));
+      setIssues(null);
+    } catch (err) {
+      setIssues(toIssues(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-1">
+        <button onClick={copyLink} className={buttonClass} title="Copy a link that reopens this scene">
+          {copied ? <Check className="w-3.5 h-3.5" /> : <Link className="w-3.5 h-3.5" />}
+          {copied ? 'Copied' : 'Link'}
+        </button>
+        <button onClick={() => downloadSceneConfig(config)} className={buttonClass} title="Export scene as JSON">
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Import scene from JSON">
+          <Upload className="w-3.5 h-3.5" />
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {shown && shown.length > 0 && (
+        <ul className="px-2 py-1.5 bg-red-900/60 rounded-md flex flex-col gap-0.5 text-red-100/90">
+          {shown.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { OrbGradient, Theme } from '../types';
+import { BUILT_IN_THEMES, MAX_ORB_COLORS, MAX_PROJECTILE_COLORS, deleteTheme, loadThemes, saveTheme } from '../utils/themes';
+import { MAX_RING_LAYERS } from '../utils/rings';
+import PaletteEditor from './PaletteEditor';
+
+interface ThemeEditorProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}
+
+type AccentKey = 'innerCircle' | 'trailHead' | 'trailTail' | 'flash' | 'blastFlash';
+
+const ACCENTS: { key: AccentKey; label: string }[] = [
+  { key: 'innerCircle', label: 'Inner circle' },
+  { key: 'trailHead', label: 'Orb trail head' },
+  { key: 'trailTail', label: 'Orb trail tail' },
+  { key: 'flash', label: 'Morph flash' },
+  { key: 'blastFlash', label: 'Blast tint' }
+];
+
+const GRADIENTS: { value: OrbGradient; label: string }[] = [
+  { value: 'progress', label: 'Along the curve' },
+  { value: 'flowing', label: 'Flowing' }
+];
+
+// Pick a built-in or saved theme, edit every palette of the current one, save it under a name
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange }) => {
+  const [userThemes, setUserThemes] = useState<Theme[]>(loadThemes);
+  const [themeName, setThemeName] = useState('');
+
+  const handleSave = () => {
+    const name = themeName.trim();
+    if (!name) return;
+    const saved = { ...theme, name };
+    setUserThemes(saveTheme(saved));
+    onChange(saved);
+    setThemeName('');
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-1">
+        {BUILT_IN_THEMES.map(builtIn => (
+          <button
+            key={builtIn.name}
+            onClick={() => onChange(builtIn)}
+            className={`px-2 py-0.5 rounded-md transition-colors ${
+              theme.name === builtIn.name ? 'bg-violet-500/40 text-white' : 'bg-white/5 hover:bg-white/15'
+            }`}
+          >
+            {builtIn.name}
+          </button>
+        ))}
+      </div>
+      {userThemes.map(saved => (
+        <div key={saved.name} className="flex items-center justify-between">
+          <button onClick={() => onChange(saved)} className="hover:text-white truncate">{saved.name}</button>
+          <button
+            onClick={() => setUserThemes(deleteTheme(saved.name))}
+            className="text-white/40 hover:text-red-400"
+            title="Delete theme"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+
+      <PaletteEditor label="Orb" colors={theme.orbColors} max={MAX_ORB_COLORS} onChange={orbColors => onChange({ ...theme, orbColors })} />
+      {theme.orbColors.length > 1 && (
+        <label className="flex items-center justify-between gap-2">
+          <span>Orb gradient</span>
+          <select
+            value={theme.orbGradient}
+            onChange={e => onChange({ ...theme, orbGradient: e.target.value as OrbGradient })}
+            className="flex-1 min-w-0 px-1 py-0.5 rounded-md bg-white/5 text-white/70 outline-none focus:bg-white/10"
+          >
+            {GRADIENTS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <PaletteEditor label="Circle layers" colors={theme.ringColors} max={MAX_RING_LAYERS} onChange={ringColors => onChange({ ...theme, ringColors })} />
+      <PaletteEditor label="Projectiles" colors={theme.projectileColors} max={MAX_PROJECTILE_COLORS} onChange={projectileColors => onChange({ ...theme, projectileColors })} />
+      {ACCENTS.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between">
+          <span>{label}</span>
+          <input
+            type="color"
+            value={theme[key]}
+            onChange={e => onChange({ ...theme, [key]: e.target.value })}
+            className="w-5 h-5 bg-transparent border-0 cursor-pointer"
+          />
+        </label>
+      ))}
+
+      <div className="flex gap-1">
+        <input
+          value={themeName}
+          onChange={e => setThemeName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          maxLength={40}
+          placeholder="Theme name"
+          className="flex-1 min-w-0 px-2 py-1 rounded-md bg-white/5 text-white placeholder-white/30 outline-none focus:bg-white/10"
+        />
+        <button onClick={handleSave} className="p-1.5 rounded-md hover:bg-white/10" title="Save theme">
+          <Save className="w-4 h-4" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default ThemeEditor;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { ViewMode } from '../types';
+import { VIEW_MODE_OPTIONS } from '../utils/cameraModes';
+
+interface ViewModeSelectorProps {
+  viewMode: ViewMode;
+  onChange: (viewMode: ViewMode) => void;
+}
+
+// Camera mode buttons, labelled with their keyboard shortcuts
+const ViewModeSelector: React.FC<ViewModeSelectorProps> = ({ viewMode, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <div className="flex flex-wrap gap-1">
+      {VIEW_MODE_OPTIONS.map(option => (
+        <button
+          key={option.mode}
+          onClick={() => onChange(option.mode)}
+          className={`px-2 py-0.5 rounded-md transition-colors ${
+            viewMode === option.mode ? 'bg-violet-500/40 text-white' : 'bg-white/5 hover:bg-white/15'
+          }`}
+          title={`Shortcut: ${option.key}`}
+        >
+          <span className="text-white/40">{option.key}</span> {option.label}
+        </button>
+      ))}
+    </div>
+    <span className="text-white/40">Press V to cycle modes</span>
+  </div>
+);
+
+export default ViewModeSelector;
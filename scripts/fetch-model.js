@@ -0,0 +1,30 @@
+// Downloads the MediaPipe hand model into public/models, where the app serves it from. The model
+// isn't on npm, so this runs before `npm run dev` and `npm run build`. It skips the download once
+// the file is there. Without the model a dev server still starts (the app names the missing file
+// and falls back to the pointer), but with --require, as before a build, it fails: a build
+// without the model would ship without hand tracking.
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+const target = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/models/hand_landmarker.task');
+const required = process.argv.includes('--require');
+
+if (fs.existsSync(target)) process.exit(0);
+
+try {
+  console.log(`Downloading the hand model to ${path.relative(process.cwd(), target)}...`);
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const bytes = Buffer.from(await response.arrayBuffer());
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  // Written under a temporary name first, so an interrupted download doesn't count as done
+  fs.writeFileSync(`${target}.part`, bytes);
+  fs.renameSync(`${target}.part`, target);
+} catch (err) {
+  const log = required ? console.error : console.warn;
+  log(`Could not download the hand model (${err instanceof Error ? err.message : err}).`);
+  log(`Hand tracking needs it; download ${MODEL_URL} to ${target} by hand.`);
+  if (required) process.exitCode = 1;
+}
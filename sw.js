@@ -0,0 +1,39 @@
+// Service worker template: the build fills in BUILD_ID and PRECACHE (see vite.config.ts), so
+// every build installs a fresh cache holding exactly its own files. Once installed, the app,
+// fonts, hand tracking runtime and model load from the cache, with or without a network.
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE = __PRECACHE__;
+const CACHE = `butterfly-${BUILD_ID}`;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(['./', ...PRECACHE]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first. Page loads ignore the query string (?playback=...), so they all get the cached
+// index.html; anything not precached is cached the first time it loads.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  event.respondWith(
+    caches.match(request, { ignoreSearch: request.mode === 'navigate' }).then(cached => cached ?? fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
@@ -4,12 +4,54 @@ export interface ButterflyParams {
   b: number;    // Multiplier for cos term
   c: number;    // Power of sin term
   scale: number; // Overall scale
-  color: string;
+  morph: number; // 0 = geometric orb, 1 = Fay butterfly curve
+}
+
+// Shader and animation tuning that doesn't affect particle geometry
+export interface RenderSettings {
+  particleSize: number;        // Base point size (uSize)
+  blastStrength: number;       // Scatter distance multiplier for the fist blast
+  blastGravity: number;        // Downward pull on blasted particles
+  blastDrag: number;           // Air drag on blasted particles, per second
+  blastBounce: number;         // Fraction of speed kept when a particle hits the ground
+  groundHeight: number;        // World-space height of the floor blasted particles land on
+  handForce: number;           // Push from a closed fist (and pull once it opens) mid-blast
+  morphSpeed: number;          // Per-frame easing toward the orb/butterfly morph target
+  magicSpeed: number;          // Per-frame easing between orb and magic circle
+  blastRampSpeed: number;      // Per-frame easing while a blast builds
+  blastRecoverySpeed: number;  // Per-frame easing back after a blast
+}
+
+export interface Preset {
+  name: string;
+  params: ButterflyParams;
+  settings: RenderSettings;
+  theme?: Theme;  // Applied with the preset when set
+}
+
+// How the orb colors spread over the particles: fixed along the curve, or flowing along it
+export type OrbGradient = 'progress' | 'flowing';
+
+// Every particle color in one place. Hex values go to the shaders as-is.
+export interface Theme {
+  name: string;
+  orbColors: string[];         // Gradient stops over curve progress; one color is a solid orb
+  orbGradient: OrbGradient;
+  ringColors: string[];        // Magic circle layers, innermost first, repeating when shorter
+  innerCircle: string;         // Inner circle of the core layer
+  trailHead: string;           // Orbiting orb trails, from the head...
+  trailTail: string;           // ...to the tail
+  flash: string;               // Added while morphing between orb and magic circle
+  blastFlash: string;          // Tint of blasted particles
+  projectileColors: string[];  // By finger (thumb first), repeating when shorter than five
 }
 
 export enum ViewMode {
   Orbit = 'ORBIT',
-  AutoRotate = 'AUTO_ROTATE'
+  AutoRotate = 'AUTO_ROTATE',
+  Cinematic = 'CINEMATIC',       // Scripted fly-through path around the orb
+  TopDown = 'TOP_DOWN',          // Near-orthographic view from above
+  HandSteered = 'HAND_STEERED'   // Palm position pans the view
 }
 
 export interface FingerTip {
@@ -28,5 +70,294 @@ export interface HandState {
   pinch: number;  // 0 to 1, mapped to scale
   rotation: number; // Radian rotation of the hand (roll)
   fingerTips: FingerTip[]; // 5 fingertips: thumb, index, middle, ring, pinky
-  blast: number;  // 0 to 1, blast/scatter effect (open palm or fist)
-}
\ No newline at end of file
+  blast: number;  // 0 to 1, blast/scatter effect from the gestures bound to 'blast'
+  pose: HandPose; // Static hand shape this frame
+}
+
+// Which of the user's hands (as seen by the user, not the camera)
+export type Handedness = 'left' | 'right';
+
+// Hand a scene element follows; 'any' prefers the right hand when both are visible
+export type HandBinding = Handedness | 'any';
+
+export interface TwoHandState {
+  detected: boolean; // Both hands visible
+  spread: number;    // Distance between palm centers (0 to ~1.4 normalized)
+  twist: number;     // Angle of the left->right palm line (radians)
+}
+
+export interface HandsState {
+  left: HandState;
+  right: HandState;
+  twoHand: TwoHandState;
+}
+
+// Which of its two shapes a hand shows: pinched shut the orb, opened up the magic circle
+export type HandMode = 'orb' | 'magicCircle';
+
+// Pins a particle system to one of its two shapes instead of morphing with pinch
+export type ModeLock = HandMode;
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+interface HandEventBase {
+  hand: Handedness;
+  time: number;  // performance.now() of the frame that produced the event
+}
+
+// Discrete hand events, debounced with hysteresis (utils/handEvents.ts)
+export interface HandEventMap {
+  handEnter: HandEventBase;
+  handLeave: HandEventBase;
+  pinchStart: HandEventBase;
+  pinchEnd: HandEventBase;
+  modeChange: HandEventBase & { mode: HandMode };
+  blastStart: HandEventBase;
+  blastEnd: HandEventBase;
+  swipe: HandEventBase & { direction: SwipeDirection };
+  gesture: HandEventBase & { gesture: GestureName };  // Any catalogue gesture as it starts
+}
+
+export type HandEventType = keyof HandEventMap;
+
+export interface HandBindings {
+  orb: HandBinding;         // Butterfly orb (and fingertip projectiles when sharing a hand)
+  magicCircle: HandBinding; // Magic circle and fingertip projectiles
+}
+
+// One magic circle layer. `glsl` is the body of a function that places a particle on the ring:
+//   in:  segmentProgress (0 to 1 along this layer), progress (the particle's overall 0 to 1 id,
+//        a stable hash seed), t (scene time × rotationSpeed); uMagic, uRotation and hash() are in scope
+//   out: r, theta (polar position in the circle plane), z, sizeMult, and optionally
+//        innerCircle (1.0 = pale inner-circle tint) and orbTrail (1.0 = trail head, 0.0 = tail)
+// Particles with r < 0.1 are hidden, which lets a layer leave gaps.
+export interface RingModule {
+  id: string;             // GLSL identifier-safe key, stored in scene configs
+  name: string;           // Label in the control panel
+  budget: number;         // Share of the particles relative to the other layers
+  rotationSpeed: number;  // Time multiplier for the layer's animation
+  style?: 'flicker' | 'trail'; // Sparkle the alpha, or fade along orbTrail from head to tail
+  content?: ProjectileContent; // What fingers set to 'ring' shoot while this layer dominates
+  glsl: string;
+}
+
+// A magic circle layer as configured by the user, innermost first
+export interface RingLayer {
+  module: string;  // RingModule id; its color comes from the theme's ringColors
+}
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+// Fingertip force fields on the particles: the orb is pushed away from each fingertip, the
+// magic circle is pulled toward it. Radius is in world units; strength is the peak displacement.
+export interface FingerForces {
+  enabled: boolean;
+  thumbRadius: number;
+  thumbStrength: number;
+  indexRadius: number;
+  indexStrength: number;
+  middleRadius: number;
+  middleStrength: number;
+  ringRadius: number;
+  ringStrength: number;
+  pinkyRadius: number;
+  pinkyStrength: number;
+}
+
+// Particle budget and the adaptive quality controller that trades it for frame rate
+export interface QualitySettings {
+  particleCount: number;  // Butterfly / magic circle particles at full quality
+  adaptive: boolean;      // Scale particles, point size, resolution and antialiasing to hold targetFps
+  targetFps: number;
+}
+
+// What a finger shoots: random digits, digit / number sequences, symbol sets, the user's
+// text one character at a time, or whatever suits the dominant magic circle layer
+export type ProjectileContent =
+  | 'digits' | 'pi' | 'e' | 'fibonacci' | 'greek' | 'symbols' | 'equations' | 'runes' | 'text' | 'ring';
+
+// Glyphs shot from the fingertips in magic circle mode
+export interface ProjectileSettings {
+  enabled: boolean;
+  spawnRate: number;  // Glyphs per finger per second
+  lifetime: number;   // Seconds
+  speed: number;      // World units per second; each glyph varies by ±25%
+  thumbContent: ProjectileContent;
+  indexContent: ProjectileContent;
+  middleContent: ProjectileContent;
+  ringContent: ProjectileContent;
+  pinkyContent: ProjectileContent;
+  text: string;       // Streamed by fingers set to 'text'
+}
+
+// What a particle emitter follows: the butterfly / orb shape, the magic circle, or the tips of
+// the hand driving them. Orb and circle emitters fade with the pinch that switches between them.
+export type EmitterAnchor = 'orb' | 'magicCircle' | 'fingertips';
+
+// Where on the anchor particles are born, in the anchor's local frame
+export type EmitterShape = 'curve' | 'sphere' | 'ring' | 'point';
+
+export interface EmitterConfig {
+  name: string;
+  enabled: boolean;
+  anchor: EmitterAnchor;
+  shape: EmitterShape;
+  spread: number;      // Sphere / ring radius, or jitter around a point, in local units
+  rate: number;        // Particles per second at full strength
+  lifetime: number;    // Seconds
+  gravity: number;     // Downward acceleration, world units/s²
+  drift: number;       // Sideways wander speed
+  size: number;        // Point size
+  startColor: string;  // Color over life, from birth...
+  endColor: string;    // ...to death
+}
+
+// Screen-space effects on the scene canvas; the background stays transparent over the webcam
+export interface PostProcessingSettings {
+  bloom: boolean;
+  bloomStrength: number;
+  bloomRadius: number;       // 0 to 1, how far the glow spreads
+  bloomThreshold: number;    // Brightness where glow starts, 0 to 1
+  bloomButterfly: boolean;   // Which particle layers glow
+  bloomEmitters: boolean;
+  bloomProjectiles: boolean;
+  trails: boolean;
+  trailLength: number;       // Afterimage persistence per frame at full hand speed, 0 to 1
+  trailSpeed: number;        // Hand speed (screen widths/s) that gives the full trail
+  chromatic: boolean;
+  chromaticStrength: number; // Color fringe offset at full blast, in screen fractions
+  vignette: boolean;
+  vignetteStrength: number;  // Edge darkening at full blast, 0 to 1
+}
+
+// What an audio mapping follows: overall loudness, one frequency band, or the beat envelope
+export type AudioFeature = 'off' | 'level' | 'bass' | 'mid' | 'treble' | 'beat';
+
+// Analysis tuning and the mappings from audio features onto the particle uniforms. The input
+// itself (microphone or file) is picked at runtime and isn't part of a scene.
+export interface AudioSettings {
+  gain: number;              // Input boost before analysis
+  smoothing: number;         // 0 to 1, how slowly band energies fall back after a peak
+  beatSensitivity: number;   // Onset threshold above the recent bass flux, in standard deviations
+  pulseFeature: AudioFeature;
+  pulseAmount: number;       // Extra scale of the orb / circle at full energy
+  ringSpeedFeature: AudioFeature;
+  ringSpeedAmount: number;   // Extra magic circle rotation speed at full energy (1 = double)
+  wobbleFeature: AudioFeature;
+  wobbleAmount: number;      // Orb surface wobble at full energy
+  blastOnBeat: boolean;
+  blastThreshold: number;    // Beat strength (0 to 1) that fires a blast
+}
+
+// One analysis frame; energies are 0 to 1 relative to their recent peak
+export interface AudioFeatures {
+  time: number;          // Seconds of audio analyzed so far
+  level: number;
+  bass: number;          // 20-250 Hz
+  mid: number;           // 250-2000 Hz
+  treble: number;        // 2-8 kHz
+  beat: number;          // Jumps to the onset strength on a beat, then decays
+  onset: boolean;        // A beat started in this frame
+  onsetStrength: number; // Bass energy at the last onset
+}
+
+export interface Landmark {
+  x: number; // 0 to 1 normalized (camera image space, unmirrored)
+  y: number; // 0 to 1 normalized
+  z: number; // Depth relative to the wrist
+}
+
+export interface HandDetection {
+  landmarks: Landmark[];  // 21 landmarks
+  handedness: Handedness;
+}
+
+// Hand pose driven by mouse / touch when no camera is available (screen space, like HandState)
+export interface PointerHandPose {
+  x: number;         // 0 to 1, where the pinch point / palm should appear
+  y: number;
+  pinch: number;     // 0 = touching, 1 = open
+  rotation: number;  // Roll in radians
+  fist: boolean;
+}
+
+export interface LandmarkFrame {
+  t: number;                  // Milliseconds since the recording started
+  hands: Landmark[][];        // One 21-landmark array per detected hand
+  handedness?: Handedness[];  // Parallel to hands; absent in single-hand recordings
+}
+
+export interface LandmarkRecording {
+  version: 1;
+  frames: LandmarkFrame[];
+}
+
+// Webcam capture. Machine specific (device ids don't travel), so it is kept in localStorage
+// rather than in the shareable scene config.
+export interface CameraSettings {
+  deviceId: string;   // '' = the browser's default camera
+  width: number;      // Requested resolution; the default is a preference, any other is required
+  height: number;
+  frameRate: number;
+  mirror: boolean;    // Selfie view: flips both the video and HandState x
+}
+
+// One Euro filter and prediction settings for the landmark smoothing stage
+export interface HandFilterConfig {
+  enabled: boolean;
+  minCutoff: number;     // Hz - lower is smoother when the hand is still
+  beta: number;          // Speed coefficient - higher reduces lag during fast moves
+  dCutoff: number;       // Hz - cutoff for the velocity estimate
+  predictionMs: number;  // Max extrapolation past the last detection
+  lostGraceMs: number;   // How long a hand may vanish before detected goes false
+}
+
+export type FingerState = 'extended' | 'curled' | 'neutral';
+
+// Static hand shapes recognized in a single frame
+export type HandPose = 'none' | 'fist' | 'openPalm' | 'point' | 'peace' | 'thumbsUp';
+
+// Everything a binding can react to: the poses, an open palm held still, and quick swipes
+export type GestureName =
+  | Exclude<HandPose, 'none'> | 'openPalmHold' | 'swipeLeft' | 'swipeRight' | 'swipeUp' | 'swipeDown';
+
+// 'blast' lasts as long as its gesture; the others fire once when the gesture starts
+export type GestureAction =
+  | 'none' | 'blast' | 'nextTheme' | 'previousTheme' | 'cycleRingLayers' | 'nextViewMode' | 'toggleRecording';
+
+export type GestureBindings = Record<GestureName, GestureAction>;
+
+// Richer per-hand analysis, in unmirrored camera coordinates
+export interface HandGesture {
+  pinchPoint: { x: number; y: number };  // Midpoint between thumb and index tips
+  palmCenter: { x: number; y: number };  // Average of wrist and finger bases
+  pinchDistance: number;   // Raw thumb-index distance
+  pinch: number;           // 0 to 1 normalized pinch strength
+  rotation: number;        // Roll in radians, 0 = fingers up
+  fingerTips: FingerTip[]; // thumb, index, middle, ring, pinky
+  fingers: FingerState[];  // Curl state per finger, same order as fingerTips
+  fingersExtended: number; // Count excluding thumb
+  fingersCurled: number;   // Count excluding thumb
+  isFist: boolean;
+  isOpenPalm: boolean;
+  pose: HandPose;
+}
+
+// Everything needed to reproduce a scene, serialized to JSON files and share links
+export interface SceneConfig {
+  version: 2;
+  params: ButterflyParams;
+  settings: RenderSettings;
+  viewMode: ViewMode;
+  handBindings: HandBindings;
+  handFilter: HandFilterConfig;
+  fingerForces: FingerForces;
+  rings: RingLayer[];
+  quality: QualitySettings;
+  projectiles: ProjectileSettings;
+  emitters: EmitterConfig[];
+  postProcessing: PostProcessingSettings;
+  theme: Theme;
+  audio: AudioSettings;
+  gestures: GestureBindings;
+}
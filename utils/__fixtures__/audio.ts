@@ -0,0 +1,28 @@
+// Synthetic PCM for the audio analysis tests
+
+export const SAMPLE_RATE = 44100;
+
+export const sine = (hz: number, seconds: number, amplitude = 0.5, sampleRate = SAMPLE_RATE) =>
+  Float32Array.from({ length: Math.round(seconds * sampleRate) }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / sampleRate));
+
+export const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out;
+};
+
+// Kick-drum-like clicks: a 60 Hz burst decaying over ~40 ms on every beat. Returns the samples
+// and the sample index of each click.
+export const clickTrack = (bpm: number, seconds: number, sampleRate = SAMPLE_RATE) => {
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const interval = Math.round((60 / bpm) * sampleRate);
+  const clicks: number[] = [];
+  for (let start = 0; start < samples.length; start += interval) {
+    clicks.push(start);
+    for (let i = 0; i < sampleRate * 0.2 && start + i < samples.length; i++) {
+      const t = i / sampleRate;
+      samples[start + i] += 0.8 * Math.exp(-t / 0.04) * Math.sin(2 * Math.PI * 60 * t);
+    }
+  }
+  return { samples, clicks };
+};
@@ -0,0 +1,64 @@
+import { Landmark } from '../../types';
+
+// Synthetic MediaPipe hands for tests: 21 landmarks laid out as straight finger rays from the
+// wrist, so each fixture's shape is obvious from how it is built.
+
+type Finger = 'extended' | 'curled';
+
+export interface HandShape {
+  fingers: [Finger, Finger, Finger, Finger, Finger];  // thumb, index, middle, ring, pinky
+  thumbAngle?: number;   // Degrees from "up", overriding the default splay
+  thumbTip?: Landmark;   // Absolute thumb tip, e.g. touching the index tip for a pinch
+  rotation?: number;     // Radians, rolls the whole hand around the wrist
+  wrist?: { x: number; y: number };
+}
+
+const SPLAY = [-60, -20, -5, 10, 25];  // Degrees from "up" for each finger
+
+// Distances from the wrist of each joint along the finger ray
+const THUMB_JOINTS = { extended: [0.05, 0.09, 0.15, 0.2], curled: [0.05, 0.09, 0.1, 0.08] };
+const FINGER_JOINTS = { extended: [0.15, 0.21, 0.25, 0.29], curled: [0.15, 0.16, 0.13, 0.1] };
+
+export const buildHand = ({ fingers, thumbAngle, thumbTip, rotation = 0, wrist = { x: 0.5, y: 0.8 } }: HandShape): Landmark[] => {
+  const point = (angleDeg: number, distance: number): Landmark => {
+    const angle = (angleDeg * Math.PI) / 180 + rotation;
+    return { x: wrist.x + Math.sin(angle) * distance, y: wrist.y - Math.cos(angle) * distance, z: 0 };
+  };
+
+  const landmarks: Landmark[] = [{ x: wrist.x, y: wrist.y, z: 0 }];
+  fingers.forEach((state, finger) => {
+    const joints = finger === 0 ? THUMB_JOINTS[state] : FINGER_JOINTS[state];
+    const angle = finger === 0 && thumbAngle !== undefined ? thumbAngle : SPLAY[finger];
+    joints.forEach(distance => landmarks.push(point(angle, distance)));
+  });
+  if (thumbTip) landmarks[4] = thumbTip;
+  return landmarks;
+};
+
+// Thumb tip a hair away from the index tip
+const touchingIndex = (landmarks: Landmark[]): Landmark => ({ x: landmarks[8].x + 0.005, y: landmarks[8].y, z: 0 });
+
+export const OPEN_PALM = buildHand({ fingers: ['extended', 'extended', 'extended', 'extended', 'extended'] });
+
+const pinchBase = buildHand({ fingers: ['extended', 'extended', 'extended', 'extended', 'extended'] });
+export const PINCH = buildHand({ fingers: ['extended', 'extended', 'extended', 'extended', 'extended'], thumbTip: touchingIndex(pinchBase) });
+
+const fistBase = buildHand({ fingers: ['curled', 'curled', 'curled', 'curled', 'curled'] });
+export const FIST = buildHand({ fingers: ['curled', 'curled', 'curled', 'curled', 'curled'], thumbTip: touchingIndex(fistBase) });
+
+export const POINT = buildHand({ fingers: ['curled', 'extended', 'curled', 'curled', 'curled'] });
+export const PEACE = buildHand({ fingers: ['curled', 'extended', 'extended', 'curled', 'curled'] });
+export const THUMBS_UP = buildHand({ fingers: ['extended', 'curled', 'curled', 'curled', 'curled'], thumbAngle: -10 });
+
+// The open palm rolled a quarter turn clockwise
+export const ROTATED_PALM = buildHand({ fingers: ['extended', 'extended', 'extended', 'extended', 'extended'], rotation: Math.PI / 2 });
+
+// Partial occlusion: MediaPipe either drops points or reports garbage for them
+export const TRUNCATED = OPEN_PALM.slice(0, 15);
+export const NON_FINITE = OPEN_PALM.map((lm, i) => (i === 12 ? { ...lm, x: NaN } : lm));
+// Partly out of frame, but every point present
+export const AT_EDGE = buildHand({ fingers: ['extended', 'extended', 'extended', 'extended', 'extended'], wrist: { x: 0.02, y: 0.8 } });
+
+// The same hand shifted across the frame, e.g. for swipes
+export const moveHand = (landmarks: Landmark[], dx: number, dy = 0): Landmark[] =>
+  landmarks.map(lm => ({ ...lm, x: lm.x + dx, y: lm.y + dy }));
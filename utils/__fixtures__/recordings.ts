@@ -0,0 +1,38 @@
+import { Landmark, LandmarkRecording } from '../../types';
+import { OPEN_PALM } from './hands';
+
+// Deterministic stand-in for Math.random (mulberry32), so noisy fixtures are the same every run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export interface SweepOptions {
+  durationMs?: number;
+  frameMs?: number;     // Detector rate
+  velocity?: number;    // Horizontal hand speed, normalized units per second
+  noise?: number;       // Peak landmark jitter, normalized units
+  seed?: number;
+}
+
+// Where the sweeping hand's landmarks truly are at a given time
+export const sweepPosition = (timeMs: number, velocity: number): Landmark[] =>
+  OPEN_PALM.map(lm => ({ x: lm.x - 0.3 + (velocity * timeMs) / 1000, y: lm.y, z: lm.z }));
+
+// An open right hand sliding across the frame at constant speed, detected at frameMs with
+// uniform per-landmark noise, like a webcam recording of a slow wave
+export const noisySweep = ({ durationMs = 2000, frameMs = 1000 / 30, velocity = 0.2, noise = 0.004, seed = 1 }: SweepOptions = {}): LandmarkRecording => {
+  const random = seededRandom(seed);
+  const frames = [];
+  for (let t = 0; t <= durationMs; t += frameMs) {
+    const hand = sweepPosition(t, velocity).map(lm => ({
+      x: lm.x + (random() * 2 - 1) * noise,
+      y: lm.y + (random() * 2 - 1) * noise,
+      z: lm.z
+    }));
+    frames.push({ t, hands: [hand], handedness: ['right' as const] });
+  }
+  return { version: 1, frames };
+};
@@ -0,0 +1,99 @@
+import { QualitySettings } from '../types';
+
+export const DEFAULT_QUALITY: QualitySettings = {
+  particleCount: 40000,
+  adaptive: true,
+  targetFps: 60
+};
+
+export interface QualityLevel {
+  particleScale: number;  // Fraction of QualitySettings.particleCount
+  pointScale: number;     // Point size multiplier; bigger points keep thinned shapes from looking sparse
+  dprScale: number;       // Fraction of the device pixel ratio
+  antialias: boolean;
+}
+
+// Best first. Resolution goes before antialiasing (a context restart) and particles go last.
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { particleScale: 1, pointScale: 1, dprScale: 1, antialias: true },
+  { particleScale: 1, pointScale: 1, dprScale: 0.75, antialias: true },
+  { particleScale: 0.7, pointScale: 1.15, dprScale: 0.75, antialias: false },
+  { particleScale: 0.45, pointScale: 1.35, dprScale: 0.6, antialias: false },
+  { particleScale: 0.25, pointScale: 1.6, dprScale: 0.5, antialias: false }
+];
+
+const FRAME_SMOOTHING = 0.05;     // Weight of the newest frame in the average frame time
+const OVER_BUDGET = 1.1;          // Average frame time, as a fraction of the budget, that counts as slow
+const DOWNGRADE_AFTER = 1;        // Seconds of slow frames before stepping down
+const UPGRADE_AFTER = 5;          // Seconds on budget before trying the next level up
+const PROBE_WINDOW = 5;           // A level that gets slow this soon after stepping up to it was too much
+const MAX_UPGRADE_DELAY = 60;
+const SETTLE_TIME = 1.5;          // Frames right after a change (geometry rebuild, shader compile) are ignored
+const MAX_FRAME_DELTA = 0.5;      // Longer gaps are a backgrounded tab, not a slow frame
+
+// Particles for the butterfly at a quality level; the floor keeps every orb structure and ring layer populated
+export const scaledParticleCount = (quality: QualitySettings, level: QualityLevel) =>
+  Math.max(1000, Math.round(quality.particleCount * level.particleScale));
+
+// Watches frame times and steps through QUALITY_LEVELS to hold the target frame rate.
+// With vsync, frames never come in under budget, so there is no headroom to measure: after a
+// while on budget it simply tries the next level up, and waits twice as long before trying
+// again if that level turns out too slow.
+export class AdaptiveQuality {
+  level = 0;
+  private frameTime: number | null = null;
+  private slowTime = 0;
+  private steadyTime = 0;
+  private settle = SETTLE_TIME;
+  private upgradeDelay = UPGRADE_AFTER;
+  private probeTime: number | null = null;  // Seconds since stepping up, while that step is on trial
+
+  // Feeds one frame's duration in seconds; returns true when the level changed
+  update(delta: number, targetFps: number) {
+    if (delta <= 0 || delta > MAX_FRAME_DELTA) return false;
+    if (this.settle > 0) {
+      this.settle -= delta;
+      return false;
+    }
+
+    if (this.probeTime !== null) {
+      this.probeTime += delta;
+      if (this.probeTime > PROBE_WINDOW) this.probeTime = null;
+    }
+
+    this.frameTime = this.frameTime === null ? delta : this.frameTime + (delta - this.frameTime) * FRAME_SMOOTHING;
+    if (this.frameTime > OVER_BUDGET / targetFps) {
+      this.slowTime += delta;
+      this.steadyTime = 0;
+    } else {
+      this.steadyTime += delta;
+      this.slowTime = 0;
+    }
+
+    if (this.slowTime > DOWNGRADE_AFTER && this.level < QUALITY_LEVELS.length - 1) {
+      if (this.probeTime !== null) this.upgradeDelay = Math.min(this.upgradeDelay * 2, MAX_UPGRADE_DELAY);
+      return this.setLevel(this.level + 1, null);
+    }
+    if (this.steadyTime > this.upgradeDelay && this.level > 0) {
+      return this.setLevel(this.level - 1, 0);
+    }
+    return false;
+  }
+
+  // Back to full quality, e.g. when adaptive quality is switched off
+  reset() {
+    this.upgradeDelay = UPGRADE_AFTER;
+    return this.setLevel(0, null);
+  }
+
+  private setLevel(level: number, probeTime: number | null) {
+    const changed = level !== this.level;
+    this.level = level;
+    this.probeTime = probeTime;
+    this.frameTime = null;
+    this.slowTime = 0;
+    this.steadyTime = 0;
+    this.settle = SETTLE_TIME;
+    return changed;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { FFT_SIZE, analyzePcm, toMono } from './audioAnalysis';
+import { SAMPLE_RATE, clickTrack, concat, sine } from './__fixtures__/audio';
+
+const HOP = 512;
+
+// Sample index just past the analysis window of frame i
+const windowEnd = (frame: number) => FFT_SIZE + frame * HOP;
+
+// Frame index closest to a time in seconds, for frames whose window ends there
+const frameAt = (seconds: number) => Math.round((seconds * SAMPLE_RATE - FFT_SIZE) / HOP);
+
+describe('analyzePcm beat onsets', () => {
+  it('finds one onset per click of a click track, as each click enters the window', () => {
+    const { samples, clicks } = clickTrack(120, 8);
+    const onsets = analyzePcm(samples, SAMPLE_RATE)
+      .map((frame, i) => (frame.onset ? windowEnd(i) : -1))
+      .filter(end => end >= 0);
+
+    // The click at sample 0 falls in the warm-up before the onset threshold is measured
+    expect(onsets).toHaveLength(clicks.length - 1);
+    onsets.forEach((end, i) => {
+      const click = clicks[i + 1];
+      expect(end).toBeGreaterThan(click);
+      expect(end - click).toBeLessThanOrEqual(FFT_SIZE / 2);
+    });
+  });
+
+  it('finds no onsets in silence or a steady tone', () => {
+    expect(analyzePcm(new Float32Array(SAMPLE_RATE * 2), SAMPLE_RATE).some(frame => frame.onset)).toBe(false);
+    // Nothing after the tone's first window has filled
+    const tone = analyzePcm(sine(100, 3), SAMPLE_RATE);
+    expect(tone.slice(1).some(frame => frame.onset)).toBe(false);
+  });
+
+  it('lets the beat envelope jump on an onset and decay before the next click', () => {
+    const { samples, clicks } = clickTrack(60, 4);
+    const frames = analyzePcm(samples, SAMPLE_RATE);
+    const onset = frames.findIndex(frame => frame.onset);
+    expect(windowEnd(onset)).toBeGreaterThan(clicks[1]);
+    expect(frames[onset].onsetStrength).toBeGreaterThan(0);
+    expect(frames[onset].beat).toBe(frames[onset].onsetStrength);
+    expect(frames[onset + 1].beat).toBeLessThan(frames[onset].beat);
+    const before = frames[frameAt(clicks[2] / SAMPLE_RATE) - 1];
+    expect(before.beat).toBeLessThan(frames[onset].beat * 0.01);
+  });
+});
+
+describe('analyzePcm band levels', () => {
+  // One second each of a bass, mid and treble tone. Energies are normalized against each band's
+  // own recent peak, so the band the current tone falls in reads ~1 and the others fall near 0.
+  const frames = analyzePcm(concat(sine(100, 1), sine(1000, 1), sine(4000, 1)), SAMPLE_RATE);
+  const late = (second: number) => frames[frameAt(second + 0.9)];
+
+  it.each([
+    ['bass', 0],
+    ['mid', 1],
+    ['treble', 2]
+  ] as const)('reads the %s tone in its own band', (band, second) => {
+    const frame = late(second);
+    expect(frame[band]).toBeGreaterThan(0.95);
+    (['bass', 'mid', 'treble'] as const)
+      .filter(other => other !== band)
+      .forEach(other => expect(frame[other]).toBeLessThan(0.05));
+  });
+
+  it('reads the same level whatever the input volume', () => {
+    const quiet = analyzePcm(sine(100, 1, 0.05), SAMPLE_RATE);
+    const loud = analyzePcm(sine(100, 1, 0.9), SAMPLE_RATE);
+    const last = quiet.length - 1;
+    expect(quiet[last].bass).toBeCloseTo(loud[last].bass, 2);
+    expect(quiet[last].level).toBeCloseTo(loud[last].level, 2);
+  });
+
+  it('reads silence as zero', () => {
+    const frames = analyzePcm(new Float32Array(SAMPLE_RATE), SAMPLE_RATE);
+    const frame = frames[frames.length - 1];
+    expect(frame).toMatchObject({ level: 0, bass: 0, mid: 0, treble: 0, beat: 0 });
+  });
+
+  it('steps time by the hop', () => {
+    const times = analyzePcm(sine(100, 0.5), SAMPLE_RATE).map(frame => frame.time);
+    times.forEach((time, i) => expect(time).toBeCloseTo(((i + 1) * HOP) / SAMPLE_RATE, 6));
+  });
+});
+
+describe('toMono', () => {
+  it('averages the channels', () => {
+    const mono = toMono([new Float32Array([1, 0, -1]), new Float32Array([0, 0, 1])]);
+    expect(Array.from(mono)).toEqual([0.5, 0, 0]);
+  });
+});
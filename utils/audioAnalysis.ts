@@ -0,0 +1,263 @@
+import { AudioFeature, AudioFeatures, AudioSettings } from '../types';
+
+// Samples per analysis frame; at 44.1-48 kHz a bin is about 22 Hz wide, enough to split the bass
+export const FFT_SIZE = 2048;
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  gain: 1,
+  smoothing: 0.85,
+  beatSensitivity: 1.5,
+  pulseFeature: 'bass',
+  pulseAmount: 0.15,
+  ringSpeedFeature: 'mid',
+  ringSpeedAmount: 1,
+  wobbleFeature: 'treble',
+  wobbleAmount: 0.5,
+  blastOnBeat: false,  // A blast scatters everything, so it's opt-in
+  blastThreshold: 0.9
+};
+
+export const AUDIO_FEATURES: { value: AudioFeature; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'level', label: 'Loudness' },
+  { value: 'bass', label: 'Bass' },
+  { value: 'mid', label: 'Mids' },
+  { value: 'treble', label: 'Treble' },
+  { value: 'beat', label: 'Beats' }
+];
+
+type Band = 'bass' | 'mid' | 'treble';
+
+const BAND_HZ: Record<Band, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000]
+};
+
+const PEAK_DECAY_SECONDS = 4;      // Auto-gain: how fast a band's reference peak falls by 1/e
+const NOISE_FLOOR = 1e-4;          // Energies below this read as silence
+const FLUX_HISTORY_SECONDS = 1.5;  // Window the onset threshold is measured over
+const MIN_FLUX_FRAMES = 8;         // No beats until the window has this many frames
+const MIN_FLUX_SHARE = 0.05;       // Flux below this share of the bass magnitude is leakage wobble, not a beat
+const MIN_BEAT_INTERVAL = 0.12;    // Seconds; caps detection near 500 BPM
+const BEAT_DECAY_SECONDS = 0.15;
+
+// In-place radix-2 FFT; both arrays must have the same power-of-two length
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        [wRe, wIm] = [wRe * stepRe - wIm * stepIm, wRe * stepIm + wIm * stepRe];
+      }
+    }
+  }
+};
+
+export const createAudioFeatures = (): AudioFeatures => ({
+  time: 0,
+  level: 0,
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  beat: 0,
+  onset: false,
+  onsetStrength: 0
+});
+
+type AnalysisSettings = Pick<AudioSettings, 'gain' | 'smoothing' | 'beatSensitivity'>;
+
+// Band energies and beat onsets from mono PCM. It knows nothing about Web Audio: live input feeds
+// it the AnalyserNode's time-domain samples, offline tests feed it decoded buffers (analyzePcm).
+// Energies are normalized against a slowly falling peak, so quiet and loud inputs both span 0 to 1.
+// Beats are bass spectral-flux peaks above the recent average.
+export class AudioAnalyzer {
+  private readonly window: Float32Array;
+  private readonly re: Float32Array;
+  private readonly im: Float32Array;
+  private readonly previous: Float32Array;
+  private readonly bins: Record<Band, [number, number]>;
+  private peaks = { level: 0, bass: 0, mid: 0, treble: 0 };
+  private flux: { time: number; value: number }[] = [];
+  private lastOnset = -Infinity;
+  private features = createAudioFeatures();
+
+  constructor(sampleRate: number, readonly size = FFT_SIZE) {
+    this.window = Float32Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1)));
+    this.re = new Float32Array(size);
+    this.im = new Float32Array(size);
+    this.previous = new Float32Array(size / 2);
+    const bin = (hz: number) => Math.min(Math.round((hz * size) / sampleRate), size / 2);
+    this.bins = {
+      bass: [bin(BAND_HZ.bass[0]), bin(BAND_HZ.bass[1])],
+      mid: [bin(BAND_HZ.mid[0]), bin(BAND_HZ.mid[1])],
+      treble: [bin(BAND_HZ.treble[0]), bin(BAND_HZ.treble[1])]
+    };
+  }
+
+  reset() {
+    this.previous.fill(0);
+    this.peaks = { level: 0, bass: 0, mid: 0, treble: 0 };
+    this.flux = [];
+    this.lastOnset = -Infinity;
+    this.features = createAudioFeatures();
+  }
+
+  // Analyzes the last `size` samples (shorter input is zero-padded), `delta` seconds after the
+  // previous frame
+  analyze(samples: Float32Array, delta: number, settings: AnalysisSettings): AudioFeatures {
+    const { re, im, size } = this;
+    const offset = samples.length - size;
+    let sumSquares = 0;
+    for (let i = 0; i < size; i++) {
+      const sample = (samples[offset + i] ?? 0) * settings.gain;
+      sumSquares += sample * sample;
+      re[i] = sample * this.window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    // Amplitude spectrum scaled so a full-scale sine reads about 1 (the Hann window halves it)
+    let flux = 0;
+    let bassMagnitude = 0;
+    const [bassStart, bassEnd] = this.bins.bass;
+    for (let k = 0; k < size / 2; k++) {
+      const magnitude = (Math.hypot(re[k], im[k]) * 4) / size;
+      if (k >= bassStart && k < bassEnd) {
+        flux += Math.max(magnitude - this.previous[k], 0);
+        bassMagnitude += magnitude;
+      }
+      re[k] = magnitude;
+      this.previous[k] = magnitude;
+    }
+    const bandEnergy = ([start, end]: [number, number]) => {
+      let sum = 0;
+      for (let k = start; k < end; k++) sum += re[k] * re[k];
+      return end > start ? Math.sqrt(sum / (end - start)) : 0;
+    };
+
+    const time = this.features.time + delta;
+    const peakDecay = Math.exp(-delta / PEAK_DECAY_SECONDS);
+    const release = 1 - Math.pow(settings.smoothing, delta * 60);
+    const normalized = { level: Math.sqrt(sumSquares / size), bass: 0, mid: 0, treble: 0 };
+    (['bass', 'mid', 'treble'] as Band[]).forEach(band => {
+      normalized[band] = bandEnergy(this.bins[band]);
+    });
+    const next = { ...this.features, time, onset: false };
+    (['level', 'bass', 'mid', 'treble'] as const).forEach(key => {
+      const raw = normalized[key];
+      this.peaks[key] = Math.max(raw, this.peaks[key] * peakDecay);
+      normalized[key] = raw < NOISE_FLOOR ? 0 : raw / this.peaks[key];
+      // Rises at once, falls back at the smoothing rate
+      const previous = this.features[key];
+      next[key] = normalized[key] >= previous ? normalized[key] : previous + (normalized[key] - previous) * release;
+    });
+
+    // Onset: bass flux clearly above its recent mean and more than the wobble a steady tone makes
+    // as it drifts against the window, and not too soon after the last one
+    this.flux = this.flux.filter(entry => time - entry.time <= FLUX_HISTORY_SECONDS);
+    const mean = this.flux.reduce((sum, entry) => sum + entry.value, 0) / Math.max(this.flux.length, 1);
+    const variance = this.flux.reduce((sum, entry) => sum + (entry.value - mean) ** 2, 0) / Math.max(this.flux.length, 1);
+    const threshold = mean + settings.beatSensitivity * Math.sqrt(variance);
+    if (
+      this.flux.length >= MIN_FLUX_FRAMES &&
+      flux > threshold &&
+      flux > NOISE_FLOOR &&
+      flux > bassMagnitude * MIN_FLUX_SHARE &&
+      time - this.lastOnset >= MIN_BEAT_INTERVAL
+    ) {
+      this.lastOnset = time;
+      next.onset = true;
+      next.onsetStrength = normalized.bass;
+    }
+    this.flux.push({ time, value: flux });
+
+    const beatDecay = Math.exp(-delta / BEAT_DECAY_SECONDS);
+    next.beat = next.onset ? Math.max(this.features.beat * beatDecay, next.onsetStrength) : this.features.beat * beatDecay;
+
+    this.features = next;
+    return next;
+  }
+}
+
+// Averages the channels of a decoded buffer (e.g. AudioBuffer.getChannelData for each channel)
+export const toMono = (channels: Float32Array[]) => {
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  channels.forEach(channel => channel.forEach((sample, i) => { mono[i] += sample / channels.length; }));
+  return mono;
+};
+
+// Runs the analysis over a whole decoded buffer, one frame every `hop` samples, like the live
+// input would see it. For tuning thresholds and checking beat detection without a browser.
+export const analyzePcm = (
+  samples: Float32Array,
+  sampleRate: number,
+  settings: AnalysisSettings = DEFAULT_AUDIO,
+  hop = 512
+): AudioFeatures[] => {
+  const analyzer = new AudioAnalyzer(sampleRate);
+  const frames: AudioFeatures[] = [];
+  for (let end = analyzer.size; end <= samples.length; end += hop) {
+    frames.push(analyzer.analyze(samples.subarray(end - analyzer.size, end), hop / sampleRate, settings));
+  }
+  return frames;
+};
+
+export const featureValue = (features: AudioFeatures, feature: AudioFeature) =>
+  feature === 'off' ? 0 : features[feature];
+
+const BLAST_HOLD_SECONDS = 0.3;  // How long a beat holds the blast, like a briefly closed fist
+const BLAST_COOLDOWN_SECONDS = 2; // Lets the particles reassemble before the next beat blast
+
+// Audio features mapped onto what the particles respond to. Everything is 0 without input.
+export class AudioDrive {
+  pulse = 0;      // Extra scale
+  ringSpeed = 0;  // Extra magic circle rotation speed, 1 = double
+  wobble = 0;     // Orb surface wobble
+  blast = 0;      // 1 while a beat blast holds, like HandState.blast
+
+  private sinceBlast = Infinity;
+
+  update(features: AudioFeatures | null, settings: AudioSettings, delta: number) {
+    this.sinceBlast += delta;
+    if (!features) {
+      this.pulse = this.ringSpeed = this.wobble = this.blast = 0;
+      return;
+    }
+    this.pulse = featureValue(features, settings.pulseFeature) * settings.pulseAmount;
+    this.ringSpeed = featureValue(features, settings.ringSpeedFeature) * settings.ringSpeedAmount;
+    this.wobble = featureValue(features, settings.wobbleFeature) * settings.wobbleAmount;
+
+    if (
+      settings.blastOnBeat &&
+      features.onset &&
+      features.onsetStrength >= settings.blastThreshold &&
+      this.sinceBlast >= BLAST_COOLDOWN_SECONDS
+    ) {
+      this.sinceBlast = 0;
+    }
+    this.blast = this.sinceBlast < BLAST_HOLD_SECONDS ? 1 : 0;
+  }
+}
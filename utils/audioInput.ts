@@ -0,0 +1,92 @@
+import { AudioFeatures, AudioSettings } from '../types';
+import { AudioAnalyzer, FFT_SIZE } from './audioAnalysis';
+
+export type AudioSourceKind = 'microphone' | 'file';
+
+// Taps the microphone or an audio file with a Web Audio AnalyserNode and analyzes its latest
+// samples once per frame. One source at a time; picking another stops the current one.
+export class AudioInput {
+  kind: AudioSourceKind | null = null;
+  fileName: string | null = null;
+  features: AudioFeatures | null = null;  // null while no source is active
+
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private analyzer: AudioAnalyzer | null = null;
+  private readonly samples = new Float32Array(FFT_SIZE);
+  private node: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+
+  // Created on first use: browsers only allow audio to start after a user gesture
+  private open() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = FFT_SIZE;
+      this.analyzer = new AudioAnalyzer(this.context.sampleRate);
+    }
+    return { context: this.context, analyser: this.analyser! };
+  }
+
+  // Raw input: the browser's voice processing would flatten the music
+  async useMicrophone() {
+    this.stop();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+    const { context, analyser } = this.open();
+    await context.resume();
+    this.node = context.createMediaStreamSource(stream);
+    this.node.connect(analyser);
+    this.stream = stream;
+    this.kind = 'microphone';
+  }
+
+  // Plays the file, looped, through the speakers as well as the analyser
+  async useFile(file: File) {
+    this.stop();
+    const { context, analyser } = this.open();
+    const element = new Audio(URL.createObjectURL(file));
+    element.loop = true;
+    this.node = context.createMediaElementSource(element);
+    this.node.connect(analyser);
+    this.node.connect(context.destination);
+    this.element = element;
+    this.kind = 'file';
+    this.fileName = file.name;
+    await context.resume();
+    await element.play();
+  }
+
+  stop() {
+    this.node?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    if (this.element) {
+      this.element.pause();
+      URL.revokeObjectURL(this.element.src);
+    }
+    this.node = null;
+    this.stream = null;
+    this.element = null;
+    this.kind = null;
+    this.fileName = null;
+    this.features = null;
+    this.analyzer?.reset();
+  }
+
+  // Analyzes the newest samples; `delta` is the time since the previous call
+  update(delta: number, settings: AudioSettings) {
+    if (!this.kind || !this.analyser || !this.analyzer) return;
+    this.analyser.getFloatTimeDomainData(this.samples);
+    this.features = this.analyzer.analyze(this.samples, delta, settings);
+  }
+
+  dispose() {
+    this.stop();
+    this.context?.close();
+    this.context = null;
+    this.analyser = null;
+    this.analyzer = null;
+  }
+}
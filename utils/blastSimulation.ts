@@ -0,0 +1,276 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { GROUND_ASSEMBLE_LIMIT, IntegratorParams, MIN_HAND_DISTANCE } from './particleIntegrator';
+
+// Rest pose animation uniforms, shared by reference with the particle material
+export interface RestPoseUniforms {
+  uTime: THREE.IUniform<number>;
+  uMagic: THREE.IUniform<number>;
+  uPinch: THREE.IUniform<number>;
+  uRotation: THREE.IUniform<number>;
+  uCurveMorph: THREE.IUniform<number>;
+  uRingTime: THREE.IUniform<number>;
+  uAudioPulse: THREE.IUniform<number>;
+  uAudioWobble: THREE.IUniform<number>;
+}
+
+const SCATTER_SPEED = 12;  // Initial outward speed per unit of blast strength, units/s
+
+// World-space rest position of the particle stored at `uv`, for the renderer's rest pose GLSL
+const restWorldGlsl = (restPoseGlsl: string) => `
+  uniform mat4 uModelMatrix;
+  uniform sampler2D uOrbTexture;   // xyz = orb structure point, w = aProgress
+  uniform sampler2D uCurveTexture; // xyz = butterfly curve target
+  ${restPoseGlsl}
+
+  vec3 restWorld(vec2 uv) {
+    vec4 orb = texture2D(uOrbTexture, uv);
+    vec3 curveTarget = texture2D(uCurveTexture, uv).xyz;
+    return (uModelMatrix * vec4(restPoint(orb.w, orb.xyz, curveTarget).position, 1.0)).xyz;
+  }
+`;
+
+// Mirrors integrateVelocity in particleIntegrator.ts (exported so tests can compare the two)
+export const velocityShader = (restPoseGlsl: string) => `
+  uniform float uDelta;
+  uniform float uGravity;
+  uniform float uDrag;
+  uniform float uGround;
+  uniform float uBounce;
+  uniform float uFriction;
+  uniform vec3 uHand;
+  uniform float uHandRadius;
+  uniform float uHandStrength; // Positive repels, negative attracts
+  uniform float uAssemble;
+  uniform float uStiffness;
+  ${restWorldGlsl(restPoseGlsl)}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 p = texture2D(texturePosition, uv).xyz;
+    vec3 v = texture2D(textureVelocity, uv).xyz;
+    float freeFlight = 1.0 - uAssemble;
+    vec3 acc = vec3(0.0, -uGravity * freeFlight, 0.0);
+
+    // Hand force falls off quadratically to zero at uHandRadius
+    vec3 fromHand = p - uHand;
+    float dist = length(fromHand);
+    if (dist < uHandRadius && dist > ${MIN_HAND_DISTANCE.toExponential()}) {
+        float falloff = 1.0 - dist / uHandRadius;
+        acc += fromHand * (uHandStrength * freeFlight * falloff * falloff / dist);
+    }
+
+    // Critically damped spring toward the rest pose, faded in by uAssemble
+    float damping = 2.0 * sqrt(uStiffness);
+    acc += ((restWorld(uv) - p) * uStiffness - v * damping) * uAssemble;
+    v = (v + acc * uDelta) * exp(-uDrag * uDelta);
+
+    // Particles on the floor bounce back up, losing some sideways speed
+    if (uAssemble < ${GROUND_ASSEMBLE_LIMIT.toFixed(1)} && p.y <= uGround && v.y < 0.0) {
+        v.y = -v.y * uBounce;
+        v.xz *= 1.0 - uFriction;
+    }
+
+    gl_FragColor = vec4(v, 1.0);
+  }
+`;
+
+export const POSITION_SHADER = `
+  uniform float uDelta;
+  uniform float uGround;
+  uniform float uAssemble;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 p = texture2D(texturePosition, uv).xyz + texture2D(textureVelocity, uv).xyz * uDelta;
+    if (uAssemble < ${GROUND_ASSEMBLE_LIMIT.toFixed(1)}) p.y = max(p.y, uGround);
+    gl_FragColor = vec4(p, 1.0);
+  }
+`;
+
+// Writes the starting state of a blast: particles at their rest pose, flying outward from the
+// blast center with a random spread and an upward bias
+const seedShader = (restPoseGlsl: string) => `
+  uniform float uOutput; // 0.0 = positions, 1.0 = velocities
+  uniform float uStrength;
+  ${restWorldGlsl(restPoseGlsl)}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 rest = restWorld(uv);
+    if (uOutput < 0.5) {
+        gl_FragColor = vec4(rest, 1.0);
+        return;
+    }
+
+    float seed = texture2D(uOrbTexture, uv).w;
+    vec3 outward = rest - uModelMatrix[3].xyz;
+    outward = length(outward) > 1e-4 ? normalize(outward) : vec3(0.0, 1.0, 0.0);
+    vec3 jitter = vec3(hash(seed * 777.0), hash(seed * 555.0), hash(seed * 999.0)) - 0.5;
+    float speed = (0.8 + hash(seed * 333.0) * 2.5) * uStrength * ${SCATTER_SPEED.toFixed(1)};
+    vec3 velocity = normalize(outward + jitter * 1.5) * speed;
+    velocity.y += hash(seed * 111.0) * speed * 0.5;
+    gl_FragColor = vec4(velocity, 1.0);
+  }
+`;
+
+const createDataTexture = (size: number) => {
+  const texture = new THREE.DataTexture(
+    new Float32Array(size * size * 4), size, size, THREE.RGBAFormat, THREE.FloatType
+  );
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Side of the square simulation texture holding one texel per particle
+const simulationSize = (count: number) => Math.ceil(Math.sqrt(count));
+
+// Texel centers for the particle renderer's aSimUv attribute; particle i lives at texel i
+export const createSimulationUvs = (count: number) => {
+  const size = simulationSize(count);
+  const uvs = new Float32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    uvs[i * 2] = ((i % size) + 0.5) / size;
+    uvs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+  }
+  return uvs;
+};
+
+// Ping-pong position / velocity simulation of the blasted particles in float render targets.
+// Positions are world space so particles keep flying where they were thrown when the hand
+// moves, and the rest pose is recomputed from the same GLSL the renderer uses.
+export class BlastSimulation {
+  private readonly count: number;
+  private readonly gpu: GPUComputationRenderer;
+  private readonly position: Variable;
+  private readonly velocity: Variable;
+  private readonly seedMaterial: THREE.ShaderMaterial;
+  private readonly orbTexture: THREE.DataTexture;
+  private readonly curveTexture: THREE.DataTexture;
+  private readonly modelMatrix = { value: new THREE.Matrix4() };
+
+  // Throws when the renderer can't run the simulation; callers fall back to the closed-form blast.
+  // `restPoseGlsl` must be the chunk the particle material was built with.
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    count: number,
+    restPoseGlsl: string,
+    restUniforms: RestPoseUniforms
+  ) {
+    if (!renderer.extensions.has('EXT_color_buffer_float')) {
+      throw new Error('Blast simulation needs float render targets (EXT_color_buffer_float)');
+    }
+
+    const size = simulationSize(count);
+    this.count = count;
+    this.gpu = new GPUComputationRenderer(size, size, renderer);
+    this.orbTexture = createDataTexture(size);
+    this.curveTexture = createDataTexture(size);
+
+    const restWorldUniforms = () => ({
+      ...restUniforms,
+      uModelMatrix: this.modelMatrix,
+      uOrbTexture: { value: this.orbTexture },
+      uCurveTexture: { value: this.curveTexture }
+    });
+
+    this.velocity = this.gpu.addVariable('textureVelocity', velocityShader(restPoseGlsl), this.gpu.createTexture());
+    this.position = this.gpu.addVariable('texturePosition', POSITION_SHADER, this.gpu.createTexture());
+    this.gpu.setVariableDependencies(this.velocity, [this.position, this.velocity]);
+    this.gpu.setVariableDependencies(this.position, [this.position, this.velocity]);
+
+    Object.assign(this.velocity.material.uniforms, restWorldUniforms(), {
+      uDelta: { value: 0 },
+      uGravity: { value: 0 },
+      uDrag: { value: 0 },
+      uGround: { value: 0 },
+      uBounce: { value: 0 },
+      uFriction: { value: 0 },
+      uHand: { value: new THREE.Vector3() },
+      uHandRadius: { value: 0 },
+      uHandStrength: { value: 0 },
+      uAssemble: { value: 0 },
+      uStiffness: { value: 0 }
+    });
+    Object.assign(this.position.material.uniforms, {
+      uDelta: { value: 0 },
+      uGround: { value: 0 },
+      uAssemble: { value: 0 }
+    });
+    this.seedMaterial = this.gpu.createShaderMaterial(seedShader(restPoseGlsl), {
+      ...restWorldUniforms(),
+      uOutput: { value: 0 },
+      uStrength: { value: 1 }
+    });
+
+    const error = this.gpu.init();
+    if (error) {
+      this.dispose();
+      throw new Error(`Blast simulation unavailable: ${error}`);
+    }
+  }
+
+  // World-space positions of the current step, sampled by the particle renderer
+  get positionTexture() {
+    return this.gpu.getCurrentRenderTarget(this.position).texture;
+  }
+
+  // Copies the orb structure, progress and curve attributes the rest pose is built from
+  setRestInputs(orb: Float32Array, progress: Float32Array, curve: Float32Array) {
+    const orbData = this.orbTexture.image.data as Float32Array;
+    const curveData = this.curveTexture.image.data as Float32Array;
+    for (let i = 0; i < this.count; i++) {
+      orbData[i * 4] = orb[i * 3];
+      orbData[i * 4 + 1] = orb[i * 3 + 1];
+      orbData[i * 4 + 2] = orb[i * 3 + 2];
+      orbData[i * 4 + 3] = progress[i];
+      curveData[i * 4] = curve[i * 3];
+      curveData[i * 4 + 1] = curve[i * 3 + 1];
+      curveData[i * 4 + 2] = curve[i * 3 + 2];
+    }
+    this.orbTexture.needsUpdate = true;
+    this.curveTexture.needsUpdate = true;
+  }
+
+  // Starts a blast from the current rest pose of the object at `modelMatrix`
+  seed(modelMatrix: THREE.Matrix4, strength: number) {
+    this.modelMatrix.value.copy(modelMatrix);
+    this.seedMaterial.uniforms.uStrength.value = strength;
+    this.seedMaterial.uniforms.uOutput.value = 0;
+    this.gpu.doRenderTarget(this.seedMaterial, this.gpu.getCurrentRenderTarget(this.position));
+    this.seedMaterial.uniforms.uOutput.value = 1;
+    this.gpu.doRenderTarget(this.seedMaterial, this.gpu.getCurrentRenderTarget(this.velocity));
+  }
+
+  // Advances the simulation by dt; `modelMatrix` places the rest pose for re-assembly
+  step(params: IntegratorParams, modelMatrix: THREE.Matrix4, dt: number) {
+    this.modelMatrix.value.copy(modelMatrix);
+
+    const velocity = this.velocity.material.uniforms;
+    velocity.uDelta.value = dt;
+    velocity.uGravity.value = params.gravity;
+    velocity.uDrag.value = params.drag;
+    velocity.uGround.value = params.groundY;
+    velocity.uBounce.value = params.bounce;
+    velocity.uFriction.value = params.friction;
+    velocity.uHand.value.set(params.hand.x, params.hand.y, params.hand.z);
+    velocity.uHandRadius.value = params.handRadius;
+    velocity.uHandStrength.value = params.handStrength;
+    velocity.uAssemble.value = params.assemble;
+    velocity.uStiffness.value = params.stiffness;
+
+    const position = this.position.material.uniforms;
+    position.uDelta.value = dt;
+    position.uGround.value = params.groundY;
+    position.uAssemble.value = params.assemble;
+
+    this.gpu.compute();
+  }
+
+  dispose() {
+    this.gpu.dispose();
+    this.seedMaterial.dispose();
+    this.orbTexture.dispose();
+    this.curveTexture.dispose();
+  }
+}
@@ -0,0 +1,45 @@
+import { ButterflyParams } from '../types';
+
+// World units per unit of curve radius (before params.scale), sized to roughly match the orb
+const CURVE_SCALE = 2.5;
+
+// Temple H. Fay's butterfly curve: r = a·e^sin t − b·cos 4t + sin^c((2t − π) / 24)
+export const butterflyRadius = (t: number, a: number, b: number, c: number) => {
+  const s = Math.sin((2 * t - Math.PI) / 24);
+  // Non-integer powers of negative numbers are NaN; keep the sign so fractional c still draws
+  const powTerm = Number.isInteger(c) ? Math.pow(s, c) : Math.sign(s) * Math.pow(Math.abs(s), c);
+  return a * Math.exp(Math.sin(t)) - b * Math.cos(4 * t) + powTerm;
+};
+
+// Point on the curve at parameter t, upright (wings left/right, head up), in world units
+export const butterflyPoint = (t: number, params: ButterflyParams, target = { x: 0, y: 0 }) => {
+  const r = butterflyRadius(t, params.a, params.b, params.c) * params.scale * CURVE_SCALE;
+  target.x = r * Math.sin(t);
+  target.y = r * Math.cos(t);
+  return target;
+};
+
+// Fills `out` (xyz per point) with points evenly spaced in t over [0, iter·π], centered on the
+// origin. Points are ordered along the curve so per-point progress traces the stroke.
+export const fillButterflyCurve = (out: Float32Array, params: ButterflyParams) => {
+  const count = out.length / 3;
+  const tMax = params.iter * Math.PI;
+  const point = { x: 0, y: 0 };
+  let minY = Infinity;
+  let maxY = -Infinity;
+
+  for (let i = 0; i < count; i++) {
+    butterflyPoint((i / count) * tMax, params, point);
+    out[i * 3] = point.x;
+    out[i * 3 + 1] = point.y;
+    // Thin deterministic depth jitter so the curve reads as a ribbon rather than a line
+    out[i * 3 + 2] = (Math.sin(i * 12.9898) * 0.5) * params.scale * 0.3;
+    minY = Math.min(minY, point.y);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  // The curve's body sits above its origin; recenter vertically
+  const offsetY = (minY + maxY) / 2;
+  for (let i = 0; i < count; i++) out[i * 3 + 1] -= offsetY;
+  return out;
+};
@@ -0,0 +1,358 @@
+import { RingLayer } from '../types';
+import { MAX_RING_LAYERS, buildRingGlsl } from './rings';
+import { MAX_ORB_COLORS } from './themes';
+
+// GLSL for the butterfly / magic circle particles. The rest pose lives in a shared chunk so the
+// blast simulation pulls particles back to exactly where the renderer would have drawn them.
+
+// Rest pose for the given magic circle layers. Its uniforms animate the pose; the simulation
+// shares these uniform objects with the particle material.
+export const buildRestPoseGlsl = (rings: RingLayer[]) => `
+  uniform float uTime;
+  uniform float uMagic; // 0.0 to 1.0 (1.0 = full magic mode)
+  uniform float uPinch; // 0.0 to 1.0 (finger distance - 0 = touching, 1 = open)
+  uniform float uRotation; // Palm rotation angle
+  uniform float uCurveMorph; // 0.0 = geometric orb, 1.0 = butterfly curve
+  uniform float uRingTime; // Magic circle animation time; runs ahead of uTime with the audio
+  uniform float uAudioPulse; // Extra scale from the audio, 0.0 = none
+  uniform float uAudioWobble; // Orb surface ripple from the audio, 0.0 = none
+
+  // Pseudo-random function
+  float hash(float n) { return fract(sin(n) * 43758.5453123); }
+  ${buildRingGlsl(rings)}
+
+  struct RestPoint {
+    vec3 position;     // Object space
+    float sizeMult;    // Point size multiplier in magic mode
+    float ringID;      // Magic circle layer index
+    float innerCircle; // 1.0 for the pale inner triangle grid
+    float orbTrail;    // Trail intensity for orbs (1.0 = head, 0.0 = tail)
+    float radius;      // Distance from the circle center; tiny radii hide ring gaps
+  };
+
+  // Where a particle sits when nothing disturbs it: orb structure / butterfly curve blended
+  // into its magic circle ring by uMagic
+  RestPoint restPoint(float progress, vec3 orbPos, vec3 curveTarget) {
+    RestPoint rest;
+    rest.innerCircle = 0.0;
+    rest.orbTrail = 1.0; // Default full intensity
+
+    // 1. Base Orb Position (geometrical structures)
+    // Determine structure based on progress
+    float structure = 0.0;
+    if (progress < 0.2) structure = 0.0;      // Icosahedron
+    else if (progress < 0.5) structure = 1.0; // Rings
+    else if (progress < 0.8) structure = 2.0; // Spirals
+    else structure = 3.0;                       // Floating particles
+    
+    vec3 rotated = orbPos;
+    
+    if (structure < 0.5) {
+        // Icosahedron: slow majestic rotation
+        float rotY = uTime * 0.3;
+        float rotX = uTime * 0.2;
+        float cosY = cos(rotY); float sinY = sin(rotY);
+        float cosX = cos(rotX); float sinX = sin(rotX);
+        rotated = vec3(
+            orbPos.x * cosY - orbPos.z * sinY,
+            orbPos.y * cosX - (orbPos.x * sinY + orbPos.z * cosY) * sinX,
+            orbPos.y * sinX + (orbPos.x * sinY + orbPos.z * cosY) * cosX
+        );
+    } else if (structure < 1.5) {
+        // Rings: each ring rotates differently
+        float ringIdx = floor((progress - 0.2) / 0.1);
+        float rotSpeed = 0.4 + ringIdx * 0.2;
+        float rotDir = mod(ringIdx, 2.0) < 1.0 ? 1.0 : -1.0;
+        float rot = uTime * rotSpeed * rotDir;
+        float c = cos(rot); float s = sin(rot);
+        if (ringIdx < 1.0) rotated = vec3(orbPos.x * c - orbPos.y * s, orbPos.x * s + orbPos.y * c, orbPos.z);
+        else if (ringIdx < 2.0) rotated = vec3(orbPos.x * c - orbPos.z * s, orbPos.y, orbPos.x * s + orbPos.z * c);
+        else rotated = vec3(orbPos.x, orbPos.y * c - orbPos.z * s, orbPos.y * s + orbPos.z * c);
+    } else if (structure < 2.5) {
+        // Spirals: gentle twist
+        float twist = uTime * 0.5;
+        float c = cos(twist); float s = sin(twist);
+        rotated = vec3(orbPos.x * c - orbPos.z * s, orbPos.y, orbPos.x * s + orbPos.z * c);
+    } else {
+        // Floating: shimmer effect
+        float shimmer = sin(uTime * 3.0 + progress * 50.0) * 0.05;
+        rotated = orbPos * (1.0 + shimmer);
+    }
+    
+    // Gentle breathing/pulse for all
+    float pulse = 1.0 + sin(uTime * 1.5) * 0.03 + uAudioPulse;
+    
+    // Size reduction based on pinch (shrinks as fingers get closer)
+    float shrinkFactor = smoothstep(0.2, 0.7, uPinch);
+    float minSize = 0.3;
+    float orbScale = mix(minSize, 1.0, shrinkFactor);
+    
+    // Morph toward the Fay butterfly curve, wings flapping around the body axis
+    float flap = sin(uTime * 2.0) * 0.35;
+    vec3 curvePos = vec3(curveTarget.x * cos(flap), curveTarget.y, curveTarget.z + abs(curveTarget.x) * sin(flap));
+    vec3 orbShape = mix(rotated, curvePos, uCurveMorph);
+    orbShape *= 1.0 + uAudioWobble * 0.15 * sin(progress * 90.0 + uTime * 8.0);
+    
+    vec3 butterflyPos = orbShape * pulse * orbScale;
+
+    // 2. Target Magic Circle Position, from the selected ring layers (utils/rings)
+    RingPoint ring = ringPoint(progress, uRingTime);
+    rest.ringID = ring.layer;
+    rest.innerCircle = ring.innerCircle;
+    rest.orbTrail = ring.orbTrail;
+    float r = ring.r;
+    float sizeMult = ring.sizeMult;
+    vec3 magicPos = vec3(r * cos(ring.theta), r * sin(ring.theta), ring.z) * (1.0 + uAudioPulse);
+    
+    // 3. SMOOTH TRANSITION BLEND
+    float easeMagic = smoothstep(0.0, 1.0, uMagic);
+
+    float rot = easeMagic * 3.14; 
+    float c = cos(rot);
+    float s = sin(rot);
+    vec3 rotatedButterfly = vec3(
+        butterflyPos.x * c - butterflyPos.y * s,
+        butterflyPos.x * s + butterflyPos.y * c,
+        butterflyPos.z
+    );
+    
+    float noiseAmp = sin(uMagic * 3.14159) * 2.5;
+    vec3 noise = vec3(
+        hash(progress * 10.0) - 0.5,
+        hash(progress * 20.0) - 0.5,
+        hash(progress * 30.0) - 0.5
+    ) * noiseAmp;
+
+    vec3 finalPos = mix(rotatedButterfly, magicPos, easeMagic);
+    finalPos += noise;
+
+    rest.position = finalPos;
+    rest.sizeMult = sizeMult;
+    rest.radius = r;
+    return rest;
+  }
+`;
+
+// Fingertip force fields, one per HandState.fingerTips entry
+export const FINGER_COUNT = 5;
+
+export const buildVertexShader = (rings: RingLayer[]) => `
+  #define FINGER_COUNT ${FINGER_COUNT}
+  attribute float aProgress;
+  attribute vec3 aCurve; // Fay butterfly curve morph target
+  attribute vec2 aSimUv; // This particle's texel in the blast simulation
+  uniform float uSize;
+  uniform float uVisible; // 0.0 = hidden, 1.0 = visible
+  uniform float uBlast; // 0.0 to 1.0 (blast/scatter effect)
+  uniform float uBlastTime; // Time when blast started
+  uniform float uBlastStrength; // Scatter distance multiplier
+  uniform float uBlastGravity; // Downward pull during blast
+  uniform float uSimActive; // 1.0 while the blast simulation owns the particles
+  uniform float uAssemble; // 0.0 = simulated position, 1.0 = back in the rest pose
+  uniform sampler2D uSimPosition; // World-space positions from the blast simulation
+  uniform vec3 uFingerTips[FINGER_COUNT]; // World-space fingertip positions
+  uniform vec2 uFingerForces[FINGER_COUNT]; // x = radius, y = strength (0.0 = finger off)
+  varying float vProgress;
+  varying float vVisible;
+  varying float vMagic;
+  varying float vRingID;
+  varying float vIsInnerCircle;
+  varying float vRandom;
+  varying float vOrbTrail; // Trail intensity for orbs (1.0 = head, 0.0 = tail)
+  varying float vBlastAlpha; // Alpha for blast fade out
+  ${buildRestPoseGlsl(rings)}
+
+  // Offset from the fingertip force fields: pushes particles away (attract = 0.0) or draws
+  // them in (attract = 1.0), never past the fingertip itself
+  vec3 fingerDisplacement(vec3 p, float attract) {
+    vec3 offset = vec3(0.0);
+    for (int i = 0; i < FINGER_COUNT; i++) {
+        vec3 fromTip = p - uFingerTips[i];
+        float dist = length(fromTip);
+        float radius = uFingerForces[i].x;
+        if (dist >= radius || dist < 1e-4) continue;
+
+        float falloff = 1.0 - dist / radius;
+        float push = uFingerForces[i].y * falloff * falloff;
+        offset += fromTip / dist * mix(push, -min(push, dist), attract);
+    }
+    return offset;
+  }
+
+  void main() {
+    vProgress = aProgress;
+    vMagic = uMagic;
+    vVisible = uVisible;
+    vRandom = hash(aProgress * 123.45);
+    vBlastAlpha = 1.0; // Default full alpha
+
+    RestPoint rest = restPoint(aProgress, position, aCurve);
+    vRingID = rest.ringID;
+    vIsInnerCircle = rest.innerCircle;
+    vOrbTrail = rest.orbTrail;
+    vec3 finalPos = rest.position;
+    
+    vec4 worldPos = modelMatrix * vec4(finalPos, 1.0);
+    if (uSimActive > 0.5) {
+        // 4. BLAST - the GPU simulation owns the particles; hand them back to the rest pose
+        // over the last part of the re-assembly so they land exactly in place
+        vec3 simPos = texture2D(uSimPosition, aSimUv).xyz;
+        worldPos.xyz = mix(simPos, worldPos.xyz, smoothstep(0.6, 1.0, uAssemble));
+    } else if (uBlast > 0.01) {
+        // 4. BLAST fallback - closed-form scatter for GPUs without float render targets
+        float blastProgress = uBlast;
+        // Slower, smoother easing - cubic ease out for natural deceleration
+        float easeBlast = 1.0 - pow(1.0 - blastProgress, 3.0);
+        
+        // Each particle gets unique random direction for scatter
+        float randAngle = hash(aProgress * 777.0) * 6.28318;
+        float randSpeed = 0.8 + hash(aProgress * 333.0) * 2.5; // Wider speed range
+        float randUpward = hash(aProgress * 555.0) * 1.2; // More initial upward spread
+        
+        // Scatter direction - wider spread across screen
+        vec3 scatterDir = vec3(
+            cos(randAngle) * randSpeed * 1.5, // Wider horizontal spread
+            sin(randAngle) * randSpeed * 0.6 + randUpward, // Some upward bias
+            (hash(aProgress * 999.0) - 0.5) * randSpeed * 0.8 // Depth variation
+        );
+        
+        // Slower time progression for smoother animation
+        float blastTime = blastProgress * 2.0; // Slower time scale
+        
+        // Apply scatter with smooth deceleration
+        float decel = 1.0 - blastProgress * 0.5; // Gradual slowdown
+        vec3 scatterOffset = scatterDir * blastTime * 12.0 * uBlastStrength * decel;
+        
+        // Gentler gravity - particles float then fall
+        float gravity = uBlastGravity;
+        float fallDelay = smoothstep(0.0, 0.3, blastProgress); // Delay before falling
+        float fallOffset = gravity * blastTime * blastTime * fallDelay;
+        
+        // Combine scatter and gravity
+        vec3 blastOffset = scatterOffset;
+        blastOffset.y -= fallOffset; // Gravity pulls down gradually
+        
+        // Gentle tumble/spin
+        float spin = blastTime * (hash(aProgress * 111.0) - 0.5) * 4.0; // Slower spin
+        blastOffset.x += sin(spin) * 0.3;
+        blastOffset.z += cos(spin) * 0.3;
+        
+        // Smooth blend between normal position and blast position
+        finalPos = mix(finalPos, finalPos + blastOffset, easeBlast);
+        worldPos = modelMatrix * vec4(finalPos, 1.0);
+        
+        // Gradual fade out - starts later, fades slower
+        vBlastAlpha = 1.0 - smoothstep(0.4, 1.0, blastProgress);
+    }
+
+    // 5. FINGERTIP FORCE FIELDS - orb particles dodge the fingers, the magic circle clings to them
+    worldPos.xyz += fingerDisplacement(worldPos.xyz, smoothstep(0.0, 1.0, uMagic));
+
+    vec4 mvPosition = viewMatrix * worldPos;
+    gl_Position = projectionMatrix * mvPosition;
+    
+    // Size Attenuation
+    gl_PointSize = uSize * (40.0 / -mvPosition.z);
+    gl_PointSize *= mix(1.0, rest.sizeMult, smoothstep(0.0, 1.0, uMagic));
+    
+    if (rest.radius < 0.1) gl_PointSize = 0.0;
+  }
+`;
+
+export const BUTTERFLY_FRAGMENT_SHADER = `
+  #define MAX_RING_LAYERS ${MAX_RING_LAYERS}
+  #define ORB_COLOR_STOPS ${MAX_ORB_COLORS}
+  uniform vec3 uOrbColors[ORB_COLOR_STOPS];   // Orb gradient, evenly spaced over progress
+  uniform float uOrbFlow;                     // 0 = gradient fixed along the curve, 1 = flowing
+  uniform vec3 uRingColors[MAX_RING_LAYERS]; // Magic circle color per layer
+  uniform vec3 uInnerColor;
+  uniform vec3 uTrailHead;
+  uniform vec3 uTrailTail;
+  uniform vec3 uFlashColor;
+  uniform vec3 uBlastColor;
+  uniform float uRingStyles[MAX_RING_LAYERS]; // 0.0 = solid, 1.0 = flicker, 2.0 = trail
+  uniform float uTime;
+  uniform float uMagic;
+  uniform float uBlast;
+  
+  varying float vProgress;
+  varying float vMagic;
+  varying float vVisible;
+  varying float vRingID;
+  varying float vIsInnerCircle;
+  varying float vRandom;
+  varying float vOrbTrail;
+  varying float vBlastAlpha;
+
+  vec3 orbColor(float progress) {
+    // Flowing runs the gradient back and forth along the curve, so it has no seam
+    float x = mix(progress, abs(fract(0.5 + progress * 0.5 + uTime * 0.05) * 2.0 - 1.0), uOrbFlow);
+    float stop = x * float(ORB_COLOR_STOPS - 1);
+    int i = int(min(floor(stop), float(ORB_COLOR_STOPS - 2)));
+    return mix(uOrbColors[i], uOrbColors[i + 1], stop - float(i));
+  }
+
+  void main() {
+    vec2 uv = gl_PointCoord - 0.5;
+    float dist = length(uv);
+    if (dist > 0.5) discard;
+    
+    float glow = 1.0 - (dist * 2.0);
+    glow = pow(glow, 3.0); 
+    
+    // --- COLOR ---
+    vec3 baseColor = orbColor(vProgress);
+    int layer = int(vRingID + 0.5);
+    vec3 ringColor = uRingColors[layer];
+    float ringStyle = uRingStyles[layer];
+    vec3 magicColor = ringColor;
+    if (vIsInnerCircle > 0.5) magicColor = uInnerColor;
+
+    vec3 finalRGB = mix(baseColor, magicColor, vMagic);
+    // Hot Center
+    finalRGB = mix(finalRGB, vec3(1.0), glow * 0.5 * vMagic);
+    
+    // Flash
+    float flash = sin(vMagic * 3.14159);
+    finalRGB += uFlashColor * flash * 0.5;
+    
+    // Standard Alpha
+    float speed = 0.2;
+    float headPos = fract(uTime * speed);
+    float d = vProgress - headPos;
+    if (d > 0.0) d -= 1.0;
+    float trailIntensity = smoothstep(-0.65, 0.0, d);
+    if (d > -0.02 && d <= 0.0) trailIntensity = 1.0; 
+    
+    float butterflyAlpha = (0.1 + trailIntensity * 0.9) * glow;
+    float magicAlpha = glow;
+    
+    // Flicker for sparks
+    if (ringStyle == 1.0) magicAlpha *= 0.5 + 0.5 * sin(uTime * 10.0 + vProgress * 100.0);
+    
+    // Trail fade for rotating orbs
+    if (ringStyle == 2.0) {
+        // Smooth gradient fade from head to tail
+        float smoothFade = smoothstep(0.0, 1.0, vOrbTrail);
+        magicAlpha *= smoothFade;
+        
+        // Solid color gradient from the theme's tail to head color
+        finalRGB = mix(uTrailTail, uTrailHead, vOrbTrail);
+    }
+
+    float alpha = mix(butterflyAlpha, magicAlpha, vMagic);
+    
+    // Apply visibility (hide when hand not detected)
+    alpha *= vVisible;
+    
+    // Apply blast fade out
+    alpha *= vBlastAlpha;
+    
+    // During blast, add bright flash effect
+    if (uBlast > 0.01 && vBlastAlpha > 0.5) {
+        finalRGB = mix(finalRGB, uBlastColor, uBlast * 0.3);
+    }
+
+    gl_FragColor = vec4(finalRGB, alpha);
+  }
+`;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CAMERA, cameraConstraints, describeCameraError } from './camera';
+
+const video = (settings = DEFAULT_CAMERA) => cameraConstraints(settings).video as MediaTrackConstraints;
+
+// Browsers reject getUserMedia with a DOMException-like error carrying the failed constraint
+const overconstrained = (constraint: string) => Object.assign(new Error('Overconstrained'), { name: 'OverconstrainedError', constraint });
+
+describe('cameraConstraints', () => {
+  it('only prefers the default resolution and frame rate', () => {
+    expect(video()).toEqual({ width: { ideal: 320 }, height: { ideal: 240 }, frameRate: { ideal: 30 } });
+  });
+
+  it('requires a resolution, frame rate and device the user picked', () => {
+    expect(video({ ...DEFAULT_CAMERA, deviceId: 'usb', width: 1920, height: 1080, frameRate: 60 })).toEqual({
+      deviceId: { exact: 'usb' },
+      width: { exact: 1920 },
+      height: { exact: 1080 },
+      frameRate: { ideal: 60, min: 59 }
+    });
+  });
+});
+
+describe('describeCameraError', () => {
+  it('tells an unsupported resolution or frame rate apart from a missing camera', () => {
+    expect(describeCameraError(overconstrained('width'))).toMatchObject({ kind: 'overconstrained', hint: expect.stringContaining('resolution') });
+    expect(describeCameraError(overconstrained('frameRate'))).toMatchObject({ kind: 'overconstrained', hint: expect.stringContaining('frame rate') });
+    expect(describeCameraError(overconstrained('deviceId')).kind).toBe('notFound');
+  });
+
+  it('sorts the other getUserMedia failures', () => {
+    const error = (name: string) => Object.assign(new Error(name), { name });
+    expect(describeCameraError(error('NotAllowedError')).kind).toBe('denied');
+    expect(describeCameraError(error('NotReadableError')).kind).toBe('inUse');
+    expect(describeCameraError(error('NotFoundError')).kind).toBe('notFound');
+    expect(describeCameraError(error('SecurityError')).kind).toBe('insecure');
+    expect(describeCameraError(new Error('boom'))).toMatchObject({ kind: 'unknown', hint: expect.stringContaining('boom') });
+  });
+});
@@ -0,0 +1,108 @@
+import { CameraSettings } from '../types';
+
+export const DEFAULT_CAMERA: CameraSettings = {
+  deviceId: '',
+  width: 320,   // Low resolution is plenty for the landmarker and keeps detection fast
+  height: 240,
+  frameRate: 30,
+  mirror: true
+};
+
+export const CAMERA_RESOLUTIONS: { value: string; label: string }[] = [
+  { value: '320x240', label: '320 × 240' },
+  { value: '640x480', label: '640 × 480' },
+  { value: '1280x720', label: '1280 × 720' },
+  { value: '1920x1080', label: '1920 × 1080' }
+];
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+const STORAGE_KEY = 'butterfly-visualizer:camera';
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_CAMERA, ...stored };
+  } catch {
+    return DEFAULT_CAMERA;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// The default resolution and frame rate are only preferences, met as closely as the camera can.
+// Anything the user picked under Camera is required, like the device: a camera that can't deliver
+// it, or was unplugged, reports an error instead of silently opening with something else. The
+// frame rate gets a little slack, since cameras report e.g. 29.97 for 30.
+export const cameraConstraints = (settings: CameraSettings): MediaStreamConstraints => {
+  const pickedResolution = settings.width !== DEFAULT_CAMERA.width || settings.height !== DEFAULT_CAMERA.height;
+  const pickedFrameRate = settings.frameRate !== DEFAULT_CAMERA.frameRate;
+  return {
+    video: {
+      ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+      width: pickedResolution ? { exact: settings.width } : { ideal: settings.width },
+      height: pickedResolution ? { exact: settings.height } : { ideal: settings.height },
+      frameRate: pickedFrameRate ? { ideal: settings.frameRate, min: settings.frameRate - 1 } : { ideal: settings.frameRate }
+    }
+  };
+};
+
+// Video inputs; labels stay empty until the page has camera permission
+export const listCameras = async (): Promise<{ deviceId: string; label: string }[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+export type CameraErrorKind = 'denied' | 'inUse' | 'notFound' | 'overconstrained' | 'insecure' | 'unknown';
+
+export interface CameraError {
+  kind: CameraErrorKind;
+  title: string;
+  hint: string;
+}
+
+const CAMERA_ERRORS: Record<CameraErrorKind, { title: string; hint: string }> = {
+  denied: { title: 'Camera Access Blocked', hint: 'Please allow camera permissions to use hand tracking' },
+  inUse: { title: 'Camera In Use', hint: 'Another app or tab is using the camera. Close it, or pick another camera under Camera.' },
+  notFound: { title: 'No Camera Found', hint: 'Connect a camera, or pick another one under Camera.' },
+  overconstrained: { title: 'Camera Settings Not Supported', hint: 'The camera can\'t deliver the resolution or frame rate picked under Camera. Try a lower one.' },
+  insecure: { title: 'Camera Needs HTTPS', hint: 'Browsers only allow the camera on https:// pages and localhost.' },
+  unknown: { title: 'Camera Unavailable', hint: 'The camera could not be started.' }
+};
+
+// Sorts getUserMedia failures into the states the camera overlay tells apart
+export const describeCameraError = (err: unknown): CameraError => {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  let kind: CameraErrorKind = 'unknown';
+  if (name === 'NotAllowedError' || name === 'PermissionDeniedError') kind = 'denied';
+  else if (name === 'SecurityError') kind = 'insecure';
+  else if (name === 'NotReadableError' || name === 'TrackStartError' || name === 'AbortError') kind = 'inUse';
+  else if (name === 'NotFoundError' || name === 'DevicesNotFoundError') kind = 'notFound';
+  else if (name === 'OverconstrainedError' || name === 'ConstraintNotSatisfiedError') {
+    // An exact deviceId that fails means the chosen camera is gone
+    kind = (err as OverconstrainedError).constraint === 'deviceId' ? 'notFound' : 'overconstrained';
+  }
+
+  const { title, hint } = CAMERA_ERRORS[kind];
+  const detail = kind === 'unknown' && err instanceof Error ? ` ${err.message}` : '';
+  if (kind === 'overconstrained') {
+    // Name the setting the camera rejected when the browser says which
+    const constraint = (err as OverconstrainedError).constraint;
+    const setting = constraint === 'frameRate' ? 'frame rate' : constraint === 'width' || constraint === 'height' ? 'resolution' : null;
+    if (setting) return { kind, title, hint: `The camera can't deliver the ${setting} picked under Camera. Try a lower one.` };
+  }
+  return { kind, title, hint: hint + detail };
+};
+
+// getUserMedia, with a missing API reported the way browsers report it on insecure pages
+export const openCamera = (settings: CameraSettings): Promise<MediaStream> => {
+  if (!window.isSecureContext || !navigator.mediaDevices?.getUserMedia) {
+    return Promise.reject(new DOMException('Camera API unavailable', 'SecurityError'));
+  }
+  return navigator.mediaDevices.getUserMedia(cameraConstraints(settings));
+};
@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+import { HandState, ViewMode } from '../types';
+
+// Camera pose described by what it frames rather than where it sits: the camera is placed
+// along `direction` at whatever distance makes `height` world units fill the view at `fov`.
+// Animating these fields gives dolly-zoom transitions that keep the orb the same size.
+export interface CameraPose {
+  target: THREE.Vector3;     // Look-at point
+  direction: THREE.Vector3;  // Unit vector from target to camera
+  height: number;            // World units visible vertically at the target
+  fov: number;               // Vertical field of view, degrees
+}
+
+export const VIEW_MODE_OPTIONS: { mode: ViewMode; label: string; key: string }[] = [
+  { mode: ViewMode.Orbit, label: 'Orbit', key: '1' },
+  { mode: ViewMode.AutoRotate, label: 'Auto-rotate', key: '2' },
+  { mode: ViewMode.Cinematic, label: 'Cinematic', key: '3' },
+  { mode: ViewMode.TopDown, label: 'Top-down', key: '4' },
+  { mode: ViewMode.HandSteered, label: 'Hand-steered', key: '5' }
+];
+
+// Modes where OrbitControls owns the camera once the transition into them has finished
+export const isFreeViewMode = (mode: ViewMode) => mode === ViewMode.Orbit || mode === ViewMode.AutoRotate;
+
+export const nextViewMode = (mode: ViewMode) => {
+  const index = VIEW_MODE_OPTIONS.findIndex(option => option.mode === mode);
+  return VIEW_MODE_OPTIONS[(index + 1) % VIEW_MODE_OPTIONS.length].mode;
+};
+
+const DEFAULT_FOV = 60;
+const DEFAULT_DISTANCE = 50;
+const frameHeight = (distance: number, fov: number) => 2 * distance * Math.tan(THREE.MathUtils.degToRad(fov) / 2);
+const DEFAULT_HEIGHT = frameHeight(DEFAULT_DISTANCE, DEFAULT_FOV);
+
+export const createCameraPose = (): CameraPose => ({
+  target: new THREE.Vector3(),
+  direction: new THREE.Vector3(0, 0, 1),
+  height: DEFAULT_HEIGHT,
+  fov: DEFAULT_FOV
+});
+
+export const copyCameraPose = (out: CameraPose, pose: CameraPose) => {
+  out.target.copy(pose.target);
+  out.direction.copy(pose.direction);
+  out.height = pose.height;
+  out.fov = pose.fov;
+  return out;
+};
+
+export const cameraDistance = (pose: CameraPose) =>
+  pose.height / (2 * Math.tan(THREE.MathUtils.degToRad(pose.fov) / 2));
+
+// Reads the pose of a camera looking at `target` (e.g. where OrbitControls left it)
+export const poseFromCamera = (camera: THREE.PerspectiveCamera, target: THREE.Vector3, out: CameraPose) => {
+  out.target.copy(target);
+  out.direction.subVectors(camera.position, target);
+  const distance = out.direction.length();
+  out.direction.divideScalar(distance || 1);
+  out.fov = camera.fov;
+  out.height = frameHeight(distance, camera.fov);
+  return out;
+};
+
+export const applyCameraPose = (camera: THREE.PerspectiveCamera, pose: CameraPose) => {
+  camera.position.copy(pose.direction).multiplyScalar(cameraDistance(pose)).add(pose.target);
+  camera.lookAt(pose.target);
+  if (camera.fov !== pose.fov) {
+    camera.fov = pose.fov;
+    camera.updateProjectionMatrix();
+  }
+};
+
+// Frame-rate independent exponential approach of `current` toward `goal`
+export const dampCameraPose = (current: CameraPose, goal: CameraPose, lambda: number, delta: number) => {
+  const t = 1 - Math.exp(-lambda * delta);
+  current.target.lerp(goal.target, t);
+  current.direction.lerp(goal.direction, t).normalize();
+  current.height = THREE.MathUtils.lerp(current.height, goal.height, t);
+  current.fov = THREE.MathUtils.lerp(current.fov, goal.fov, t);
+  return current;
+};
+
+// Largest remaining difference, used to decide when a transition has landed
+export const cameraPoseDistance = (a: CameraPose, b: CameraPose) => Math.max(
+  a.target.distanceTo(b.target),
+  a.direction.distanceTo(b.direction) * cameraDistance(b),
+  Math.abs(a.height - b.height),
+  Math.abs(a.fov - b.fov)
+);
+
+// Closed loop around the orb: sweeping wide passes, a dive close in and a high crossing
+const CINEMATIC_PATH = new THREE.CatmullRomCurve3([
+  new THREE.Vector3(0, 5, 55),
+  new THREE.Vector3(40, 15, 30),
+  new THREE.Vector3(30, -8, -25),
+  new THREE.Vector3(0, 25, -45),
+  new THREE.Vector3(-28, 4, -20),
+  new THREE.Vector3(-18, -10, 22)
+], true, 'centripetal');
+const CINEMATIC_PERIOD = 48;  // Seconds per lap
+const CINEMATIC_FOV = 50;
+const cinematicPoint = new THREE.Vector3();
+
+export const cinematicPose = (timeSeconds: number, out: CameraPose) => {
+  const u = (timeSeconds / CINEMATIC_PERIOD) % 1;
+  CINEMATIC_PATH.getPointAt(u, cinematicPoint);
+  // Let the look-at point drift around the orb's center so the framing breathes
+  out.target.set(Math.sin(u * Math.PI * 4) * 2, Math.cos(u * Math.PI * 2) * 1.5, 0);
+  out.direction.subVectors(cinematicPoint, out.target);
+  const distance = out.direction.length();
+  out.direction.divideScalar(distance);
+  out.fov = CINEMATIC_FOV;
+  out.height = frameHeight(distance, CINEMATIC_FOV);
+  return out;
+};
+
+// Narrow fov from far away approximates an orthographic projection, and unlike swapping in an
+// OrthographicCamera it can be animated smoothly from the perspective modes
+const TOP_DOWN_FOV = 5;
+const TOP_DOWN_HEIGHT = DEFAULT_HEIGHT * 1.2;
+
+export const topDownPose = (out: CameraPose) => {
+  out.target.set(0, 0, 0);
+  // Tiny z component keeps lookAt well-defined with the default +Y up vector
+  out.direction.set(0, 1, 0.001).normalize();
+  out.height = TOP_DOWN_HEIGHT;
+  out.fov = TOP_DOWN_FOV;
+  return out;
+};
+
+const STEER_PAN_RANGE = 40;  // World units panned from screen center to edge
+const STEER_TILT = 0.5;      // Camera lean toward the palm
+
+// Palm offset from screen center pans the view that way; with no hand the view recenters
+export const handSteeredPose = (hand: HandState, out: CameraPose) => {
+  const dx = hand.detected ? hand.palmX - 0.5 : 0;
+  const dy = hand.detected ? 0.5 - hand.palmY : 0;
+  out.target.set(dx * STEER_PAN_RANGE, dy * STEER_PAN_RANGE, 0);
+  out.direction.set(dx * STEER_TILT, dy * STEER_TILT, 1).normalize();
+  out.height = DEFAULT_HEIGHT;
+  out.fov = DEFAULT_FOV;
+  return out;
+};
@@ -0,0 +1,191 @@
+import { RootState, addAfterEffect, advance } from '@react-three/fiber';
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+import { zipSync } from 'fflate';
+import { SceneClock } from './sceneClock';
+
+// What the recorder needs from inside the Canvas; Scene fills this in once the renderer exists
+export interface CaptureTarget {
+  clock: SceneClock;
+  getState: () => RootState;
+}
+
+export type OfflineFormat = 'gif' | 'png';
+
+export interface OfflineCaptureOptions {
+  frames: number;
+  fps: number;
+  format: OfflineFormat;
+  maxWidth: number;             // Output is scaled down to this width, keeping aspect
+  video?: HTMLVideoElement | null;
+  mirrorVideo?: boolean;        // Matches CameraSettings.mirror; defaults to mirrored
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Draws the webcam frame cropped like the `object-cover` <video> (mirrored when it is shown
+// mirrored), then the scene on top
+export const drawComposite = (
+  ctx: CanvasRenderingContext2D,
+  scene: HTMLCanvasElement,
+  video?: HTMLVideoElement | null,
+  mirrorVideo = true
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (video && video.videoWidth > 0) {
+    const cover = Math.max(width / video.videoWidth, height / video.videoHeight);
+    const w = video.videoWidth * cover;
+    const h = video.videoHeight * cover;
+    ctx.save();
+    if (mirrorVideo) {
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, (width - w) / 2, (height - h) / 2, w, h);
+    ctx.restore();
+  }
+
+  ctx.drawImage(scene, 0, 0, width, height);
+};
+
+const createCompositeCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('2D canvas is not available');
+  return { canvas, ctx };
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Records the live canvas (optionally over the webcam) to WebM. Frames are composited right
+// after each render, while the WebGL drawing buffer is still valid.
+export class LiveCanvasRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private removeEffect: (() => void) | null = null;
+
+  get isRecording() {
+    return this.recorder !== null;
+  }
+
+  start(scene: HTMLCanvasElement, video?: HTMLVideoElement | null, fps = 30, mirrorVideo = true) {
+    if (this.recorder) return;
+    if (typeof MediaRecorder === 'undefined') throw new Error('MediaRecorder is not supported in this browser');
+
+    const mimeType = WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const { canvas, ctx } = createCompositeCanvas(scene.width, scene.height);
+    this.removeEffect = addAfterEffect(() => drawComposite(ctx, scene, video, mirrorVideo));
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType, videoBitsPerSecond: 8_000_000 });
+    this.recorder.ondataavailable = event => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start(1000);
+  }
+
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error('Not recording'));
+
+    this.removeEffect?.();
+    this.removeEffect = null;
+    this.recorder = null;
+    return new Promise(resolve => {
+      recorder.onstop = () => resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    });
+  }
+}
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Uint8Array>((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) reject(new Error('Could not encode PNG frame'));
+    else blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/png');
+});
+
+// Renders `frames` frames at a fixed timestep with the live loop paused and encodes them as an
+// animated GIF or a zip of PNGs. Scene time restarts at 0 so the same settings give the same
+// frames; the live view resumes where it was afterwards.
+export const captureOffline = async (target: CaptureTarget, options: OfflineCaptureOptions): Promise<Blob> => {
+  const { clock, getState } = target;
+  const { frames, fps, format, maxWidth, video, mirrorVideo, onProgress } = options;
+  const step = 1 / fps;
+  const scene = getState().gl.domElement;
+  const outputScale = Math.min(1, maxWidth / scene.width);
+  const { canvas, ctx } = createCompositeCanvas(scene.width * outputScale, scene.height * outputScale);
+
+  const gif = format === 'gif' ? GIFEncoder() : null;
+  const pngs: Record<string, Uint8Array> = {};
+  const liveTime = clock.time;
+  // R3F's own clock restarts itself on every advance() and adds the wall time spent encoding to
+  // its delta. Kept stopped, the delta it hands to useFrame is exactly `step`; the live values
+  // are put back afterwards so the first live frame doesn't see the capture as one huge step.
+  const r3fClock = getState().clock;
+  const { autoStart, elapsedTime } = r3fClock;
+
+  getState().setFrameloop('never');
+  r3fClock.autoStart = false;
+  clock.fixedStep = step;
+  clock.time = 0;
+
+  try {
+    for (let i = 0; i < frames; i++) {
+      // A re-render of <Canvas> re-applies its frameloop prop, so re-assert manual mode
+      // (which zeroes R3F's elapsed time, so it is set back to the last frame's timestamp)
+      if (getState().frameloop !== 'never') {
+        getState().setFrameloop('never');
+        r3fClock.elapsedTime = i * step;
+      }
+      // In frameloop="never", R3F's delta is the timestamp difference: `step` per frame
+      advance((i + 1) * step);
+      drawComposite(ctx, scene, video, mirrorVideo);
+
+      if (gif) {
+        const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const palette = quantize(data, 256);
+        gif.writeFrame(applyPalette(data, palette), canvas.width, canvas.height, {
+          palette,
+          delay: Math.round(1000 / fps)
+        });
+      } else {
+        pngs[`frame-${String(i).padStart(4, '0')}.png`] = await canvasToPng(canvas);
+      }
+
+      onProgress?.(i + 1, frames);
+      // Let the UI paint progress between frames
+      await nextTask();
+    }
+  } finally {
+    clock.fixedStep = null;
+    clock.time = liveTime;
+    r3fClock.autoStart = autoStart;
+    getState().setFrameloop('always');
+    r3fClock.elapsedTime = elapsedTime;
+  }
+
+  if (gif) {
+    gif.finish();
+    return new Blob([gif.bytes()], { type: 'image/gif' });
+  }
+  // PNGs are already compressed; store them as-is
+  return new Blob([zipSync(pngs, { level: 0 })], { type: 'application/zip' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
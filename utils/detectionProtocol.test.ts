@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DetectionPort, DetectionResponse, DetectionWorkerClient, createDetectionHandler } from './detectionProtocol';
+import type { DetectionFrame, DetectorOptions, HandDetector } from './handDetection';
+import { OPEN_PALM } from './__fixtures__/hands';
+
+const OPTIONS: DetectorOptions = { wasmLoaderPath: '', wasmBinaryPath: '', modelPath: '', delegate: 'CPU', numHands: 2 };
+
+interface FakeFrame {
+  closed: boolean;
+  close(): void;
+}
+
+const frame = () => {
+  const fake: FakeFrame = { closed: false, close() { this.closed = true; } };
+  return fake as FakeFrame & DetectionFrame;
+};
+
+// Answers every frame with one right hand, or throws for the timestamps listed in `failAt`
+const stubDetector = (failAt: number[] = []): HandDetector => ({
+  detect: (_, timestamp) => {
+    if (failAt.includes(timestamp)) throw new Error(`bad frame ${timestamp}`);
+    return [{ landmarks: OPEN_PALM, handedness: 'right' }];
+  },
+  close: vi.fn()
+});
+
+// A port wired straight to the worker-side handler, delivering messages asynchronously like a worker
+const connect = (createDetector: () => Promise<HandDetector>) => {
+  const port: DetectionPort = {
+    onmessage: null,
+    onerror: null,
+    onmessageerror: null,
+    postMessage: message => queueMicrotask(() => handle(message)),
+    terminate: vi.fn()
+  };
+  const handle = createDetectionHandler(createDetector, response => {
+    queueMicrotask(() => port.onmessage?.({ data: response } as MessageEvent<DetectionResponse>));
+  });
+  return port;
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const startClient = async (detector = stubDetector(), onFailure?: (error: Error) => void) => {
+  const port = connect(async () => detector);
+  const client = new DetectionWorkerClient(port, OPTIONS, onFailure);
+  await client.ready;
+  return { port, client };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('DetectionWorkerClient', () => {
+  it('sends a frame and returns the detected hands once', async () => {
+    const { client } = await startClient();
+    const sent = frame();
+    expect(client.detect(sent, 1)).toBe(true);
+    expect(client.take()).toBeNull();
+    await flush();
+    expect(client.take()).toEqual([{ landmarks: OPEN_PALM, handedness: 'right' }]);
+    expect(client.take()).toBeNull();
+    expect(sent.closed).toBe(true);
+  });
+
+  it('drops frames offered while one is in flight', async () => {
+    const { client } = await startClient();
+    const first = frame();
+    const second = frame();
+    expect(client.detect(first, 1)).toBe(true);
+    expect(client.busy).toBe(true);
+    expect(client.detect(second, 2)).toBe(false);
+    expect(client.dropped).toBe(1);
+    await flush();
+    expect(second.closed).toBe(true);
+    expect(client.busy).toBe(false);
+    expect(client.detect(frame(), 3)).toBe(true);
+  });
+
+  it('takes the slot right away for frames captured asynchronously', async () => {
+    const { client } = await startClient();
+    const pending = new Promise<DetectionFrame>(resolve => setTimeout(() => resolve(frame()), 5));
+    expect(client.detect(pending, 1)).toBe(true);
+    expect(client.detect(frame(), 2)).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await flush();
+    expect(client.busy).toBe(false);
+    expect(client.take()).toHaveLength(1);
+  });
+
+  it('closes every frame, whether detected or dropped', async () => {
+    const { client } = await startClient();
+    const frames = Array.from({ length: 20 }, frame);
+    for (let i = 0; i < frames.length; i++) {
+      client.detect(frames[i], i);
+      if (i % 4 === 3) await flush();
+    }
+    await flush();
+    expect(frames.every(f => f.closed)).toBe(true);
+    expect(client.dropped).toBeGreaterThan(0);
+  });
+
+  it('frees the slot when a frame fails to detect', async () => {
+    const { client } = await startClient(stubDetector([1]));
+    const failing = frame();
+    client.detect(failing, 1);
+    await flush();
+    expect(failing.closed).toBe(true);
+    expect(client.busy).toBe(false);
+    expect(client.take()).toBeNull();
+    expect(client.detect(frame(), 2)).toBe(true);
+  });
+
+  it('frees the slot when a response cannot be read', async () => {
+    const { port, client } = await startClient();
+    client.detect(frame(), 1);
+    port.onmessageerror?.({} as MessageEvent);
+    expect(client.busy).toBe(false);
+  });
+
+  it('rejects ready when the detector cannot start', async () => {
+    const port = connect(() => Promise.reject(new Error('no model')));
+    const client = new DetectionWorkerClient(port, OPTIONS);
+    await expect(client.ready).rejects.toThrow('no model');
+  });
+
+  it('rejects ready when the worker fails to load', async () => {
+    const port = connect(async () => stubDetector());
+    const client = new DetectionWorkerClient(port, OPTIONS);
+    port.onerror?.({ message: 'syntax error' } as ErrorEvent);
+    await expect(client.ready).rejects.toThrow('syntax error');
+  });
+
+  it('reports a worker that dies after it was ready and stops sending frames', async () => {
+    const onFailure = vi.fn();
+    const { port, client } = await startClient(stubDetector(), onFailure);
+    client.detect(frame(), 1);
+    port.onerror?.({ message: 'out of memory' } as ErrorEvent);
+
+    expect(onFailure).toHaveBeenCalledWith(expect.objectContaining({ message: 'out of memory' }));
+    expect(port.terminate).toHaveBeenCalled();
+    expect(client.busy).toBe(false);
+
+    const late = frame();
+    expect(client.detect(late, 2)).toBe(false);
+    await flush();
+    expect(late.closed).toBe(true);
+    expect(client.dropped).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import { HandDetection } from '../types';
+import type { DetectionFrame, DetectorOptions, HandDetector } from './handDetection';
+
+// Messages between HandController and the detection worker. Every 'detect' is answered by
+// exactly one 'result' or 'error', which is what the back-pressure below relies on. An 'error'
+// before 'ready' means the detector couldn't start.
+export type DetectionRequest =
+  | { type: 'init'; options: DetectorOptions }
+  | { type: 'detect'; frame: DetectionFrame; timestamp: number }
+  | { type: 'close' };
+
+export type DetectionResponse =
+  | { type: 'ready' }
+  | { type: 'result'; timestamp: number; hands: HandDetection[] }
+  // Without a timestamp the failed frame is unknown, e.g. a request that couldn't be read
+  | { type: 'error'; timestamp?: number; message: string };
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Worker side: answers requests with whatever detector `createDetector` builds, so the protocol
+// runs just as well against a stub detector outside a worker
+export const createDetectionHandler = (
+  createDetector: (options: DetectorOptions) => Promise<HandDetector>,
+  post: (response: DetectionResponse) => void
+) => {
+  let detector: HandDetector | null = null;
+
+  return async (request: DetectionRequest) => {
+    switch (request.type) {
+      case 'init':
+        try {
+          detector = await createDetector(request.options);
+          post({ type: 'ready' });
+        } catch (err) {
+          post({ type: 'error', message: errorMessage(err) });
+        }
+        break;
+      case 'detect':
+        try {
+          if (!detector) throw new Error('Hand detector is not ready');
+          post({ type: 'result', timestamp: request.timestamp, hands: detector.detect(request.frame, request.timestamp) });
+        } catch (err) {
+          post({ type: 'error', timestamp: request.timestamp, message: errorMessage(err) });
+        } finally {
+          request.frame.close();
+        }
+        break;
+      case 'close':
+        detector?.close();
+        detector = null;
+        break;
+    }
+  };
+};
+
+// The part of a Worker the client uses; tests can pass a port wired straight to a handler
+export interface DetectionPort {
+  postMessage(message: DetectionRequest, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<DetectionResponse>) => void) | null;
+  onerror?: ((event: ErrorEvent) => void) | null;
+  onmessageerror?: ((event: MessageEvent) => void) | null;
+  terminate?(): void;
+}
+
+// Main-thread side. At most one frame is with the worker at a time: frames offered while it is
+// busy are dropped rather than queued, so detection never falls behind the camera.
+export class DetectionWorkerClient {
+  readonly ready: Promise<void>;
+  dropped = 0;  // Frames turned away while the worker was busy
+  failure: Error | null = null;  // Set once the worker has died; no frames are sent after that
+
+  private started = false;
+  private inFlight = false;
+  private latest: HandDetection[] | null = null;
+
+  // `onFailure` hears about a worker that dies after it was ready, so the caller can fall back
+  constructor(
+    private readonly port: DetectionPort,
+    options: DetectorOptions,
+    private readonly onFailure?: (error: Error) => void
+  ) {
+    this.ready = new Promise((resolve, reject) => {
+      port.onmessage = ({ data }) => {
+        if (this.started) this.receive(data);
+        else if (data.type === 'ready') {
+          this.started = true;
+          resolve();
+        } else if (data.type === 'error') reject(new Error(data.message));
+      };
+      port.onerror = event => {
+        const error = new Error(event.message || 'Hand detection worker failed');
+        if (this.started) this.fail(error);
+        else reject(error);
+      };
+    });
+    // A response that couldn't be read still answered the frame in flight
+    port.onmessageerror = () => {
+      this.inFlight = false;
+      console.error('Hand detection result could not be read');
+    };
+    port.postMessage({ type: 'init', options }, []);
+  }
+
+  get busy() {
+    return this.inFlight;
+  }
+
+  // Hands the frame to the worker (transferring it) unless a frame is still being detected.
+  // Capture may be asynchronous (createImageBitmap); the slot is taken right away either way.
+  detect(frame: DetectionFrame | Promise<DetectionFrame>, timestamp: number): boolean {
+    if (this.inFlight || this.failure) {
+      if (this.inFlight) this.dropped++;
+      Promise.resolve(frame).then(dropped => dropped.close(), () => {});
+      return false;
+    }
+    this.inFlight = true;
+    Promise.resolve(frame).then(
+      captured => {
+        if (this.failure) captured.close();
+        else this.port.postMessage({ type: 'detect', frame: captured, timestamp }, [captured]);
+      },
+      err => {
+        this.inFlight = false;
+        console.error('Could not capture a video frame:', err);
+      }
+    );
+    return true;
+  }
+
+  // The newest result not read yet, or null
+  take(): HandDetection[] | null {
+    const hands = this.latest;
+    this.latest = null;
+    return hands;
+  }
+
+  close() {
+    this.port.postMessage({ type: 'close' }, []);
+    this.port.terminate?.();
+  }
+
+  private receive(response: DetectionResponse) {
+    this.inFlight = false;
+    if (response.type === 'result') this.latest = response.hands;
+    else if (response.type === 'error') console.error('Hand detection failed:', response.message);
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.inFlight = false;
+    this.port.terminate?.();
+    this.onFailure?.(error);
+  }
+}
+
+// Starts the detection worker; rejects if it can't load or its detector can't start
+export const spawnDetectionWorker = async (
+  options: DetectorOptions,
+  onFailure?: (error: Error) => void
+): Promise<DetectionWorkerClient> => {
+  const worker = new Worker(new URL('./handDetection.worker.ts', import.meta.url), { type: 'module' });
+  const client = new DetectionWorkerClient(worker, options, onFailure);
+  try {
+    await client.ready;
+  } catch (err) {
+    client.close();
+    throw err;
+  }
+  return client;
+};
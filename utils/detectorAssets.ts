@@ -0,0 +1,110 @@
+import { FilesetResolver } from '@mediapipe/tasks-vision';
+import { DetectorOptions } from './handDetection';
+
+// Everything is served by this app, so hand tracking works offline once the service worker has
+// cached it. The wasm comes straight from the npm package; the model isn't on npm and sits in
+// public/models (scripts/fetch-model.js downloads it before `npm run dev` and `npm run build`).
+const WASM_FILES = {
+  simd: {
+    loader: new URL('../node_modules/@mediapipe/tasks-vision/wasm/vision_wasm_internal.js', import.meta.url).href,
+    binary: new URL('../node_modules/@mediapipe/tasks-vision/wasm/vision_wasm_internal.wasm', import.meta.url).href
+  },
+  noSimd: {
+    loader: new URL('../node_modules/@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.js', import.meta.url).href,
+    binary: new URL('../node_modules/@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.wasm', import.meta.url).href
+  }
+};
+
+export const MODEL_PATH = 'models/hand_landmarker.task';  // Relative to the page
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export interface LoadProgress {
+  label: string;
+  fraction: number | null;  // null while the total size is unknown
+}
+
+// Names the file that failed, so the message says what is missing, where it was expected and,
+// for files that don't come with the app, how to get them
+export class AssetLoadError extends Error {
+  constructor(readonly label: string, readonly url: string, detail: string, hint?: string) {
+    super(`${label} could not be loaded from ${url} (${detail})${hint ? `. ${hint}` : ''}`);
+    this.name = 'AssetLoadError';
+  }
+}
+
+interface Asset {
+  label: string;
+  url: string;
+  type: string;
+  hint?: string;
+}
+
+const MODEL_HINT = `Run "npm run fetch-model", or download ${MODEL_URL} to public/${MODEL_PATH}`;
+
+// Reads the response in chunks to report progress. Static hosts (and the dev server) answer
+// unknown paths with index.html, so an HTML response counts as missing too.
+const fetchAsset = async (asset: Asset, onBytes: (loaded: number, total: number | null) => void): Promise<Blob> => {
+  let response: Response;
+  try {
+    response = await fetch(asset.url);
+  } catch (err) {
+    throw new AssetLoadError(asset.label, asset.url, err instanceof Error ? err.message : String(err), asset.hint);
+  }
+  if (!response.ok) throw new AssetLoadError(asset.label, asset.url, `HTTP ${response.status}`, asset.hint);
+  if (response.headers.get('content-type')?.includes('text/html')) throw new AssetLoadError(asset.label, asset.url, 'file not found', asset.hint);
+
+  const length = Number(response.headers.get('content-length'));
+  const total = length > 0 ? length : null;
+  if (!response.body) return new Blob([await response.arrayBuffer()], { type: asset.type });
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onBytes(loaded, total);
+  }
+  return new Blob(chunks, { type: asset.type });
+};
+
+// Downloads the detector's runtime and model with progress, and returns options pointing at
+// blob: URLs of the downloaded files, which the detection worker can load as well. Release them
+// with releaseDetectorAssets once the detector has started.
+export const loadDetectorAssets = async (onProgress: (progress: LoadProgress) => void): Promise<DetectorOptions> => {
+  const wasm = (await FilesetResolver.isSimdSupported()) ? WASM_FILES.simd : WASM_FILES.noSimd;
+  const assets: Asset[] = [
+    { label: 'Hand tracking runtime', url: wasm.loader, type: 'text/javascript' },
+    { label: 'Hand tracking runtime', url: wasm.binary, type: 'application/wasm' },
+    { label: 'Hand model', url: new URL(MODEL_PATH, document.baseURI).href, type: 'application/octet-stream', hint: MODEL_HINT }
+  ];
+
+  const loaded = assets.map(() => 0);
+  const totals = assets.map((): number | null => null);
+  const report = () => {
+    const total = totals.reduce<number | null>((sum, size) => (sum === null || size === null ? null : sum + size), 0);
+    const fraction = total ? loaded.reduce((sum, bytes) => sum + bytes, 0) / total : null;
+    onProgress({ label: 'Loading hand tracking', fraction });
+  };
+  report();
+
+  const [loader, binary, model] = await Promise.all(assets.map((asset, i) => fetchAsset(asset, (bytes, total) => {
+    loaded[i] = bytes;
+    totals[i] = total;
+    report();
+  })));
+
+  return {
+    wasmLoaderPath: URL.createObjectURL(loader),
+    wasmBinaryPath: URL.createObjectURL(binary),
+    modelPath: URL.createObjectURL(model),
+    delegate: 'GPU',
+    numHands: 2
+  };
+};
+
+// Frees the downloaded files (several megabytes) once a detector has read them
+export const releaseDetectorAssets = (options: DetectorOptions) => {
+  [options.wasmLoaderPath, options.wasmBinaryPath, options.modelPath].forEach(url => URL.revokeObjectURL(url));
+};
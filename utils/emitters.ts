@@ -0,0 +1,163 @@
+import * as THREE from 'three';
+import { EmitterAnchor, EmitterConfig, EmitterShape } from '../types';
+
+export const MAX_EMITTERS = 8;
+const MAX_EMITTER_PARTICLES = 32768;
+
+export const EMITTER_ANCHORS: { value: EmitterAnchor; label: string }[] = [
+  { value: 'orb', label: 'Orb' },
+  { value: 'magicCircle', label: 'Magic circle' },
+  { value: 'fingertips', label: 'Fingertips' }
+];
+
+// `spread` is the depth jitter for 'curve' and the radius for the others
+export const EMITTER_SHAPES: { value: EmitterShape; label: string }[] = [
+  { value: 'curve', label: 'Butterfly curve' },
+  { value: 'sphere', label: 'Sphere' },
+  { value: 'ring', label: 'Ring' },
+  { value: 'point', label: 'Point' }
+];
+
+// Template for new emitters: the butterfly-curve dust the scene started with
+export const DEFAULT_EMITTER: EmitterConfig = {
+  name: 'Curve dust',
+  enabled: true,
+  anchor: 'orb',
+  shape: 'curve',
+  spread: 0.5,        // Thickness of the dust ribbon
+  rate: 600,
+  lifetime: 2,
+  gravity: 2,
+  drift: 0.3,
+  size: 4,
+  startColor: '#c4b5fd',
+  endColor: '#8b5cf6'
+};
+
+export const DEFAULT_EMITTERS: EmitterConfig[] = [
+  DEFAULT_EMITTER,
+  {
+    name: 'Circle embers',
+    enabled: false,
+    anchor: 'magicCircle',
+    shape: 'ring',
+    spread: 10.5,     // Outer edge of the magic circle
+    rate: 300,
+    lifetime: 1.5,
+    gravity: -1.5,    // Embers rise
+    drift: 0.6,
+    size: 5,
+    startColor: '#00ffff',
+    endColor: '#8000ff'
+  },
+  {
+    name: 'Fingertip sparks',
+    enabled: false,
+    anchor: 'fingertips',
+    shape: 'point',
+    spread: 0.4,
+    rate: 40,         // Per fingertip
+    lifetime: 1,
+    gravity: 4,
+    drift: 0.2,
+    size: 3,
+    startColor: '#ffffff',
+    endColor: '#00b0ff'
+  }
+];
+
+// How strongly the butterfly an emitter is attached to shows right now, written every frame
+// by InteractiveButterfly
+export interface AnchorState {
+  visible: boolean;  // A hand is driving it
+  magic: number;     // 0 = orb / butterfly, 1 = magic circle
+}
+
+// Slots for `sources` copies of an emitter (one per fingertip), rounded up to a power of two so
+// small rate and lifetime edits keep the same buffers
+export const emitterCapacity = (config: EmitterConfig, sources: number) => {
+  const needed = Math.max(1, Math.ceil(config.rate * config.lifetime * sources * 1.1));
+  return Math.min(MAX_EMITTER_PARTICLES, 2 ** Math.ceil(Math.log2(needed)));
+};
+
+// Random birth point on the shape, in the anchor's local frame. `curve` picks one of the
+// butterfly curve points (xyz triples) and spreads it in depth.
+export const sampleEmitterShape = (
+  shape: EmitterShape,
+  spread: number,
+  curve: Float32Array,
+  out: THREE.Vector3
+) => {
+  switch (shape) {
+    case 'curve': {
+      const i = Math.floor(Math.random() * (curve.length / 3)) * 3;
+      return out.set(curve[i], curve[i + 1], curve[i + 2] + (Math.random() - 0.5) * spread);
+    }
+    case 'sphere':
+      return out.randomDirection().multiplyScalar(spread);
+    case 'ring': {
+      const angle = Math.random() * Math.PI * 2;
+      return out.set(Math.cos(angle) * spread, Math.sin(angle) * spread, 0);
+    }
+    case 'point':
+      return out.randomDirection().multiplyScalar(spread * Math.random());
+  }
+};
+
+// CPU particles of one emitter, simulated in world space so they stay where they were born
+// when the anchor moves on. Slots form a ring: when all are alive, the oldest is reborn.
+export class EmitterParticles {
+  readonly positions: Float32Array;  // xyz, world space
+  readonly ages: Float32Array;       // Fraction of the lifetime lived; 1 = dead
+  private readonly velocities: Float32Array;
+  private readonly lifetimes: Float32Array;
+  private readonly seeds: Float32Array;
+  private cursor = 0;
+  private debt = 0;
+
+  constructor(readonly capacity: number) {
+    this.positions = new Float32Array(capacity * 3);
+    this.velocities = new Float32Array(capacity * 3);
+    this.ages = new Float32Array(capacity).fill(1);
+    this.lifetimes = new Float32Array(capacity).fill(1);
+    this.seeds = new Float32Array(capacity);
+  }
+
+  // Whole particles due after dt at `rate` per second; fractions carry over to the next frame
+  due(rate: number, dt: number) {
+    this.debt += Math.max(rate, 0) * dt;
+    const count = Math.floor(this.debt);
+    this.debt -= count;
+    return Math.min(count, this.capacity);
+  }
+
+  spawn(position: THREE.Vector3, lifetime: number) {
+    const slot = this.cursor;
+    this.positions[slot * 3] = position.x;
+    this.positions[slot * 3 + 1] = position.y;
+    this.positions[slot * 3 + 2] = position.z;
+    this.velocities.fill(0, slot * 3, slot * 3 + 3);
+    this.ages[slot] = 0;
+    this.lifetimes[slot] = Math.max(lifetime, 1e-3);
+    this.seeds[slot] = Math.random();
+    this.cursor = (slot + 1) % this.capacity;
+  }
+
+  // Ages, falls and drifts every live particle by dt; `time` phases the drift
+  update(config: EmitterConfig, dt: number, time: number) {
+    const { positions, velocities, ages, lifetimes, seeds } = this;
+    for (let i = 0; i < this.capacity; i++) {
+      if (ages[i] >= 1) continue;
+      ages[i] = Math.min(ages[i] + dt / lifetimes[i], 1);
+
+      velocities[i * 3 + 1] -= config.gravity * dt;
+      // Slow sideways wander, out of phase per particle
+      const driftX = Math.sin(time * 1.5 + seeds[i] * 10) * config.drift;
+      const driftZ = Math.cos(time * 1.1 + seeds[i] * 7) * config.drift * 0.5;
+
+      positions[i * 3] += (velocities[i * 3] + driftX) * dt;
+      positions[i * 3 + 1] += velocities[i * 3 + 1] * dt;
+      positions[i * 3 + 2] += (velocities[i * 3 + 2] + driftZ) * dt;
+    }
+  }
+}
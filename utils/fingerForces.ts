@@ -0,0 +1,23 @@
+import { FingerForces, FingerName } from '../types';
+
+// Same order as HandState.fingerTips
+export const FINGER_NAMES: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+export const DEFAULT_FINGER_FORCES: FingerForces = {
+  enabled: true,
+  thumbRadius: 7,
+  thumbStrength: 3,
+  indexRadius: 8,   // Pointing finger stirs the most
+  indexStrength: 4,
+  middleRadius: 8,
+  middleStrength: 3.5,
+  ringRadius: 7,
+  ringStrength: 3,
+  pinkyRadius: 6,
+  pinkyStrength: 2.5
+};
+
+export const fingerForce = (forces: FingerForces, finger: FingerName) => ({
+  radius: forces[`${finger}Radius` as const],
+  strength: forces[`${finger}Strength` as const]
+});
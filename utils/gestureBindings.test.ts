@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { GestureAction, GestureBindings, GestureName, HandsState, Landmark } from '../types';
+import { DEFAULT_GESTURE_BINDINGS, GESTURE_TIMING, GestureRecognizer } from './gestureBindings';
+import { GESTURE_THRESHOLDS, computeHandsState, createHandsState } from './gestures';
+import { FIST, OPEN_PALM, PEACE, POINT, THUMBS_UP, moveHand } from './__fixtures__/hands';
+
+const FRAME_MS = 1000 / 30;
+
+// Feeds one right hand per frame (null = no hand) through the recognizer, like HandController
+// does, and collects what it reports
+const session = (bindings: GestureBindings = DEFAULT_GESTURE_BINDINGS) => {
+  const recognizer = new GestureRecognizer();
+  let hands: HandsState = createHandsState();
+  let now = 0;
+  const started: GestureName[] = [];
+  const actions: GestureAction[] = [];
+  const frame = (landmarks: Landmark[] | null) => {
+    now += FRAME_MS;
+    const detections = landmarks ? [{ landmarks, handedness: 'right' as const }] : [];
+    const result = recognizer.update(computeHandsState(detections, hands, GESTURE_THRESHOLDS, false), now, bindings);
+    hands = result.hands;
+    started.push(...result.started.map(entry => entry.gesture));
+    actions.push(...result.actions);
+    return result.hands.right;
+  };
+  const hold = (landmarks: Landmark[] | null, ms: number) => {
+    for (let t = 0; t < ms; t += FRAME_MS) frame(landmarks);
+  };
+  return { frame, hold, started, actions };
+};
+
+describe('GestureRecognizer', () => {
+  it.each([
+    ['fist', FIST],
+    ['openPalm', OPEN_PALM],
+    ['point', POINT],
+    ['peace', PEACE],
+    ['thumbsUp', THUMBS_UP]
+  ] as const)('recognizes %s once it has been held for confirmMs', (gesture, landmarks) => {
+    const { hold, started } = session();
+    hold(landmarks, GESTURE_TIMING.confirmMs - FRAME_MS);
+    expect(started).not.toContain(gesture);
+    hold(landmarks, 500);
+    expect(started.filter(name => name === gesture)).toEqual([gesture]);
+  });
+
+  it('leaves the peace sign and thumbs up unbound by default', () => {
+    const { hold, actions, started } = session();
+    hold(PEACE, 300);
+    hold(null, 100);
+    hold(THUMBS_UP, 300);
+    expect(started).toEqual(expect.arrayContaining(['peace', 'thumbsUp']));
+    expect(actions).toEqual([]);
+  });
+
+  it('fires a bound action once per pose and again after the pose ends', () => {
+    const { hold, actions } = session({ ...DEFAULT_GESTURE_BINDINGS, peace: 'nextTheme' });
+    hold(PEACE, 1000);
+    expect(actions).toEqual(['nextTheme']);
+    hold(OPEN_PALM, 200);
+    hold(PEACE, 300);
+    expect(actions).toEqual(['nextTheme', 'nextTheme']);
+  });
+
+  it('blasts while the fist lasts with the default bindings', () => {
+    const { frame, hold } = session();
+    hold(FIST, 100);
+    expect(frame(FIST).blast).toBe(1);
+    expect(frame(OPEN_PALM).blast).toBe(0);
+  });
+
+  it('turns an open palm held still into openPalmHold, once', () => {
+    const { hold, started } = session();
+    hold(OPEN_PALM, GESTURE_TIMING.holdMs - 100);
+    expect(started).not.toContain('openPalmHold');
+    hold(OPEN_PALM, 1000);
+    expect(started.filter(name => name === 'openPalmHold')).toHaveLength(1);
+  });
+
+  it('swipes in the direction the palm travels, past the distance threshold only', () => {
+    const swipe = (dx: number, dy: number) => {
+      const { frame, hold, started } = session();
+      hold(OPEN_PALM, 100);
+      // Four frames cover the swipe window
+      for (let i = 1; i <= 4; i++) frame(moveHand(OPEN_PALM, (dx * i) / 4, (dy * i) / 4));
+      return started.filter(name => name.startsWith('swipe'));
+    };
+    const far = GESTURE_TIMING.swipeDistance * 1.2;
+    expect(swipe(far, 0)).toEqual(['swipeRight']);
+    expect(swipe(-far, 0)).toEqual(['swipeLeft']);
+    expect(swipe(0, -far)).toEqual(['swipeUp']);
+    expect(swipe(0, far)).toEqual(['swipeDown']);
+    expect(swipe(GESTURE_TIMING.swipeDistance * 0.8, 0)).toEqual([]);
+  });
+
+  it('ignores the hand coming back after a swipe', () => {
+    const { frame, hold, started } = session();
+    hold(OPEN_PALM, 100);
+    const far = GESTURE_TIMING.swipeDistance * 1.2;
+    for (let i = 1; i <= 4; i++) frame(moveHand(OPEN_PALM, (far * i) / 4));
+    for (let i = 3; i >= 0; i--) frame(moveHand(OPEN_PALM, (far * i) / 4));
+    expect(started.filter(name => name.startsWith('swipe'))).toEqual(['swipeRight']);
+  });
+});
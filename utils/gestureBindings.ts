@@ -0,0 +1,149 @@
+import { GestureAction, GestureBindings, GestureName, HandState, Handedness, HandsState } from '../types';
+
+export const GESTURES: { value: GestureName; label: string }[] = [
+  { value: 'fist', label: 'Fist' },
+  { value: 'openPalm', label: 'Open palm' },
+  { value: 'openPalmHold', label: 'Open palm, held' },
+  { value: 'point', label: 'Point' },
+  { value: 'peace', label: 'Peace sign' },
+  { value: 'thumbsUp', label: 'Thumbs up' },
+  { value: 'swipeLeft', label: 'Swipe left' },
+  { value: 'swipeRight', label: 'Swipe right' },
+  { value: 'swipeUp', label: 'Swipe up' },
+  { value: 'swipeDown', label: 'Swipe down' }
+];
+
+export const GESTURE_ACTIONS: { value: GestureAction; label: string }[] = [
+  { value: 'none', label: 'Nothing' },
+  { value: 'blast', label: 'Blast (while held)' },
+  { value: 'nextTheme', label: 'Next theme' },
+  { value: 'previousTheme', label: 'Previous theme' },
+  { value: 'cycleRingLayers', label: 'Rotate circle layers' },
+  { value: 'nextViewMode', label: 'Next view mode' },
+  { value: 'toggleRecording', label: 'Landmark recording' }
+];
+
+// The fist blasts as it always has; everything else starts unbound, since these poses and swipes
+// come up while steering the orb and the circle and shouldn't switch theme or view unasked.
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  fist: 'blast',
+  openPalm: 'none',
+  openPalmHold: 'none',
+  point: 'none',
+  peace: 'none',
+  thumbsUp: 'none',
+  swipeLeft: 'none',
+  swipeRight: 'none',
+  swipeUp: 'none',
+  swipeDown: 'none'
+};
+
+// Timing for the gestures that aren't a single-frame pose (screen fractions and milliseconds)
+export const GESTURE_TIMING = {
+  confirmMs: 120,       // A pose must last this long before its one-shot action fires
+  holdMs: 1000,         // Open palm kept this long becomes openPalmHold
+  holdMaxDrift: 0.05,   // Palm movement that still counts as holding still
+  swipeWindowMs: 150,   // Palm travel is measured over this window...
+  swipeDistance: 0.2,   // ...and must cover this much of the screen
+  swipeActiveMs: 250,   // How long a swipe stays active, e.g. for a swipe bound to blast
+  swipeCooldownMs: 600  // Ignores the hand coming back after a swipe
+};
+
+const isSwipe = (gesture: GestureName) => gesture.startsWith('swipe');
+
+// Recognizes one hand's gestures over time from its per-frame pose and palm position
+class HandGestureTracker {
+  active = new Set<GestureName>();
+
+  private since = new Map<GestureName, number>();
+  private fired = new Set<GestureName>();
+  private holdOrigin: { x: number; y: number; t: number } | null = null;
+  private trail: { x: number; y: number; t: number }[] = [];
+  private swipe: { gesture: GestureName; until: number } | null = null;
+  private lastSwipe = -Infinity;
+
+  // Updates the active gestures; returns those that start counting this frame
+  update(hand: HandState, now: number): GestureName[] {
+    const active = new Set<GestureName>();
+    if (hand.detected) {
+      if (hand.pose !== 'none') active.add(hand.pose);
+
+      if (hand.pose !== 'openPalm') {
+        this.holdOrigin = null;
+      } else if (!this.holdOrigin || Math.hypot(hand.palmX - this.holdOrigin.x, hand.palmY - this.holdOrigin.y) > GESTURE_TIMING.holdMaxDrift) {
+        this.holdOrigin = { x: hand.palmX, y: hand.palmY, t: now };
+      } else if (now - this.holdOrigin.t >= GESTURE_TIMING.holdMs) {
+        active.add('openPalmHold');
+      }
+
+      this.trail.push({ x: hand.palmX, y: hand.palmY, t: now });
+      this.trail = this.trail.filter(point => now - point.t <= GESTURE_TIMING.swipeWindowMs);
+      const dx = hand.palmX - this.trail[0].x;
+      const dy = hand.palmY - this.trail[0].y;
+      if (now - this.lastSwipe >= GESTURE_TIMING.swipeCooldownMs && Math.hypot(dx, dy) >= GESTURE_TIMING.swipeDistance) {
+        const gesture = Math.abs(dx) > Math.abs(dy)
+          ? (dx > 0 ? 'swipeRight' : 'swipeLeft')
+          : (dy > 0 ? 'swipeDown' : 'swipeUp');
+        this.swipe = { gesture, until: now + GESTURE_TIMING.swipeActiveMs };
+        this.lastSwipe = now;
+        this.trail = [];
+      }
+    } else {
+      this.holdOrigin = null;
+      this.trail = [];
+    }
+    if (this.swipe && now < this.swipe.until) active.add(this.swipe.gesture);
+    else this.swipe = null;
+
+    // Ended gestures may start again; a pose fires once it has lasted confirmMs, a swipe at once
+    [...this.since.keys()].filter(gesture => !active.has(gesture)).forEach(gesture => {
+      this.since.delete(gesture);
+      this.fired.delete(gesture);
+    });
+    const started: GestureName[] = [];
+    active.forEach(gesture => {
+      if (!this.since.has(gesture)) this.since.set(gesture, now);
+      const confirmMs = isSwipe(gesture) ? 0 : GESTURE_TIMING.confirmMs;
+      if (!this.fired.has(gesture) && now - this.since.get(gesture)! >= confirmMs) {
+        this.fired.add(gesture);
+        started.push(gesture);
+      }
+    });
+
+    this.active = active;
+    return started;
+  }
+}
+
+// Applies a binding table to the hand stream. 'blast' follows its gestures while they last and
+// is written into HandState.blast; the other actions are returned once when a gesture starts.
+export class GestureRecognizer {
+  private trackers: Record<Handedness, HandGestureTracker> = {
+    left: new HandGestureTracker(),
+    right: new HandGestureTracker()
+  };
+
+  update(hands: HandsState, nowMs: number, bindings: GestureBindings): {
+    hands: HandsState;
+    actions: GestureAction[];
+    started: { hand: Handedness; gesture: GestureName }[];  // Every gesture that started, bound or not
+  } {
+    const actions = new Set<GestureAction>();
+    const started: { hand: Handedness; gesture: GestureName }[] = [];
+    const bind = (side: Handedness): HandState => {
+      const tracker = this.trackers[side];
+      tracker.update(hands[side], nowMs).forEach(gesture => {
+        started.push({ hand: side, gesture });
+        const action = bindings[gesture];
+        if (action !== 'none' && action !== 'blast') actions.add(action);
+      });
+      const blast = [...tracker.active].some(gesture => bindings[gesture] === 'blast');
+      return { ...hands[side], blast: blast ? 1 : 0 };
+    };
+    return {
+      hands: { ...hands, left: bind('left'), right: bind('right') },
+      actions: [...actions],
+      started
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { GESTURE_THRESHOLDS, classifyFinger, computeHandState, computeHandsState, createHandsState, describeHand, isValidHand, pinchStrength } from './gestures';
+import { AT_EDGE, FIST, NON_FINITE, OPEN_PALM, PEACE, PINCH, POINT, ROTATED_PALM, THUMBS_UP, TRUNCATED } from './__fixtures__/hands';
+
+describe('pinchStrength', () => {
+  const { pinchTouching, pinchRange } = GESTURE_THRESHOLDS;
+
+  it('is 0 at or below the touching distance', () => {
+    expect(pinchStrength(0)).toBe(0);
+    expect(pinchStrength(pinchTouching)).toBe(0);
+  });
+
+  it('is 1 at or beyond touching + range', () => {
+    expect(pinchStrength(pinchTouching + pinchRange)).toBe(1);
+    expect(pinchStrength(1)).toBe(1);
+  });
+
+  it('is linear in between', () => {
+    expect(pinchStrength(pinchTouching + pinchRange / 2)).toBeCloseTo(0.5);
+  });
+});
+
+describe('classifyFinger', () => {
+  it('reads extended and curled fingers from the tip / knuckle ratio', () => {
+    expect([0, 1, 2, 3, 4].map(finger => classifyFinger(OPEN_PALM, finger))).toEqual(Array(5).fill('extended'));
+    expect([1, 2, 3, 4].map(finger => classifyFinger(FIST, finger))).toEqual(Array(4).fill('curled'));
+  });
+
+  it('is neutral between the curled and extended ratios', () => {
+    // Index tip at 0.29 from the wrist against a knuckle at 0.15: ratio ~1.93
+    expect(classifyFinger(OPEN_PALM, 1, { ...GESTURE_THRESHOLDS, extendedRatio: 2 })).toBe('neutral');
+    expect(classifyFinger(FIST, 1, { ...GESTURE_THRESHOLDS, curledRatio: 0.5 })).toBe('neutral');
+  });
+});
+
+describe('describeHand', () => {
+  it('recognises an open palm', () => {
+    const gesture = describeHand(OPEN_PALM)!;
+    expect(gesture.pose).toBe('openPalm');
+    expect(gesture.fingersExtended).toBe(4);
+    expect(gesture.pinch).toBe(1);
+    // Upright, give or take the middle finger's 5 degree splay
+    expect(gesture.rotation).toBeCloseTo((-5 * Math.PI) / 180);
+  });
+
+  it('measures a pinch without changing the pose', () => {
+    const gesture = describeHand(PINCH)!;
+    expect(gesture.pinch).toBe(0);
+    expect(gesture.pinchPoint.x).toBeCloseTo((PINCH[4].x + PINCH[8].x) / 2);
+  });
+
+  it('recognises a fist', () => {
+    const gesture = describeHand(FIST)!;
+    expect(gesture.isFist).toBe(true);
+    expect(gesture.fingersCurled).toBe(4);
+    expect(gesture.pose).toBe('fist');
+  });
+
+  it('recognises point, peace and thumbs up', () => {
+    expect(describeHand(POINT)!.pose).toBe('point');
+    expect(describeHand(PEACE)!.pose).toBe('peace');
+    expect(describeHand(THUMBS_UP)!.pose).toBe('thumbsUp');
+  });
+
+  it('reports the roll of a rotated hand and keeps its pose', () => {
+    const gesture = describeHand(ROTATED_PALM)!;
+    expect(gesture.pose).toBe('openPalm');
+    // The middle finger splays 5 degrees off the wrist -> knuckle line
+    expect(gesture.rotation).toBeCloseTo(Math.PI / 2 - (5 * Math.PI) / 180);
+  });
+
+  describe('pose precedence', () => {
+    it('puts the fist before every other pose', () => {
+      // A loose pinch allowance makes the pointing hand (three fingers curled) a fist too
+      const thresholds = { ...GESTURE_THRESHOLDS, fistMaxPinch: 1.1 };
+      expect(describeHand(POINT, thresholds)!.pose).toBe('fist');
+    });
+
+    it('puts the open palm before peace', () => {
+      const thresholds = { ...GESTURE_THRESHOLDS, openPalmMinExtended: 2 };
+      expect(describeHand(PEACE, thresholds)!.pose).toBe('openPalm');
+    });
+
+    it('puts peace before point', () => {
+      // Peace also has the index extended and the rest of the point shape
+      expect(describeHand(PEACE)!.pose).not.toBe('point');
+    });
+  });
+});
+
+describe('isValidHand', () => {
+  it('accepts a complete hand, even partly out of frame', () => {
+    expect(isValidHand(OPEN_PALM)).toBe(true);
+    expect(AT_EDGE.some(lm => lm.x < 0)).toBe(true);
+    expect(isValidHand(AT_EDGE)).toBe(true);
+  });
+
+  it('rejects missing, partial and non-finite landmark sets', () => {
+    expect(isValidHand(undefined)).toBe(false);
+    expect(isValidHand(TRUNCATED)).toBe(false);
+    expect(isValidHand(NON_FINITE)).toBe(false);
+    expect(describeHand(TRUNCATED)).toBeNull();
+    expect(computeHandState(NON_FINITE)).toBeNull();
+  });
+
+  it('keeps the previous pose when a detection is unusable', () => {
+    const previous = computeHandsState([{ landmarks: OPEN_PALM, handedness: 'right' }], createHandsState());
+    const next = computeHandsState([{ landmarks: NON_FINITE, handedness: 'right' }], previous);
+    expect(next.right.detected).toBe(false);
+    expect(next.right.x).toBe(previous.right.x);
+  });
+});
+
+describe('computeHandState', () => {
+  it('mirrors x and direction for the selfie view only', () => {
+    const mirrored = computeHandState(OPEN_PALM)!;
+    const plain = computeHandState(OPEN_PALM, GESTURE_THRESHOLDS, false)!;
+    expect(mirrored.x).toBeCloseTo(1 - plain.x);
+    expect(mirrored.fingerTips[1].dirX).toBeCloseTo(-plain.fingerTips[1].dirX);
+    expect(mirrored.rotation).toBeCloseTo(-plain.rotation);
+  });
+
+  it('blasts on a fist', () => {
+    expect(computeHandState(FIST)!.blast).toBe(1);
+    expect(computeHandState(OPEN_PALM)!.blast).toBe(0);
+  });
+});
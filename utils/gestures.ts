@@ -0,0 +1,256 @@
+import {
+  FingerTip, FingerState, HandBinding, HandDetection, HandGesture, HandPose, HandState, Handedness, HandsState, Landmark,
+  ModeLock, TwoHandState
+} from '../types';
+
+// Tunable thresholds for gesture recognition (all in normalized image units)
+export const GESTURE_THRESHOLDS = {
+  pinchTouching: 0.02,  // Thumb-index distance considered touching (pinch = 0)
+  pinchRange: 0.15,     // Distance above touching that maps to fully open (pinch = 1)
+  extendedRatio: 1.2,   // Tip further than MCP * ratio from the wrist = extended
+  curledRatio: 0.9,     // Tip closer than MCP * ratio to the wrist = curled
+  fistMinCurled: 3,     // Curled fingers (thumb excluded) needed for a fist
+  fistMaxPinch: 0.3,    // Fist also requires the thumb tucked near the index
+  openPalmMinExtended: 4,
+  thumbsUpMargin: 0.04  // Thumb tip this far above the index knuckle for a thumbs up
+};
+
+export type GestureThresholds = typeof GESTURE_THRESHOLDS;
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const FINGER_TIP_INDICES = [4, 8, 12, 16, 20];  // thumb, index, middle, ring, pinky
+export const FINGER_MCP_INDICES = [2, 5, 9, 13, 17];   // Base knuckles for each finger
+const PALM_INDICES = [0, 1, 5, 9, 13, 17];             // Wrist and base of all fingers
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const LANDMARK_COUNT = 21;
+
+// Pinch strengths over which the orb opens into the magic circle
+export const MAGIC_PINCH_RANGE = [0.3, 0.8] as const;
+
+const smoothstep = (x: number, min: number, max: number) => {
+  const t = Math.min(Math.max((x - min) / (max - min), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+// How far a hand has opened the orb into the magic circle (0 = orb, 1 = circle); a mode lock
+// pins it to one end
+export const magicAmount = (pinch: number, modeLock?: ModeLock) =>
+  modeLock ? (modeLock === 'magicCircle' ? 1 : 0) : smoothstep(pinch, MAGIC_PINCH_RANGE[0], MAGIC_PINCH_RANGE[1]);
+
+const distance2D = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Normalized pinch strength: 0 when touching, 1 when fully open
+export const pinchStrength = (distance: number, thresholds: GestureThresholds = GESTURE_THRESHOLDS) =>
+  Math.min(Math.max((distance - thresholds.pinchTouching) / thresholds.pinchRange, 0), 1);
+
+// Finger is extended if tip is further from wrist than MCP, curled if noticeably closer
+export const classifyFinger = (
+  landmarks: Landmark[],
+  finger: number,
+  thresholds: GestureThresholds = GESTURE_THRESHOLDS
+): FingerState => {
+  const wrist = landmarks[WRIST];
+  const tipDist = distance2D(landmarks[FINGER_TIP_INDICES[finger]], wrist);
+  const mcpDist = distance2D(landmarks[FINGER_MCP_INDICES[finger]], wrist);
+
+  if (tipDist > mcpDist * thresholds.extendedRatio) return 'extended';
+  if (tipDist < mcpDist * thresholds.curledRatio) return 'curled';
+  return 'neutral';
+};
+
+// A landmark set is usable when all 21 points are present and finite.
+// Points outside 0..1 (partially out of frame) are still accepted.
+export const isValidHand = (landmarks: Landmark[] | undefined): landmarks is Landmark[] =>
+  !!landmarks && landmarks.length >= LANDMARK_COUNT &&
+  landmarks.every(lm => Number.isFinite(lm.x) && Number.isFinite(lm.y) && Number.isFinite(lm.z));
+
+// Full gesture analysis of one hand, in unmirrored camera coordinates
+export const describeHand = (
+  landmarks: Landmark[],
+  thresholds: GestureThresholds = GESTURE_THRESHOLDS
+): HandGesture | null => {
+  if (!isValidHand(landmarks)) return null;
+
+  // 1. Pinch point (midpoint between thumb tip and index tip)
+  const thumbTip = landmarks[4];
+  const indexTip = landmarks[8];
+  const pinchPoint = { x: (thumbTip.x + indexTip.x) / 2, y: (thumbTip.y + indexTip.y) / 2 };
+
+  // 2. Palm center (average of wrist and base of all fingers)
+  const palmCenter = { x: 0, y: 0 };
+  PALM_INDICES.forEach(idx => {
+    palmCenter.x += landmarks[idx].x / PALM_INDICES.length;
+    palmCenter.y += landmarks[idx].y / PALM_INDICES.length;
+  });
+
+  // 3. Pinch distance (3D, includes depth)
+  const pinchDistance = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y, thumbTip.z - indexTip.z);
+  const pinch = pinchStrength(pinchDistance, thresholds);
+
+  // 4. Roll: angle of wrist -> middle MCP relative to "up" (-Y)
+  const wrist = landmarks[WRIST];
+  const middleMCP = landmarks[MIDDLE_MCP];
+  const rotation = Math.atan2(middleMCP.y - wrist.y, middleMCP.x - wrist.x) + Math.PI / 2;
+
+  // 5. Fingertip positions and outward directions from the palm center
+  const fingerTips = FINGER_TIP_INDICES.map(idx => {
+    const tip = landmarks[idx];
+    const dirX = tip.x - palmCenter.x;
+    const dirY = tip.y - palmCenter.y;
+    const len = Math.hypot(dirX, dirY);
+    return {
+      x: tip.x,
+      y: tip.y,
+      dirX: len > 0.001 ? dirX / len : 0,
+      dirY: len > 0.001 ? dirY / len : 0
+    };
+  });
+
+  // 6. Finger curl states; thumb mechanics differ so it is excluded from fist/palm counts
+  const fingers = FINGER_TIP_INDICES.map((_, finger) => classifyFinger(landmarks, finger, thresholds));
+  const fingersExtended = fingers.slice(1).filter(state => state === 'extended').length;
+  const fingersCurled = fingers.slice(1).filter(state => state === 'curled').length;
+
+  const isFist = fingersCurled >= thresholds.fistMinCurled && pinch < thresholds.fistMaxPinch;
+  const isOpenPalm = fingersExtended >= thresholds.openPalmMinExtended && !isFist;
+  const isThumbsUp = fingers[0] === 'extended' && fingersCurled === 4 &&
+    thumbTip.y < landmarks[INDEX_MCP].y - thresholds.thumbsUpMargin;
+
+  // 7. Pose; the fist comes first because the thumb may stick out a little in one
+  const [, index, middle, ring, pinky] = fingers;
+  // Folded fingers only need to be not extended; ring and pinky rarely curl fully in a peace sign
+  const folded = (...states: FingerState[]) => states.every(state => state !== 'extended');
+  let pose: HandPose = 'none';
+  if (isFist) pose = 'fist';
+  else if (isOpenPalm) pose = 'openPalm';
+  else if (isThumbsUp) pose = 'thumbsUp';
+  else if (index === 'extended' && middle === 'extended' && folded(ring, pinky)) pose = 'peace';
+  else if (index === 'extended' && folded(middle, ring, pinky)) pose = 'point';
+
+  return {
+    pinchPoint,
+    palmCenter,
+    pinchDistance,
+    pinch,
+    rotation,
+    fingerTips,
+    fingers,
+    fingersExtended,
+    fingersCurled,
+    isFist,
+    isOpenPalm,
+    pose
+  };
+};
+
+// Moves a gesture from camera space into screen space. With `mirror` (the default, a selfie
+// view) x is flipped to match the mirrored webcam image. Roll is measured with y pointing down,
+// so it only keeps its on-screen direction when x is flipped too; unmirrored it is negated.
+export const gestureToHandState = (gesture: HandGesture, mirror = true): HandState => {
+  const toScreenX = (x: number) => (mirror ? 1.0 - x : x);
+  const sign = mirror ? -1 : 1;
+  return {
+    detected: true,
+    // Pinch point position (for butterfly)
+    x: toScreenX(gesture.pinchPoint.x),
+    y: gesture.pinchPoint.y,
+    // Palm center position (for magic circle)
+    palmX: toScreenX(gesture.palmCenter.x),
+    palmY: gesture.palmCenter.y,
+    pinch: gesture.pinch,
+    rotation: mirror ? gesture.rotation : -gesture.rotation,
+    fingerTips: gesture.fingerTips.map((tip: FingerTip) => ({
+      x: toScreenX(tip.x),
+      y: tip.y,
+      dirX: sign * tip.dirX,
+      dirY: tip.dirY
+    })),
+    // A closed fist blasts unless the gesture bindings say otherwise (utils/gestureBindings.ts)
+    blast: gesture.isFist ? 1.0 : 0.0,
+    pose: gesture.pose
+  };
+};
+
+// Converts one hand's 21 landmarks into the HandState consumed by the scene
+export const computeHandState = (
+  landmarks: Landmark[],
+  thresholds: GestureThresholds = GESTURE_THRESHOLDS,
+  mirror = true
+): HandState | null => {
+  const gesture = describeHand(landmarks, thresholds);
+  return gesture ? gestureToHandState(gesture, mirror) : null;
+};
+
+// Resting hand state used before the first detection
+export const createIdleHandState = (): HandState => ({
+  detected: false,
+  x: 0.5,
+  y: 0.5,
+  palmX: 0.5,
+  palmY: 0.5,
+  pinch: 1.0,
+  rotation: 0,
+  fingerTips: [
+    { x: 0.5, y: 0.3, dirX: 0, dirY: -1 },
+    { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
+    { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
+    { x: 0.5, y: 0.2, dirX: 0, dirY: -1 },
+    { x: 0.5, y: 0.3, dirX: 0, dirY: -1 }
+  ],
+  blast: 0,
+  pose: 'none'
+});
+
+export const createHandsState = (): HandsState => ({
+  left: createIdleHandState(),
+  right: createIdleHandState(),
+  twoHand: { detected: false, spread: 0, twist: 0 }
+});
+
+// Spread and twist of the line between both palm centers (screen space)
+export const computeTwoHandState = (left: HandState, right: HandState): TwoHandState => {
+  if (!left.detected || !right.detected) return { detected: false, spread: 0, twist: 0 };
+  const dx = right.palmX - left.palmX;
+  const dy = right.palmY - left.palmY;
+  return { detected: true, spread: Math.hypot(dx, dy), twist: Math.atan2(dy, dx) };
+};
+
+// Builds the next HandsState from one frame of detections. Hands that disappeared keep their
+// last pose with detected = false so consumers can ease back to rest. `mirror` must match how
+// the webcam image is shown (CameraSettings.mirror).
+export const computeHandsState = (
+  detections: HandDetection[],
+  previous: HandsState,
+  thresholds: GestureThresholds = GESTURE_THRESHOLDS,
+  mirror = true
+): HandsState => {
+  let left: HandState | null = null;
+  let right: HandState | null = null;
+
+  for (const { landmarks, handedness } of detections) {
+    const state = computeHandState(landmarks, thresholds, mirror);
+    if (!state) continue;
+    // The classifier occasionally labels both hands the same; give the second one the free slot
+    const side = handedness === 'left' ? (left ? 'right' : 'left') : (right ? 'left' : 'right');
+    if (side === 'left') left = left ?? state;
+    else right = right ?? state;
+  }
+
+  const nextLeft = left ?? { ...previous.left, detected: false };
+  const nextRight = right ?? { ...previous.right, detected: false };
+  return {
+    left: nextLeft,
+    right: nextRight,
+    twoHand: computeTwoHandState(nextLeft, nextRight)
+  };
+};
+
+export const selectHandSide = (hands: HandsState, binding: HandBinding): Handedness => {
+  if (binding !== 'any') return binding;
+  return hands.right.detected || !hands.left.detected ? 'right' : 'left';
+};
+
+export const selectHand = (hands: HandsState, binding: HandBinding): HandState =>
+  hands[selectHandSide(hands, binding)];
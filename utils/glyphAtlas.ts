@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+
+// Signed distance field atlas of short glyph strings (digits, symbols, numbers like "144"), one
+// square cell each. Glyphs are drawn from local system fonts, so nothing is fetched over the
+// network, and ahead of time: looking a glyph up never draws it.
+
+export const ATLAS_COLUMNS = 16;     // Cells per row and per column
+const CELL_SIZE = 64;                // Pixels per cell
+const GLYPH_SIZE = CELL_SIZE * 0.75; // Font size inside a cell, leaving room for the field to fall off
+const SPREAD = 8;                    // Pixels from the glyph edge to distance 0 / 1
+const FONT_FAMILY = 'system-ui, "Segoe UI", "Segoe UI Symbol", Roboto, "Noto Sans", "Noto Sans Runic", sans-serif';
+
+// Quad size, relative to the world-space font size, that shows one whole cell
+export const GLYPH_CELL_SCALE = CELL_SIZE / GLYPH_SIZE;
+
+const INF = 1e20;
+
+// One row or column of the squared Euclidean distance transform (Felzenszwalb & Huttenlocher)
+const distanceTransform1d = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+};
+
+// Squared distance from every pixel to the nearest pixel where `mask` is set
+const squaredDistances = (mask: Uint8Array, width: number, height: number) => {
+  const grid = Float64Array.from(mask, set => (set ? 0 : INF));
+  const size = Math.max(width, height);
+  const f = new Float64Array(size);
+  const d = new Float64Array(size);
+  const v = new Int32Array(size);
+  const z = new Float64Array(size + 1);
+
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distanceTransform1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distanceTransform1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = d[x];
+  }
+  return grid;
+};
+
+// Maps a coverage mask to distance values: 0.5 on the edge, rising to 1 `spread` pixels inside
+// and falling to 0 `spread` pixels outside
+export const signedDistanceField = (inside: Uint8Array, width: number, height: number, spread = SPREAD) => {
+  const outside = inside.map(set => (set ? 0 : 1));
+  const toInside = squaredDistances(inside, width, height);
+  const toOutside = squaredDistances(outside, width, height);
+  const field = new Uint8Array(width * height);
+  for (let i = 0; i < field.length; i++) {
+    const signed = Math.sqrt(toOutside[i]) - Math.sqrt(toInside[i]);
+    field[i] = Math.round(THREE.MathUtils.clamp(0.5 + signed / (2 * spread), 0, 1) * 255);
+  }
+  return field;
+};
+
+// Cell index = row * ATLAS_COLUMNS + column, with row 0 at the bottom of the texture (v = 0).
+// RGBA although only red is read: three.js uploads partial updates for RGBA data textures only.
+export class GlyphAtlas {
+  readonly texture: THREE.DataTexture;
+  private readonly data: Uint8Array;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly cells = new Map<string, number>();
+  private readonly cellTokens: (string | null)[] = new Array(ATLAS_COLUMNS * ATLAS_COLUMNS).fill(null);
+  private readonly pinned: number;
+  private nextCell = 0;
+  private uploaded = false;
+
+  // `pinned` glyphs are drawn right away and never evicted
+  constructor(pinned: string[] = []) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CELL_SIZE;
+    canvas.height = CELL_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas unavailable for the glyph atlas');
+    this.ctx = ctx;
+
+    const size = CELL_SIZE * ATLAS_COLUMNS;
+    this.data = new Uint8Array(size * size * 4);
+    this.texture = new THREE.DataTexture(this.data, size, size, THREE.RGBAFormat, THREE.UnsignedByteType);
+    this.texture.minFilter = THREE.LinearFilter;
+    this.texture.magFilter = THREE.LinearFilter;
+    // The first upload sends the whole texture; after that only redrawn cells go to the GPU
+    this.texture.onUpdate = () => {
+      this.uploaded = true;
+    };
+
+    new Set(pinned).forEach(token => {
+      if (this.nextCell >= this.cellTokens.length) return;
+      this.place(this.nextCell++, token);
+    });
+    this.pinned = this.nextCell;
+    this.texture.needsUpdate = true;
+  }
+
+  // Cell of `token`, or undefined when it hasn't been drawn (see add)
+  cellOf(token: string) {
+    return this.cells.get(token);
+  }
+
+  // Draws the tokens not in the atlas yet. Once every cell is taken they replace unpinned glyphs,
+  // oldest first, except those in `inUse`: cells still on screen keep their glyph. Tokens that
+  // find no cell are left out.
+  add(tokens: string[], inUse: ReadonlySet<number> = new Set()) {
+    const wanted = new Set(tokens);
+    for (const token of wanted) {
+      if (this.cells.has(token)) continue;
+      const cell = this.freeCell(wanted, inUse);
+      if (cell === null) break;
+      this.place(cell, token);
+      this.texture.needsUpdate = true;
+    }
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+
+  private freeCell(keep: ReadonlySet<string>, inUse: ReadonlySet<number>): number | null {
+    for (let tried = this.pinned; tried < this.cellTokens.length; tried++) {
+      const cell = this.nextCell;
+      this.nextCell = cell + 1 < this.cellTokens.length ? cell + 1 : this.pinned;
+      const token = this.cellTokens[cell];
+      if (token === null) return cell;
+      if (keep.has(token) || inUse.has(cell)) continue;
+      this.cells.delete(token);
+      return cell;
+    }
+    return null;
+  }
+
+  private place(cell: number, token: string) {
+    this.cellTokens[cell] = token;
+    this.cells.set(token, cell);
+    this.drawCell(cell, token);
+  }
+
+  private drawCell(cell: number, token: string) {
+    const { ctx } = this;
+    ctx.clearRect(0, 0, CELL_SIZE, CELL_SIZE);
+    ctx.fillStyle = '#fff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    // Longer strings shrink to fit the cell
+    ctx.font = `bold ${GLYPH_SIZE}px ${FONT_FAMILY}`;
+    const width = ctx.measureText(token).width;
+    const fit = Math.min(1, (CELL_SIZE - 2 * SPREAD) / Math.max(width, 1));
+    ctx.font = `bold ${GLYPH_SIZE * fit}px ${FONT_FAMILY}`;
+    ctx.fillText(token, CELL_SIZE / 2, CELL_SIZE / 2);
+
+    const pixels = ctx.getImageData(0, 0, CELL_SIZE, CELL_SIZE).data;
+    const inside = new Uint8Array(CELL_SIZE * CELL_SIZE);
+    for (let i = 0; i < inside.length; i++) inside[i] = pixels[i * 4 + 3] >= 128 ? 1 : 0;
+    const field = signedDistanceField(inside, CELL_SIZE, CELL_SIZE);
+
+    // Canvas rows run top to bottom; flip so v grows toward the top of the glyph like plane UVs
+    const rowWidth = CELL_SIZE * ATLAS_COLUMNS;
+    const originX = (cell % ATLAS_COLUMNS) * CELL_SIZE;
+    const originY = Math.floor(cell / ATLAS_COLUMNS) * CELL_SIZE;
+    for (let y = 0; y < CELL_SIZE; y++) {
+      const rowStart = ((originY + CELL_SIZE - 1 - y) * rowWidth + originX) * 4;
+      for (let x = 0; x < CELL_SIZE; x++) this.data[rowStart + x * 4] = field[y * CELL_SIZE + x];
+      // Update ranges count bytes and must stay within one texture row
+      if (this.uploaded) this.texture.addUpdateRange(rowStart, CELL_SIZE * 4);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { HandLandmarker, type ImageSource } from '@mediapipe/tasks-vision';
+import { HandDetection, Handedness } from '../types';
+
+// What the detection worker receives: transferable frames, closed once detected
+export type DetectionFrame = VideoFrame | ImageBitmap;
+
+export interface HandDetector {
+  detect(frame: DetectionFrame | HTMLVideoElement, timestampMs: number): HandDetection[];
+  close(): void;
+}
+
+// Plain data, so it can be posted to the worker. Paths may be blob: URLs (see detectorAssets.ts).
+export interface DetectorOptions {
+  wasmLoaderPath: string;
+  wasmBinaryPath: string;
+  modelPath: string;
+  delegate: 'GPU' | 'CPU';
+  numHands: number;
+}
+
+// MediaPipe labels handedness assuming a mirrored (selfie) image. The webcam frames we feed it
+// are unmirrored, so its "Left" is the user's right hand.
+const toUserHandedness = (label: string | undefined): Handedness =>
+  label === 'Right' ? 'left' : 'right';
+
+// MediaPipe's hand landmarker, on the main thread or in the detection worker. Workers have no
+// DOM canvas, so they pass an OffscreenCanvas for the GPU delegate.
+export const createMediaPipeDetector = async (
+  options: DetectorOptions,
+  canvas?: OffscreenCanvas
+): Promise<HandDetector> => {
+  const fileset = { wasmLoaderPath: options.wasmLoaderPath, wasmBinaryPath: options.wasmBinaryPath };
+  const landmarker = await HandLandmarker.createFromOptions(fileset, {
+    baseOptions: { modelAssetPath: options.modelPath, delegate: options.delegate },
+    runningMode: 'VIDEO',
+    numHands: options.numHands,
+    canvas
+  });
+
+  return {
+    detect(frame, timestampMs) {
+      // VideoFrame is a valid WebGL texture source; the 0.10.9 typings predate it
+      const results = landmarker.detectForVideo(frame as ImageSource, timestampMs);
+      return (results.landmarks ?? []).map((landmarks, i) => ({
+        landmarks,
+        handedness: toUserHandedness(results.handedness?.[i]?.[0]?.categoryName)
+      }));
+    },
+    close() {
+      landmarker.close();
+    }
+  };
+};
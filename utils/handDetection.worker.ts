@@ -0,0 +1,38 @@
+import { createMediaPipeDetector } from './handDetection';
+import { DetectionRequest, createDetectionHandler } from './detectionProtocol';
+
+// Hand detection off the main thread, so it doesn't compete with the particle render loop.
+// See detectionProtocol.ts for the messages.
+
+// MediaPipe loads its wasm glue with importScripts, which module workers (the only kind Vite
+// serves in dev) don't have. The glue is a plain script declaring ModuleFactory, so import it as
+// a module that exports that declaration. With ModuleFactory already set and no loader path,
+// MediaPipe skips loading the glue itself.
+// The project compiles against the DOM typings, which don't declare worker globals.
+const importWasmLoader = async (url: string) => {
+  const source = await (await fetch(url)).text();
+  const moduleUrl = URL.createObjectURL(new Blob([source, '\nexport default ModuleFactory;\n'], { type: 'text/javascript' }));
+  try {
+    const { default: factory } = await import(/* @vite-ignore */ moduleUrl);
+    (self as unknown as { ModuleFactory: unknown }).ModuleFactory = factory;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+};
+
+const handle = createDetectionHandler(
+  async options => {
+    await importWasmLoader(options.wasmLoaderPath);
+    return createMediaPipeDetector({ ...options, wasmLoaderPath: '' }, new OffscreenCanvas(1, 1));
+  },
+  response => self.postMessage(response)
+);
+
+self.onmessage = (event: MessageEvent<DetectionRequest>) => {
+  handle(event.data);
+};
+
+// A request that couldn't be deserialized still needs an answer, or its frame's slot stays taken
+self.onmessageerror = () => {
+  self.postMessage({ type: 'error', message: 'Could not read a detection request' });
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HandEventMap, HandEventType, HandState, HandsState, Landmark } from '../types';
+import { HAND_EVENT_THRESHOLDS, HandEventEmitter } from './handEvents';
+import { DEFAULT_GESTURE_BINDINGS, GESTURE_TIMING, GestureRecognizer } from './gestureBindings';
+import { GESTURE_THRESHOLDS, computeHandsState, createHandsState, magicAmount } from './gestures';
+import { OPEN_PALM, moveHand } from './__fixtures__/hands';
+
+const FRAME_MS = 1000 / 30;
+
+// Pinch strength at which the hand shows the given magicAmount (which rises with the pinch)
+const pinchFor = (magic: number) => {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 30; i++) {
+    const mid = (low + high) / 2;
+    if (magicAmount(mid) < magic) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Records every event in order as "type" or "type:detail"
+const listen = (emitter: HandEventEmitter) => {
+  const log: string[] = [];
+  const types: HandEventType[] = ['handEnter', 'handLeave', 'pinchStart', 'pinchEnd', 'modeChange', 'blastStart', 'blastEnd', 'swipe', 'gesture'];
+  types.forEach(type => emitter.on(type, (event: HandEventMap[HandEventType]) => {
+    const detail = 'mode' in event ? event.mode : 'direction' in event ? event.direction : 'gesture' in event ? event.gesture : null;
+    log.push(detail ? `${type}:${detail}` : type);
+  }));
+  return log;
+};
+
+// Feeds per-frame right-hand states straight into the emitter
+const session = () => {
+  const emitter = new HandEventEmitter();
+  const log = listen(emitter);
+  let now = 0;
+  const frame = (right: Partial<HandState> | null) => {
+    now += FRAME_MS;
+    const hands = createHandsState();
+    if (right) hands.right = { ...hands.right, detected: true, pinch: 1, ...right };
+    emitter.update(hands, now);
+  };
+  return { emitter, log, frame };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('HandEventEmitter', () => {
+  it('reports a hand entering and leaving, closing what was open', () => {
+    const { log, frame, emitter } = session();
+    frame({ pinch: 0.05 });
+    frame(null);
+    // A closed pinch stays in orb mode, so there is no mode change
+    expect(log).toEqual(['handEnter', 'pinchStart', 'handLeave', 'pinchEnd']);
+    expect(emitter.state('right')).toMatchObject({ detected: false, pinching: false });
+  });
+
+  it('starts and ends a pinch once while the pinch wobbles between the thresholds', () => {
+    const { log, frame } = session();
+    const { pinchOn, pinchOff } = HAND_EVENT_THRESHOLDS;
+    frame({ pinch: 1 });
+    [pinchOn - 0.02, pinchOn + 0.03, pinchOn - 0.01, pinchOff - 0.01, pinchOn + 0.02].forEach(pinch => frame({ pinch }));
+    frame({ pinch: pinchOff + 0.05 });
+    expect(log.filter(event => event.startsWith('pinch'))).toEqual(['pinchStart', 'pinchEnd']);
+  });
+
+  it('debounces the mode while the pinch wobbles around the switch point', () => {
+    const { log, frame } = session();
+    const { magicOn, magicOff } = HAND_EVENT_THRESHOLDS;
+    const between = (magicOn + magicOff) / 2;
+    frame({ pinch: pinchFor(magicOff - 0.1) });
+    frame({ pinch: pinchFor(magicOn + 0.05) });
+    [between, magicOn - 0.01, magicOff + 0.01, between, magicOn + 0.02].forEach(magic => frame({ pinch: pinchFor(magic) }));
+    frame({ pinch: pinchFor(magicOff - 0.05) });
+    [between, magicOn - 0.01].forEach(magic => frame({ pinch: pinchFor(magic) }));
+    expect(log.filter(event => event.startsWith('modeChange'))).toEqual(['modeChange:magicCircle', 'modeChange:orb']);
+  });
+
+  it('holds a blast through short dropouts, ends it on release and fires again on the next one', () => {
+    const { log, frame } = session();
+    for (let i = 0; i < 5; i++) frame({ blast: 1 });
+    // Under blastReleaseMs without the blast: still the same blast
+    frame({ blast: 0 });
+    frame({ blast: 0 });
+    for (let i = 0; i < 5; i++) frame({ blast: 1 });
+    expect(log.filter(event => event.startsWith('blast'))).toEqual(['blastStart']);
+
+    for (let t = 0; t <= HAND_EVENT_THRESHOLDS.blastReleaseMs + FRAME_MS; t += FRAME_MS) frame({ blast: 0 });
+    expect(log.filter(event => event.startsWith('blast'))).toEqual(['blastStart', 'blastEnd']);
+    frame({ blast: 1 });
+    expect(log.filter(event => event.startsWith('blast'))).toEqual(['blastStart', 'blastEnd', 'blastStart']);
+  });
+
+  it('keeps calling the other listeners when one throws, and stops calling unsubscribed ones', () => {
+    const { emitter, frame } = session();
+    const good = vi.fn();
+    emitter.on('handEnter', () => { throw new Error('broken extension'); });
+    const off = emitter.on('handEnter', good);
+    frame({});
+    expect(good).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+    off();
+    frame(null);
+    frame({});
+    expect(good).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('HandEventEmitter with GestureRecognizer', () => {
+  // The recognizer's started gestures go into the emitter, like in HandController
+  const session = () => {
+    const emitter = new HandEventEmitter();
+    const recognizer = new GestureRecognizer();
+    const log = listen(emitter);
+    let hands: HandsState = createHandsState();
+    let now = 0;
+    const frame = (landmarks: Landmark[] | null) => {
+      now += FRAME_MS;
+      const detections = landmarks ? [{ landmarks, handedness: 'right' as const }] : [];
+      const bound = recognizer.update(computeHandsState(detections, hands, GESTURE_THRESHOLDS, false), now, DEFAULT_GESTURE_BINDINGS);
+      hands = bound.hands;
+      emitter.update(hands, now, bound.started);
+    };
+    const hold = (landmarks: Landmark[] | null, ms: number) => {
+      for (let t = 0; t < ms; t += FRAME_MS) frame(landmarks);
+    };
+    return { log, frame, hold };
+  };
+
+  it('emits a swipe only once the palm covers the swipe distance', () => {
+    const swipes = (distance: number) => {
+      const { log, frame, hold } = session();
+      hold(OPEN_PALM, 100);
+      for (let i = 1; i <= 4; i++) frame(moveHand(OPEN_PALM, (distance * i) / 4));
+      return log.filter(event => event.startsWith('swipe'));
+    };
+    expect(swipes(GESTURE_TIMING.swipeDistance * 1.2)).toEqual(['swipe:right']);
+    expect(swipes(-GESTURE_TIMING.swipeDistance * 1.2)).toEqual(['swipe:left']);
+    expect(swipes(GESTURE_TIMING.swipeDistance * 0.8)).toEqual([]);
+  });
+
+  it('fires a held open palm once, and again only after the hand lets go', () => {
+    const { log, hold } = session();
+    const holds = () => log.filter(event => event === 'gesture:openPalmHold');
+    hold(OPEN_PALM, GESTURE_TIMING.holdMs + 1000);
+    expect(holds()).toHaveLength(1);
+    hold(null, 200);
+    hold(OPEN_PALM, GESTURE_TIMING.holdMs - 200);
+    expect(holds()).toHaveLength(1);
+    hold(OPEN_PALM, 400);
+    expect(holds()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { GestureName, HandEventMap, HandEventType, HandMode, Handedness, HandsState, SwipeDirection } from '../types';
+import { magicAmount } from './gestures';
+
+// Each edge has separate on and off thresholds, so a value hovering around one of them doesn't
+// toggle the event every frame
+export const HAND_EVENT_THRESHOLDS = {
+  pinchOn: 0.15,        // Pinch strength (0 = touching) below which a pinch starts...
+  pinchOff: 0.25,       // ...and above which it ends
+  magicOn: 0.6,         // magicAmount above which the hand shows the magic circle...
+  magicOff: 0.4,        // ...and below which it is back to the orb
+  blastReleaseMs: 100   // A blast ends once HandState.blast has stayed off this long
+};
+
+const SWIPES: Partial<Record<GestureName, SwipeDirection>> = {
+  swipeLeft: 'left',
+  swipeRight: 'right',
+  swipeUp: 'up',
+  swipeDown: 'down'
+};
+
+export type HandEventListener<K extends HandEventType> = (event: HandEventMap[K]) => void;
+
+// The debounced state of one hand, as last reported by the events
+export interface HandEventState {
+  detected: boolean;
+  pinching: boolean;
+  mode: HandMode;
+  blasting: boolean;
+}
+
+const createState = (): HandEventState => ({ detected: false, pinching: false, mode: 'orb', blasting: false });
+
+// Turns the per-frame hand stream into discrete events. HandController feeds it once per
+// detection frame; components and extensions subscribe instead of thresholding HandState
+// themselves. Hands start out undetected, so the first frame with a hand fires handEnter.
+export class HandEventEmitter {
+  private listeners: { [K in HandEventType]?: Set<HandEventListener<K>> } = {};
+  private states: Record<Handedness, HandEventState> = { left: createState(), right: createState() };
+  private blastOffSince: Record<Handedness, number | null> = { left: null, right: null };
+
+  // Returns a function that unsubscribes again, so it can be returned from useEffect as is
+  on<K extends HandEventType>(type: K, listener: HandEventListener<K>): () => void {
+    const listeners: Set<HandEventListener<K>> = this.listeners[type] ?? new Set();
+    // TypeScript can't write a mapped type through a generic key; the set is for `type` all the same
+    (this.listeners as Partial<Record<K, Set<HandEventListener<K>>>>)[type] = listeners;
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends HandEventType>(type: K, listener: HandEventListener<K>) {
+    this.listeners[type]?.delete(listener);
+  }
+
+  state(hand: Handedness): Readonly<HandEventState> {
+    return this.states[hand];
+  }
+
+  // `started` are the gestures GestureRecognizer reports for this frame
+  update(hands: HandsState, nowMs: number, started: { hand: Handedness; gesture: GestureName }[] = []) {
+    (['left', 'right'] as Handedness[]).forEach(side => {
+      const hand = hands[side];
+      const state = this.states[side];
+      const base = { hand: side, time: nowMs };
+
+      if (hand.detected !== state.detected) {
+        state.detected = hand.detected;
+        this.emit(hand.detected ? 'handEnter' : 'handLeave', base);
+      }
+      if (!hand.detected) {
+        // Close whatever was open so every start has its end; the mode is kept until the hand is back
+        if (state.pinching) this.setPinching(side, false, nowMs);
+        if (state.blasting) this.setBlasting(side, false, nowMs);
+        return;
+      }
+
+      if (!state.pinching && hand.pinch < HAND_EVENT_THRESHOLDS.pinchOn) this.setPinching(side, true, nowMs);
+      else if (state.pinching && hand.pinch > HAND_EVENT_THRESHOLDS.pinchOff) this.setPinching(side, false, nowMs);
+
+      const magic = magicAmount(hand.pinch);
+      const mode: HandMode = state.mode === 'orb'
+        ? (magic > HAND_EVENT_THRESHOLDS.magicOn ? 'magicCircle' : 'orb')
+        : (magic < HAND_EVENT_THRESHOLDS.magicOff ? 'orb' : 'magicCircle');
+      if (mode !== state.mode) {
+        state.mode = mode;
+        this.emit('modeChange', { ...base, mode });
+      }
+
+      if (hand.blast > 0.5) {
+        this.blastOffSince[side] = null;
+        if (!state.blasting) this.setBlasting(side, true, nowMs);
+      } else if (state.blasting) {
+        this.blastOffSince[side] ??= nowMs;
+        if (nowMs - this.blastOffSince[side]! >= HAND_EVENT_THRESHOLDS.blastReleaseMs) this.setBlasting(side, false, nowMs);
+      }
+    });
+
+    started.forEach(({ hand, gesture }) => {
+      this.emit('gesture', { hand, time: nowMs, gesture });
+      const direction = SWIPES[gesture];
+      if (direction) this.emit('swipe', { hand, time: nowMs, direction });
+    });
+  }
+
+  private setPinching(hand: Handedness, pinching: boolean, time: number) {
+    this.states[hand].pinching = pinching;
+    this.emit(pinching ? 'pinchStart' : 'pinchEnd', { hand, time });
+  }
+
+  private setBlasting(hand: Handedness, blasting: boolean, time: number) {
+    this.states[hand].blasting = blasting;
+    this.blastOffSince[hand] = null;
+    this.emit(blasting ? 'blastStart' : 'blastEnd', { hand, time });
+  }
+
+  // A throwing listener is logged and skipped, so one broken extension can't stall the others
+  private emit<K extends HandEventType>(type: K, event: HandEventMap[K]) {
+    this.listeners[type]?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(`Hand event listener for "${type}" failed`, err);
+      }
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { HandDetection } from '../types';
+import type { DetectionFrame, HandDetector } from './handDetection';
+import type { DetectionWorkerClient } from './detectionProtocol';
+
+// A hand-input source produces raw landmark frames; HandController turns them into HandState.
+// Sources are polled once per animation frame so live and recorded input share one pipeline.
+export interface HandInputSource {
+  // Hands visible at `nowMs` (empty when no hand is visible),
+  // or null when the source has nothing new to report this frame.
+  read(nowMs: number): HandDetection[] | null;
+  dispose(): void;
+}
+
+const stopStream = (video: HTMLVideoElement) => {
+  const stream = video.srcObject as MediaStream | null;
+  stream?.getTracks().forEach(track => track.stop());
+  video.srcObject = null;
+};
+
+// VideoFrame wraps the current frame without a copy; browsers without it get an ImageBitmap
+const captureFrame = (video: HTMLVideoElement, nowMs: number): DetectionFrame | Promise<DetectionFrame> =>
+  typeof VideoFrame !== 'undefined'
+    ? new VideoFrame(video, { timestamp: Math.round(nowMs * 1000) })
+    : createImageBitmap(video);
+
+// Detection in the worker: a new frame goes out only once the previous one is answered, and
+// each read returns the latest answer. Results arrive a frame or so after capture.
+export const createWorkerWebcamSource = (
+  video: HTMLVideoElement,
+  client: DetectionWorkerClient
+): HandInputSource => {
+  let lastVideoTime = -1;
+
+  return {
+    read(nowMs) {
+      if (video.videoWidth !== 0 && video.currentTime !== lastVideoTime && !client.busy) {
+        lastVideoTime = video.currentTime;
+        client.detect(captureFrame(video, nowMs), nowMs);
+      }
+      return client.take();
+    },
+    dispose() {
+      stopStream(video);
+    }
+  };
+};
+
+// Detection on the main thread, for browsers where the worker can't run
+export const createWebcamSource = (
+  video: HTMLVideoElement,
+  detector: HandDetector
+): HandInputSource => {
+  let lastVideoTime = -1;
+
+  return {
+    read(nowMs) {
+      // Only detect on new video frames; render frames in between are bridged by the filter stage
+      if (video.videoWidth === 0 || video.currentTime === lastVideoTime) return null;
+      lastVideoTime = video.currentTime;
+      return detector.detect(video, nowMs);
+    },
+    dispose() {
+      stopStream(video);
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HAND_FILTER, HandTrackingFilter, filterRecording, landmarkJitter } from './landmarkFilter';
+import { OPEN_PALM } from './__fixtures__/hands';
+import { noisySweep, sweepPosition } from './__fixtures__/recordings';
+
+const UNFILTERED = { ...DEFAULT_HAND_FILTER, enabled: false };
+
+// Mean distance between the rendered landmarks and where the hand really was at render time
+const meanError = (recording: ReturnType<typeof filterRecording>, velocity: number) => {
+  let total = 0;
+  let count = 0;
+  recording.frames.forEach(frame => {
+    const truth = sweepPosition(frame.t, velocity);
+    frame.hands[0]?.forEach((lm, i) => {
+      total += Math.hypot(lm.x - truth[i].x, lm.y - truth[i].y);
+      count++;
+    });
+  });
+  return total / count;
+};
+
+describe('filterRecording', () => {
+  it('reduces jitter on a noisy recording', () => {
+    const recording = noisySweep({ velocity: 0, noise: 0.005 });
+    const raw = landmarkJitter(filterRecording(recording, UNFILTERED));
+    const filtered = landmarkJitter(filterRecording(recording));
+    expect(filtered).toBeLessThan(raw * 0.4);
+  });
+
+  it('reduces jitter while the hand moves', () => {
+    // Rendered at the detector rate, so the steps of holding each raw detection between
+    // renders don't count as jitter and only the noise is compared
+    const frameMs = 1000 / 30;
+    const recording = noisySweep({ velocity: 0.2, noise: 0.005, frameMs, seed: 7 });
+    const raw = landmarkJitter(filterRecording(recording, UNFILTERED, frameMs));
+    const filtered = landmarkJitter(filterRecording(recording, DEFAULT_HAND_FILTER, frameMs));
+    expect(filtered).toBeLessThan(raw * 0.4);
+  });
+
+  it('keeps the lag behind a moving hand bounded', () => {
+    const velocity = 0.4;
+    const recording = noisySweep({ velocity, noise: 0 });
+    const filtered = filterRecording(recording);
+    // Holding each raw detection until the next lags half a detector frame on average; the
+    // filter plus prediction must not fall much further behind than that
+    const rawError = meanError(filterRecording(recording, UNFILTERED), velocity);
+    expect(meanError(filtered, velocity)).toBeLessThan(rawError * 2);
+    // and never by more than the distance covered in 50 ms
+    expect(meanError(filtered, velocity)).toBeLessThan(velocity * 0.05);
+  });
+
+  it('renders the hand on every frame of a complete recording', () => {
+    const filtered = filterRecording(noisySweep());
+    expect(filtered.frames.every(frame => frame.hands.length === 1)).toBe(true);
+  });
+});
+
+describe('HandTrackingFilter', () => {
+  it('bridges short gaps and drops hands after the grace period', () => {
+    const filter = new HandTrackingFilter();
+    filter.update([{ landmarks: OPEN_PALM, handedness: 'right' }], 0);
+    expect(filter.update(null, DEFAULT_HAND_FILTER.lostGraceMs - 10)).toHaveLength(1);
+    expect(filter.update(null, DEFAULT_HAND_FILTER.lostGraceMs + 10)).toHaveLength(0);
+  });
+
+  it('passes detections through untouched when disabled', () => {
+    const filter = new HandTrackingFilter(UNFILTERED);
+    const detections = [{ landmarks: OPEN_PALM, handedness: 'right' as const }];
+    expect(filter.update(detections, 0)).toBe(detections);
+    expect(filter.update(null, 16)).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { HandDetection, HandFilterConfig, Handedness, Landmark, LandmarkRecording } from '../types';
+import { frameDetections } from './landmarkRecording';
+
+export const DEFAULT_HAND_FILTER: HandFilterConfig = {
+  enabled: true,
+  minCutoff: 1.5,
+  beta: 8.0,       // Landmarks are normalized (0 to 1), so beta is much larger than pixel-space defaults
+  dCutoff: 1.0,
+  predictionMs: 50,
+  lostGraceMs: 150
+};
+
+const smoothingFactor = (cutoffHz: number, dtSeconds: number) => {
+  const r = 2 * Math.PI * cutoffHz * dtSeconds;
+  return r / (r + 1);
+};
+
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed,
+// so jitter is removed at rest without adding lag to fast movements
+export class OneEuroFilter {
+  value = 0;
+  velocity = 0;   // Filtered derivative, units per second
+  private lastTime: number | null = null;
+
+  constructor(private readonly config: HandFilterConfig) {}
+
+  filter(raw: number, timeMs: number) {
+    if (this.lastTime === null) {
+      this.lastTime = timeMs;
+      this.value = raw;
+      this.velocity = 0;
+      return raw;
+    }
+
+    const dt = Math.max((timeMs - this.lastTime) / 1000, 1e-3);
+    this.lastTime = timeMs;
+
+    const rawVelocity = (raw - this.value) / dt;
+    this.velocity += smoothingFactor(this.config.dCutoff, dt) * (rawVelocity - this.velocity);
+
+    const cutoff = this.config.minCutoff + this.config.beta * Math.abs(this.velocity);
+    this.value += smoothingFactor(cutoff, dt) * (raw - this.value);
+    return this.value;
+  }
+
+  reset() {
+    this.lastTime = null;
+  }
+}
+
+const COORDS = ['x', 'y', 'z'] as const;
+
+// Smooths one hand's 21 landmarks and extrapolates them between detections
+class HandLandmarkFilter {
+  private readonly filters: OneEuroFilter[][] = [];
+  private lastUpdate: number | null = null;
+
+  constructor(private readonly config: HandFilterConfig) {}
+
+  get lastSeen() {
+    return this.lastUpdate;
+  }
+
+  update(landmarks: Landmark[], timeMs: number) {
+    landmarks.forEach((lm, i) => {
+      const row = this.filters[i] ?? (this.filters[i] = COORDS.map(() => new OneEuroFilter(this.config)));
+      COORDS.forEach((axis, a) => row[a].filter(lm[axis], timeMs));
+    });
+    this.lastUpdate = timeMs;
+  }
+
+  // Filtered landmarks pushed forward along their velocity, capped at predictionMs
+  sample(timeMs: number): Landmark[] {
+    const aheadMs = this.lastUpdate === null ? 0 : Math.min(Math.max(timeMs - this.lastUpdate, 0), this.config.predictionMs);
+    const ahead = aheadMs / 1000;
+    return this.filters.map(([fx, fy, fz]) => ({
+      x: fx.value + fx.velocity * ahead,
+      y: fy.value + fy.velocity * ahead,
+      z: fz.value + fz.velocity * ahead
+    }));
+  }
+
+  reset() {
+    this.filters.length = 0;
+    this.lastUpdate = null;
+  }
+}
+
+// Filtering stage between the detector and HandState. Call update() every render frame:
+// pass the detector's result when there is one, or null to bridge the gap by prediction.
+export class HandTrackingFilter {
+  private config: HandFilterConfig;
+  private hands: Record<Handedness, HandLandmarkFilter>;
+
+  constructor(config: HandFilterConfig = DEFAULT_HAND_FILTER) {
+    this.config = { ...config };
+    this.hands = this.createHands();
+  }
+
+  setConfig(config: HandFilterConfig) {
+    // Filters hold a reference to the config object, so mutate it in place
+    Object.assign(this.config, config);
+  }
+
+  update(detections: HandDetection[] | null, nowMs: number): HandDetection[] | null {
+    if (!this.config.enabled) return detections;
+
+    detections?.forEach(({ landmarks, handedness }) => this.hands[handedness].update(landmarks, nowMs));
+
+    const output: HandDetection[] = [];
+    (Object.keys(this.hands) as Handedness[]).forEach(handedness => {
+      const hand = this.hands[handedness];
+      if (hand.lastSeen === null) return;
+
+      // Keep reporting a missing hand for a short grace period so single dropped frames don't flicker
+      if (nowMs - hand.lastSeen > this.config.lostGraceMs) {
+        hand.reset();
+        return;
+      }
+      output.push({ landmarks: hand.sample(nowMs), handedness });
+    });
+    return output;
+  }
+
+  reset() {
+    Object.values(this.hands).forEach(hand => hand.reset());
+  }
+
+  private createHands(): Record<Handedness, HandLandmarkFilter> {
+    return {
+      left: new HandLandmarkFilter(this.config),
+      right: new HandLandmarkFilter(this.config)
+    };
+  }
+}
+
+// Offline harness: runs the filter over a recording at a fixed render rate, returning the
+// landmarks the scene would have seen. Pair with landmarkJitter to compare settings.
+export const filterRecording = (
+  recording: LandmarkRecording,
+  config: HandFilterConfig = DEFAULT_HAND_FILTER,
+  renderIntervalMs = 1000 / 60
+): LandmarkRecording => {
+  const filter = new HandTrackingFilter(config);
+  const frames = recording.frames;
+  const output: LandmarkRecording = { version: 1, frames: [] };
+  if (frames.length === 0) return output;
+
+  let next = 0;
+  let latest: HandDetection[] = [];
+  const end = frames[frames.length - 1].t;
+  for (let t = frames[0].t; t <= end; t += renderIntervalMs) {
+    // Feed every detection that arrived since the previous render frame
+    while (next < frames.length && frames[next].t <= t) {
+      const frame = frames[next++];
+      latest = frameDetections(frame);
+      filter.update(latest, frame.t);
+    }
+    const result = filter.update(null, t) ?? latest;
+    output.frames.push({
+      t,
+      hands: result.map(hand => hand.landmarks),
+      handedness: result.map(hand => hand.handedness)
+    });
+  }
+  return output;
+};
+
+// Mean second difference of landmark positions across frames; lower is smoother
+export const landmarkJitter = (recording: LandmarkRecording) => {
+  const frames = recording.frames;
+  let total = 0;
+  let count = 0;
+  for (let f = 2; f < frames.length; f++) {
+    const [a, b, c] = [frames[f - 2].hands[0], frames[f - 1].hands[0], frames[f].hands[0]];
+    if (!a || !b || !c) continue;
+    c.forEach((lm, i) => {
+      total += Math.hypot(lm.x - 2 * b[i].x + a[i].x, lm.y - 2 * b[i].y + a[i].y);
+      count++;
+    });
+  }
+  return count > 0 ? total / count : 0;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkPlayback, parseRecording } from './landmarkRecording';
+import { HandTrackingFilter, DEFAULT_HAND_FILTER } from './landmarkFilter';
+import { noisySweep } from './__fixtures__/recordings';
+
+const clock = () => {
+  let time = 0;
+  return { now: () => time, advance: (ms: number) => (time += ms) };
+};
+
+describe('LandmarkPlayback', () => {
+  it('only reports new frames while playing', () => {
+    const { now, advance } = clock();
+    const playback = new LandmarkPlayback(noisySweep({ frameMs: 100 }), { now });
+    expect(playback.read(now())).toHaveLength(1);
+    advance(50);
+    expect(playback.read(now())).toBeNull();
+    advance(50);
+    expect(playback.read(now())).toHaveLength(1);
+  });
+
+  it('keeps reporting the held frame while paused', () => {
+    const { now, advance } = clock();
+    const recording = noisySweep({ frameMs: 100 });
+    const playback = new LandmarkPlayback(recording, { now });
+    const filter = new HandTrackingFilter();
+
+    filter.update(playback.read(now()), now());
+    playback.pause();
+    for (let i = 0; i < 20; i++) {
+      advance(DEFAULT_HAND_FILTER.lostGraceMs / 4);
+      const hands = playback.read(now());
+      expect(hands?.[0].landmarks).toEqual(recording.frames[0].hands[0]);
+      expect(filter.update(hands, now())).toHaveLength(1);
+    }
+  });
+
+  it('reports the frame at the new position after a seek while paused', () => {
+    const { now } = clock();
+    const recording = noisySweep({ frameMs: 100 });
+    const playback = new LandmarkPlayback(recording, { now });
+    playback.pause();
+    playback.seek(550);
+    expect(playback.read(now())?.[0].landmarks).toEqual(recording.frames[5].hands[0]);
+  });
+
+  it('holds the last frame once a non-looping recording ends', () => {
+    const { now, advance } = clock();
+    const recording = noisySweep({ durationMs: 500, frameMs: 100 });
+    const playback = new LandmarkPlayback(recording, { now, loop: false });
+    advance(1000);
+    expect(playback.ended).toBe(true);
+    expect(playback.read(now())?.[0].landmarks).toEqual(recording.frames[5].hands[0]);
+    expect(playback.read(now())).not.toBeNull();
+  });
+});
+
+describe('parseRecording', () => {
+  it('round-trips a recording', () => {
+    const recording = noisySweep({ durationMs: 200 });
+    expect(parseRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it('names the frame with out-of-order timestamps', () => {
+    const recording = noisySweep({ durationMs: 200 });
+    recording.frames[3].t = -1;
+    expect(() => parseRecording(JSON.stringify(recording))).toThrow(/Frame 3/);
+  });
+});
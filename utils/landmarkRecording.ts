@@ -0,0 +1,192 @@
+import { HandDetection, Landmark, LandmarkFrame, LandmarkRecording } from '../types';
+import { HandInputSource } from './handInput';
+
+const LANDMARKS_PER_HAND = 21;
+
+// Captures raw landmark frames with timestamps relative to the first captured frame
+export class LandmarkRecorder {
+  private frames: LandmarkFrame[] = [];
+  private startTime: number | null = null;
+  private active = false;
+
+  get isRecording() {
+    return this.active;
+  }
+
+  start() {
+    this.frames = [];
+    this.startTime = null;
+    this.active = true;
+  }
+
+  capture(hands: HandDetection[], timeMs: number) {
+    if (!this.active) return;
+    if (this.startTime === null) this.startTime = timeMs;
+
+    this.frames.push({
+      t: Math.round((timeMs - this.startTime) * 100) / 100,
+      // Copy plain x/y/z so MediaPipe objects (and their visibility field) don't leak into the file
+      hands: hands.map(hand => hand.landmarks.map(({ x, y, z }) => ({ x, y, z }))),
+      handedness: hands.map(hand => hand.handedness)
+    });
+  }
+
+  stop(): LandmarkRecording {
+    this.active = false;
+    return { version: 1, frames: this.frames };
+  }
+}
+
+const isLandmark = (value: unknown): value is Landmark => {
+  const lm = value as Landmark;
+  return typeof lm === 'object' && lm !== null &&
+    Number.isFinite(lm.x) && Number.isFinite(lm.y) && Number.isFinite(lm.z);
+};
+
+// Parses and validates a recording file, throwing with the offending frame index on bad input
+export const parseRecording = (json: string): LandmarkRecording => {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || !Array.isArray(data.frames)) {
+    throw new Error('Not a landmark recording (expected { version: 1, frames: [...] })');
+  }
+
+  let lastT = -Infinity;
+  data.frames.forEach((frame: LandmarkFrame, i: number) => {
+    if (!Number.isFinite(frame?.t) || frame.t < lastT) {
+      throw new Error(`Frame ${i}: timestamps must be numbers in ascending order`);
+    }
+    if (!Array.isArray(frame.hands)) {
+      throw new Error(`Frame ${i}: missing hands array`);
+    }
+    if (frame.handedness !== undefined && (
+      !Array.isArray(frame.handedness) ||
+      frame.handedness.length !== frame.hands.length ||
+      !frame.handedness.every(side => side === 'left' || side === 'right')
+    )) {
+      throw new Error(`Frame ${i}: handedness must list 'left' or 'right' for each hand`);
+    }
+    frame.hands.forEach((hand, h) => {
+      if (!Array.isArray(hand) || hand.length !== LANDMARKS_PER_HAND || !hand.every(isLandmark)) {
+        throw new Error(`Frame ${i}, hand ${h}: expected ${LANDMARKS_PER_HAND} landmarks with x/y/z`);
+      }
+    });
+    lastT = frame.t;
+  });
+
+  return data as LandmarkRecording;
+};
+
+export const downloadRecording = (recording: LandmarkRecording, filename = `hand-recording-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Older single-hand recordings carry no handedness; treat their hand as the right one
+export const frameDetections = (frame: LandmarkFrame): HandDetection[] =>
+  frame.hands.map((landmarks, i) => ({
+    landmarks,
+    handedness: frame.handedness?.[i] ?? (i === 0 ? 'right' : 'left')
+  }));
+
+interface PlaybackOptions {
+  loop?: boolean;
+  now?: () => number; // Injectable clock for deterministic playback
+}
+
+// Replays a recording at its recorded rate. Implements HandInputSource so HandController
+// can swap it in for the webcam without touching the HandState pipeline.
+export class LandmarkPlayback implements HandInputSource {
+  loop: boolean;
+  private readonly now: () => number;
+  private position = 0;               // Playback position in ms when paused
+  private startedAt: number | null;   // Clock time corresponding to position 0 while playing
+  private lastFrameIndex = -1;
+
+  constructor(private readonly recording: LandmarkRecording, options: PlaybackOptions = {}) {
+    this.loop = options.loop ?? true;
+    this.now = options.now ?? (() => performance.now());
+    this.startedAt = this.now();
+  }
+
+  get duration() {
+    const frames = this.recording.frames;
+    return frames.length > 0 ? frames[frames.length - 1].t : 0;
+  }
+
+  get isPaused() {
+    return this.startedAt === null;
+  }
+
+  get ended() {
+    return !this.loop && this.currentTime() >= this.duration;
+  }
+
+  currentTime(nowMs = this.now()) {
+    const elapsed = this.startedAt === null ? this.position : nowMs - this.startedAt;
+    if (this.duration <= 0) return 0;
+    return this.loop ? elapsed % this.duration : Math.min(elapsed, this.duration);
+  }
+
+  play() {
+    if (this.startedAt !== null) return;
+    if (this.ended) this.position = 0;
+    this.startedAt = this.now() - this.position;
+  }
+
+  pause() {
+    if (this.startedAt === null) return;
+    this.position = this.currentTime();
+    this.startedAt = null;
+  }
+
+  seek(timeMs: number) {
+    const clamped = Math.min(Math.max(timeMs, 0), this.duration);
+    if (this.startedAt === null) this.position = clamped;
+    else this.startedAt = this.now() - clamped;
+    this.lastFrameIndex = -1;
+  }
+
+  // Latest frame at or before the given playback time (binary search)
+  frameAt(timeMs: number): LandmarkFrame | null {
+    const index = this.frameIndexAt(timeMs);
+    return index >= 0 ? this.recording.frames[index] : null;
+  }
+
+  read(nowMs: number) {
+    const index = this.frameIndexAt(this.currentTime(nowMs));
+    if (index < 0) return null;
+    // While playing, only report when the frame changes, mirroring how the detector only yields new
+    // results per video frame. Paused or ended, the held frame is reported on every read, so the
+    // tracking filter keeps the hands on screen instead of dropping them as lost.
+    if (index === this.lastFrameIndex && !this.isPaused && !this.ended) return null;
+    this.lastFrameIndex = index;
+
+    return frameDetections(this.recording.frames[index]);
+  }
+
+  dispose() {
+    this.pause();
+  }
+
+  private frameIndexAt(timeMs: number) {
+    const frames = this.recording.frames;
+    let lo = 0;
+    let hi = frames.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (frames[mid].t <= timeMs) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+}
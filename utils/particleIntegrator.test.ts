@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { GROUND_ASSEMBLE_LIMIT, IntegratorParams, MIN_HAND_DISTANCE, createParticleState, integrateParticles } from './particleIntegrator';
+import { POSITION_SHADER, velocityShader } from './blastSimulation';
+
+const DT = 1 / 60;
+
+// Free flight with every force off; tests switch on the one they check
+const params = (overrides: Partial<IntegratorParams> = {}): IntegratorParams => ({
+  gravity: 0,
+  drag: 0,
+  groundY: -100,
+  bounce: 0.5,
+  friction: 0.2,
+  hand: { x: 0, y: 0, z: 100 },
+  handRadius: 1,
+  handStrength: 0,
+  assemble: 0,
+  stiffness: 40,
+  ...overrides
+});
+
+const particle = (position: number[], velocity: number[] = [0, 0, 0]) => {
+  const state = createParticleState(1);
+  state.positions.set(position);
+  state.velocities.set(velocity);
+  return state;
+};
+
+const run = (state: ReturnType<typeof particle>, p: IntegratorParams, steps: number, rest = new Float32Array(3)) => {
+  for (let i = 0; i < steps; i++) integrateParticles(state, rest, p, DT);
+  return state;
+};
+
+describe('integrateParticles', () => {
+  it('accelerates a free particle downward by gravity (explicit Euler)', () => {
+    const gravity = 9.8;
+    const steps = 60;
+    const state = run(particle([0, 10, 0]), params({ gravity }), steps);
+    expect(state.velocities[1]).toBeCloseTo(-gravity * DT * steps, 4);
+    // Positions move by the previous step's velocity: y = y0 - g·dt²·n(n-1)/2
+    expect(state.positions[1]).toBeCloseTo(10 - gravity * DT * DT * (steps * (steps - 1)) / 2, 4);
+  });
+
+  it('keeps particles on the floor and bounces them with friction', () => {
+    const groundY = -2;
+    const state = particle([0, groundY + 0.01, 0], [4, -5, 2]);
+    const p = params({ gravity: 9.8, groundY });
+
+    integrateParticles(state, new Float32Array(3), p, DT);  // Lands on the floor
+    expect(state.positions[1]).toBe(groundY);
+    integrateParticles(state, new Float32Array(3), p, DT);  // Bounces
+    const landing = -5 - 9.8 * DT * 2;
+    expect(state.velocities[1]).toBeCloseTo(-landing * p.bounce, 4);
+    expect(state.velocities[0]).toBeCloseTo(4 * (1 - p.friction), 4);
+    expect(state.velocities[2]).toBeCloseTo(2 * (1 - p.friction), 4);
+
+    run(state, p, 600);
+    expect(state.positions[1]).toBeGreaterThanOrEqual(groundY);
+  });
+
+  it('decays velocity exponentially with drag', () => {
+    const drag = 2;
+    const state = run(particle([0, 0, 0], [10, 0, -4]), params({ drag }), 60);
+    expect(state.velocities[0]).toBeCloseTo(10 * Math.exp(-drag), 4);
+    expect(state.velocities[2]).toBeCloseTo(-4 * Math.exp(-drag), 4);
+  });
+
+  it('pushes particles away from a repelling hand, only within its radius', () => {
+    const hand = { x: 0, y: 0, z: 0 };
+    const near = run(particle([0.5, 0, 0]), params({ hand, handStrength: 10 }), 1);
+    const far = run(particle([1.5, 0, 0]), params({ hand, handStrength: 10 }), 1);
+    expect(near.velocities[0]).toBeGreaterThan(0);
+    expect(far.velocities[0]).toBe(0);
+    const center = run(particle([MIN_HAND_DISTANCE / 2, 0, 0]), params({ hand, handStrength: 10 }), 1);
+    expect(center.velocities[0]).toBe(0);
+  });
+
+  it('converges on the rest pose when assembling, ignoring gravity and the floor', () => {
+    const rest = new Float32Array([1, -5, 2]);
+    const state = particle([8, 6, -3], [20, 10, 0]);
+    const p = params({ assemble: 1, gravity: 9.8, groundY: -1 });
+    run(state, p, 180, rest);
+    for (let a = 0; a < 3; a++) {
+      expect(state.positions[a]).toBeCloseTo(rest[a], 2);
+      expect(state.velocities[a]).toBeCloseTo(0, 1);
+    }
+    // The rest point is below the floor; re-assembly passes through it
+    expect(state.positions[1]).toBeLessThan(p.groundY);
+  });
+
+  it('approaches the rest pose without overshooting from standstill (critically damped)', () => {
+    const rest = new Float32Array(3);
+    const state = particle([4, 0, 0]);
+    const p = params({ assemble: 1 });
+    let previous = state.positions[0];
+    for (let i = 0; i < 120; i++) {
+      integrateParticles(state, rest, p, DT);
+      expect(state.positions[0]).toBeLessThanOrEqual(previous + 1e-6);
+      expect(state.positions[0]).toBeGreaterThan(-1e-3);
+      previous = state.positions[0];
+    }
+  });
+});
+
+describe('blast simulation shaders', () => {
+  const velocity = velocityShader('');
+
+  it('use the same thresholds as the CPU integrator', () => {
+    expect(velocity).toContain(`uAssemble < ${GROUND_ASSEMBLE_LIMIT.toFixed(1)}`);
+    expect(POSITION_SHADER).toContain(`uAssemble < ${GROUND_ASSEMBLE_LIMIT.toFixed(1)}`);
+    expect(velocity).toContain(`dist > ${MIN_HAND_DISTANCE.toExponential()}`);
+  });
+
+  it('use the same step formulas as the CPU integrator', () => {
+    expect(velocity).toContain('float damping = 2.0 * sqrt(uStiffness);');
+    expect(velocity).toContain('v = (v + acc * uDelta) * exp(-uDrag * uDelta);');
+    expect(velocity).toContain('float falloff = 1.0 - dist / uHandRadius;');
+    expect(velocity).toContain('v.y = -v.y * uBounce;');
+    expect(velocity).toContain('v.xz *= 1.0 - uFriction;');
+    expect(POSITION_SHADER).toContain('texture2D(texturePosition, uv).xyz + texture2D(textureVelocity, uv).xyz * uDelta');
+  });
+});
@@ -0,0 +1,92 @@
+// CPU reference for one blast simulation step. BlastSimulation runs the same integrator per
+// texel on the GPU; keep the two in sync so the physics can be checked headlessly here.
+
+export interface IntegratorParams {
+  gravity: number;       // Downward acceleration, units/s²
+  drag: number;          // Exponential velocity decay per second
+  groundY: number;       // World-space floor height
+  bounce: number;        // Fraction of vertical speed kept when hitting the floor
+  friction: number;      // Fraction of horizontal speed lost per floor contact
+  hand: { x: number; y: number; z: number };
+  handRadius: number;    // Reach of the hand force
+  handStrength: number;  // Positive repels from the hand, negative attracts
+  assemble: number;      // 0 = free flight, 1 = fully pulled back to the rest pose
+  stiffness: number;     // Spring constant of the re-assembly pull
+}
+
+export interface ParticleState {
+  positions: Float32Array;   // xyz per particle, world space
+  velocities: Float32Array;  // xyz per particle
+}
+
+// Shared with the shaders in blastSimulation.ts
+export const GROUND_ASSEMBLE_LIMIT = 0.5;  // Floor collisions stop once assemble reaches this
+export const MIN_HAND_DISTANCE = 1e-4;     // Closer than this the hand force has no direction
+
+export const createParticleState = (count: number): ParticleState => ({
+  positions: new Float32Array(count * 3),
+  velocities: new Float32Array(count * 3)
+});
+
+// Floor collisions only apply while particles fly free; re-assembly may pass through the floor
+export const collidesWithGround = (params: IntegratorParams) => params.assemble < GROUND_ASSEMBLE_LIMIT;
+
+// New velocity of one particle, written into `out`
+const integrateVelocity = (
+  p: ArrayLike<number>, v: ArrayLike<number>, rest: ArrayLike<number>,
+  params: IntegratorParams, dt: number, out: number[]
+) => {
+  const freeFlight = 1 - params.assemble;
+  const acc = [0, -params.gravity * freeFlight, 0];
+
+  // Hand force falls off quadratically to zero at handRadius
+  const dx = p[0] - params.hand.x;
+  const dy = p[1] - params.hand.y;
+  const dz = p[2] - params.hand.z;
+  const dist = Math.hypot(dx, dy, dz);
+  if (dist < params.handRadius && dist > MIN_HAND_DISTANCE) {
+    const falloff = 1 - dist / params.handRadius;
+    const scale = (params.handStrength * freeFlight * falloff * falloff) / dist;
+    acc[0] += dx * scale;
+    acc[1] += dy * scale;
+    acc[2] += dz * scale;
+  }
+
+  // Critically damped spring toward the rest pose, faded in by `assemble`
+  const damping = 2 * Math.sqrt(params.stiffness);
+  const dragFactor = Math.exp(-params.drag * dt);
+  for (let a = 0; a < 3; a++) {
+    acc[a] += ((rest[a] - p[a]) * params.stiffness - v[a] * damping) * params.assemble;
+    out[a] = (v[a] + acc[a] * dt) * dragFactor;
+  }
+
+  // Particles on the floor bounce back up, losing some sideways speed
+  if (collidesWithGround(params) && p[1] <= params.groundY && out[1] < 0) {
+    out[1] = -out[1] * params.bounce;
+    out[0] *= 1 - params.friction;
+    out[2] *= 1 - params.friction;
+  }
+};
+
+// Advances every particle by dt. Like GPUComputationRenderer, both the velocity and the position
+// pass read the previous step's state, so positions move by the old velocity (explicit Euler).
+export const integrateParticles = (
+  state: ParticleState,
+  rest: Float32Array,
+  params: IntegratorParams,
+  dt: number
+) => {
+  const { positions, velocities } = state;
+  const velocity = [0, 0, 0];
+  const collide = collidesWithGround(params);
+
+  for (let i = 0; i < positions.length; i += 3) {
+    const p = positions.subarray(i, i + 3);
+    const v = velocities.subarray(i, i + 3);
+    integrateVelocity(p, v, rest.subarray(i, i + 3), params, dt, velocity);
+
+    for (let a = 0; a < 3; a++) p[a] += v[a] * dt;
+    if (collide) p[1] = Math.max(p[1], params.groundY);
+    v.set(velocity);
+  }
+};
@@ -0,0 +1,230 @@
+import { Landmark, PointerHandPose } from '../types';
+import { HandInputSource } from './handInput';
+import { GESTURE_THRESHOLDS, describeHand, magicAmount } from './gestures';
+
+const HAND_SIZE = 0.2;  // Wrist to middle fingertip, normalized image units
+
+// Finger skeleton in hand units: `a` across the palm (thumb side negative), `b` from wrist to fingers.
+// Each finger lists its knuckle and how far / at what sideways angle it reaches when extended.
+const FINGERS = [
+  { mcp: [-0.14, 0.5], length: 0.42, spread: -0.12 },  // index
+  { mcp: [0, 0.52], length: 0.46, spread: 0 },         // middle (on the roll axis)
+  { mcp: [0.09, 0.5], length: 0.42, spread: 0.1 },     // ring
+  { mcp: [0.19, 0.45], length: 0.34, spread: 0.22 }    // pinky
+];
+const THUMB_CMC = [-0.18, 0.12];
+const THUMB_MCP = [-0.32, 0.28];
+const THUMB_DIR = [-0.8, -0.6];  // Thumb tip sits this way from the index tip (hand units, normalized)
+const CURLED_TIP_B = 0.28;       // Curled fingertips fold back below the knuckles
+
+// Builds 21 MediaPipe-style landmarks (unmirrored camera space) whose gesture analysis reproduces
+// the pose: same pinch strength, roll and fist, with the pinch point / palm center under (x, y).
+// Lets mouse and touch input reuse the full gesture pipeline instead of faking HandState.
+export const synthesizeHandLandmarks = (pose: PointerHandPose): Landmark[] => {
+  // Hand axes in camera space; `up` points from the wrist to the middle knuckle so
+  // describeHand measures exactly pose.rotation
+  const up = { x: Math.sin(pose.rotation), y: -Math.cos(pose.rotation) };
+  const across = { x: Math.cos(pose.rotation), y: Math.sin(pose.rotation) };
+  const point = (a: number, b: number): Landmark => ({
+    x: (a * across.x + b * up.x) * HAND_SIZE,
+    y: (a * across.y + b * up.y) * HAND_SIZE,
+    z: 0
+  });
+
+  const curl = pose.fist ? 1 : 0;
+  const fingerJoints = FINGERS.map(({ mcp: [a, b], length, spread }) => {
+    const joint = (t: number, curledB: number) => point(
+      a + spread * length * t * (1 - curl),
+      b + (length * t) * (1 - curl) + (curledB - b) * curl
+    );
+    // Curled fingers fold up over the knuckle and back down toward the palm
+    return [point(a, b), joint(0.4, b + 0.12), joint(0.7, b + 0.05), joint(1, CURLED_TIP_B)];
+  });
+
+  // Thumb tip placed so the thumb-index gap gives the requested pinch strength
+  const indexTip = fingerJoints[0][3];
+  const pinch = pose.fist ? 0 : pose.pinch;
+  const gap = (GESTURE_THRESHOLDS.pinchTouching + pinch * GESTURE_THRESHOLDS.pinchRange) / HAND_SIZE;
+  const thumbOffset = point(THUMB_DIR[0] * gap, THUMB_DIR[1] * gap);
+  const thumbTip = { x: indexTip.x + thumbOffset.x, y: indexTip.y + thumbOffset.y, z: 0 };
+  const thumbMcp = point(THUMB_MCP[0], THUMB_MCP[1]);
+  const thumbIp = { x: (thumbMcp.x + thumbTip.x) / 2, y: (thumbMcp.y + thumbTip.y) / 2, z: 0 };
+
+  const landmarks = [
+    point(0, 0),
+    point(THUMB_CMC[0], THUMB_CMC[1]), thumbMcp, thumbIp, thumbTip,
+    ...fingerJoints.flat()
+  ];
+
+  // Shift the hand so the point the scene follows lands under the pointer, blending from
+  // pinch point to palm center the same way InteractiveButterfly does
+  const gesture = describeHand(landmarks);
+  if (!gesture) return landmarks;
+  const magic = magicAmount(gesture.pinch);
+  const anchorX = gesture.pinchPoint.x + (gesture.palmCenter.x - gesture.pinchPoint.x) * magic;
+  const anchorY = gesture.pinchPoint.y + (gesture.palmCenter.y - gesture.pinchPoint.y) * magic;
+  // Screen x is mirrored relative to camera space
+  const dx = 1 - pose.x - anchorX;
+  const dy = pose.y - anchorY;
+  return landmarks.map(lm => ({ x: lm.x + dx, y: lm.y + dy, z: lm.z }));
+};
+
+const LONG_PRESS_MS = 450;
+const LONG_PRESS_SLOP = 10;        // Pixels of movement that cancel a long-press
+const WHEEL_PINCH_RATE = 0.0015;   // Pinch change per wheel delta unit
+const KEY_ROTATE_STEP = 0.15;      // Radians per Q / E press
+const PINCH_ZOOM_RANGE = 0.4;      // Two-finger spread change (fraction of the short screen side) for a full pinch
+// Events on UI controls shouldn't steer the hand
+const UI_SELECTOR = 'button, input, select, textarea, label, a';
+
+const isUiTarget = (target: EventTarget | null) =>
+  target instanceof Element && target.closest(UI_SELECTOR) !== null;
+
+interface TouchGesture {
+  distance: number;
+  angle: number;
+  pinch: number;
+  rotation: number;
+}
+
+// Mouse / touch stand-in for the webcam. Move to steer, scroll or pinch-zoom to open and close
+// the pinch, twist two fingers (or Q / E) to roll, long-press or hold Space to blast.
+// `isMirrored` reports the camera mirroring, so the hand stays under the pointer either way.
+export const createPointerSource = (target: Window = window, isMirrored: () => boolean = () => true): HandInputSource => {
+  const pose: PointerHandPose = { x: 0.5, y: 0.5, pinch: 1, rotation: 0, fist: false };
+  const pointers = new Map<number, { x: number; y: number }>();
+  let active = false;
+  let pressTimer: ReturnType<typeof setTimeout> | undefined;
+  let pressStart: { x: number; y: number } | null = null;
+  let pressFist = false;
+  let keyFist = false;
+  let touchGesture: TouchGesture | null = null;
+
+  const clampPinch = (value: number) => Math.min(Math.max(value, 0), 1);
+
+  const cancelLongPress = () => {
+    clearTimeout(pressTimer);
+    pressStart = null;
+  };
+
+  const updateFist = () => {
+    pose.fist = pressFist || keyFist;
+  };
+
+  const twoFingerSpan = () => {
+    const [a, b] = Array.from(pointers.values());
+    return {
+      x: (a.x + b.x) / 2,
+      y: (a.y + b.y) / 2,
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      angle: Math.atan2(b.y - a.y, b.x - a.x)
+    };
+  };
+
+  const moveTo = (clientX: number, clientY: number) => {
+    pose.x = clientX / target.innerWidth;
+    pose.y = clientY / target.innerHeight;
+    active = true;
+  };
+
+  const onPointerDown = (event: PointerEvent) => {
+    if (isUiTarget(event.target)) return;
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    moveTo(event.clientX, event.clientY);
+
+    if (pointers.size === 2) {
+      cancelLongPress();
+      const span = twoFingerSpan();
+      touchGesture = { distance: span.distance, angle: span.angle, pinch: pose.pinch, rotation: pose.rotation };
+    } else if (pointers.size === 1) {
+      pressStart = { x: event.clientX, y: event.clientY };
+      pressTimer = setTimeout(() => {
+        pressFist = true;
+        updateFist();
+      }, LONG_PRESS_MS);
+    }
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (pointers.has(event.pointerId)) pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (touchGesture && pointers.size >= 2) {
+      const span = twoFingerSpan();
+      const shortSide = Math.min(target.innerWidth, target.innerHeight);
+      moveTo(span.x, span.y);
+      pose.pinch = clampPinch(touchGesture.pinch + (span.distance - touchGesture.distance) / (shortSide * PINCH_ZOOM_RANGE));
+      // Screen y points down, so a counter-clockwise twist lowers the screen angle
+      pose.rotation = touchGesture.rotation - (span.angle - touchGesture.angle);
+      return;
+    }
+
+    // Mouse hover steers too; touch only while a finger is down
+    if (event.pointerType === 'mouse' || pointers.has(event.pointerId)) moveTo(event.clientX, event.clientY);
+    if (pressStart && Math.hypot(event.clientX - pressStart.x, event.clientY - pressStart.y) > LONG_PRESS_SLOP) {
+      cancelLongPress();
+    }
+  };
+
+  const onPointerUp = (event: PointerEvent) => {
+    pointers.delete(event.pointerId);
+    if (pointers.size < 2) touchGesture = null;
+    if (pointers.size === 0) {
+      cancelLongPress();
+      pressFist = false;
+      updateFist();
+    }
+  };
+
+  // Mouse leaving the window hides the hand, like taking it out of the camera's view
+  const onPointerOut = (event: PointerEvent) => {
+    if (event.pointerType === 'mouse' && event.relatedTarget === null) active = false;
+  };
+
+  const onWheel = (event: WheelEvent) => {
+    if (isUiTarget(event.target)) return;
+    pose.pinch = clampPinch(pose.pinch - event.deltaY * WHEEL_PINCH_RATE);
+  };
+
+  const onKey = (event: KeyboardEvent) => {
+    if (isUiTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+    const down = event.type === 'keydown';
+    if (event.code === 'Space') {
+      event.preventDefault();
+      keyFist = down;
+      updateFist();
+    } else if (down && event.code === 'KeyQ') {
+      pose.rotation += KEY_ROTATE_STEP;
+    } else if (down && event.code === 'KeyE') {
+      pose.rotation -= KEY_ROTATE_STEP;
+    }
+  };
+
+  target.addEventListener('pointerdown', onPointerDown);
+  target.addEventListener('pointermove', onPointerMove);
+  target.addEventListener('pointerup', onPointerUp);
+  target.addEventListener('pointercancel', onPointerUp);
+  target.addEventListener('pointerout', onPointerOut);
+  target.addEventListener('wheel', onWheel, { passive: true });
+  target.addEventListener('keydown', onKey);
+  target.addEventListener('keyup', onKey);
+
+  return {
+    read() {
+      if (!active) return [];
+      const landmarks = synthesizeHandLandmarks(pose);
+      // Reflected, the unmirrored HandState comes out the same as the mirrored one
+      return [{ landmarks: isMirrored() ? landmarks : landmarks.map(lm => ({ ...lm, x: 1 - lm.x })), handedness: 'right' }];
+    },
+    dispose() {
+      cancelLongPress();
+      target.removeEventListener('pointerdown', onPointerDown);
+      target.removeEventListener('pointermove', onPointerMove);
+      target.removeEventListener('pointerup', onPointerUp);
+      target.removeEventListener('pointercancel', onPointerUp);
+      target.removeEventListener('pointerout', onPointerOut);
+      target.removeEventListener('wheel', onWheel);
+      target.removeEventListener('keydown', onKey);
+      target.removeEventListener('keyup', onKey);
+    }
+  };
+};
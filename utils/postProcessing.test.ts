@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { HandsState } from '../types';
+import { PostEffectDrivers } from './postProcessing';
+import { createHandsState } from './gestures';
+
+const DT = 1 / 60;
+
+// Both hands idle except the right one, detected at x with the given blast
+const hands = (x: number, blast = 0): HandsState => {
+  const state = createHandsState();
+  state.right = { ...state.right, detected: true, x, y: 0.5, blast };
+  return state;
+};
+
+describe('PostEffectDrivers', () => {
+  it('follows hand speed and blast, rising quickly and fading slowly', () => {
+    const drivers = new PostEffectDrivers();
+    for (let i = 0; i < 30; i++) drivers.update(hands(0.2 + i * 0.01, 1), DT);
+    expect(drivers.speed).toBeGreaterThan(0.5);
+    expect(drivers.blast).toBeGreaterThan(0.9);
+
+    drivers.update(hands(0.5, 0), DT);
+    const afterOne = drivers.blast;
+    expect(afterOne).toBeLessThan(1);
+    expect(afterOne).toBeGreaterThan(0.8);
+  });
+
+  it.each([0, -5000, -Infinity])('keeps its values for a delta of %s', delta => {
+    const drivers = new PostEffectDrivers();
+    drivers.update(hands(0.5, 1), DT);
+    const { speed, blast } = drivers;
+    drivers.update(hands(0.5, 1), delta);
+    expect(drivers.speed).toBe(speed);
+    expect(drivers.blast).toBe(blast);
+    drivers.update(hands(0.5, 1), DT);
+    expect(Number.isFinite(drivers.speed) && Number.isFinite(drivers.blast)).toBe(true);
+  });
+
+  it('steps at most one max frame for a huge delta', () => {
+    const drivers = new PostEffectDrivers();
+    drivers.update(hands(0.5), 1e6);
+    drivers.update(hands(0.5, 1), 1e6);
+    expect(Number.isFinite(drivers.speed)).toBe(true);
+    expect(drivers.blast).toBeGreaterThan(0);
+    expect(drivers.blast).toBeLessThan(1);
+  });
+});
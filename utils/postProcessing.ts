@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import { HandsState, PostProcessingSettings } from '../types';
+import { MAX_FRAME_DELTA } from './sceneClock';
+
+export const DEFAULT_POST_PROCESSING: PostProcessingSettings = {
+  bloom: true,
+  bloomStrength: 0.8,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.1,
+  bloomButterfly: true,
+  bloomEmitters: true,
+  bloomProjectiles: false,  // Glyph edges smear into blobs at their size
+  trails: true,
+  trailLength: 0.85,
+  trailSpeed: 1.5,
+  chromatic: true,
+  chromaticStrength: 0.015,
+  vignette: false,
+  vignetteStrength: 0.6
+};
+
+// Render layers the bloom pass picks from. Every object also stays on layer 0, which the
+// camera sees for the main render.
+const BUTTERFLY_LAYER = 1;
+const EMITTERS_LAYER = 2;
+const PROJECTILES_LAYER = 3;
+
+const layersWith = (layer: number) => {
+  const layers = new THREE.Layers();
+  layers.enable(layer);
+  return layers;
+};
+
+// Pass as the `layers` prop of a particle object
+export const BUTTERFLY_LAYERS = layersWith(BUTTERFLY_LAYER);
+export const EMITTERS_LAYERS = layersWith(EMITTERS_LAYER);
+export const PROJECTILES_LAYERS = layersWith(PROJECTILES_LAYER);
+
+// Camera layer mask that renders only the particle layers selected for bloom
+export const bloomLayerMask = (settings: PostProcessingSettings) => {
+  const layers = new THREE.Layers();
+  layers.disableAll();
+  if (settings.bloomButterfly) layers.enable(BUTTERFLY_LAYER);
+  if (settings.bloomEmitters) layers.enable(EMITTERS_LAYER);
+  if (settings.bloomProjectiles) layers.enable(PROJECTILES_LAYER);
+  return layers.mask;
+};
+
+export const hasPostEffects = (settings: PostProcessingSettings) =>
+  settings.bloom || settings.trails || settings.chromatic || settings.vignette;
+
+// Follows how fast the hands move and how hard they blast, eased so effects swell and fade
+// instead of flickering with tracking noise
+export class PostEffectDrivers {
+  speed = 0;  // Screen widths per second, fastest hand
+  blast = 0;  // 0 to 1, strongest hand
+  private readonly last = { left: { x: 0, y: 0, seen: false }, right: { x: 0, y: 0, seen: false } };
+
+  // A negative or huge delta would push the easing past its target (or to NaN, which never
+  // recovers), so it is clamped like the scene clock's
+  update(hands: HandsState, frameDelta: number) {
+    const delta = Math.min(Math.max(frameDelta, 0), MAX_FRAME_DELTA);
+    let speed = 0;
+    let blast = 0;
+    (['left', 'right'] as const).forEach(side => {
+      const hand = hands[side];
+      const last = this.last[side];
+      if (hand.detected) {
+        if (last.seen && delta > 0) speed = Math.max(speed, Math.hypot(hand.x - last.x, hand.y - last.y) / delta);
+        blast = Math.max(blast, hand.blast);
+      }
+      last.x = hand.x;
+      last.y = hand.y;
+      last.seen = hand.detected;
+    });
+
+    // Quick to rise, slower to fall
+    const ease = (current: number, target: number) =>
+      THREE.MathUtils.lerp(current, target, 1 - Math.exp(-delta * (target > current ? 12 : 4)));
+    this.speed = ease(this.speed, speed);
+    this.blast = ease(this.blast, blast);
+  }
+
+  // Afterimage damping: no trail while the hands rest, `trailLength` once they reach `trailSpeed`
+  trailDamping(settings: PostProcessingSettings) {
+    return settings.trailLength * THREE.MathUtils.smoothstep(this.speed, settings.trailSpeed * 0.2, settings.trailSpeed);
+  }
+}
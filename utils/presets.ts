@@ -0,0 +1,88 @@
+import { ButterflyParams, HandBindings, Preset, RenderSettings } from '../types';
+import { DEFAULT_THEME, NEBULA, SOLAR_GOLD } from './themes';
+
+export const DEFAULT_PARAMS: ButterflyParams = {
+  iter: 24, // 24 PI
+  a: 1.0,   // exp(sin(t)) multiplier
+  b: 2.0,   // cos(4t) multiplier
+  c: 5.0,   // power of sin term
+  scale: 3.5, // Increased size of butterfly
+  morph: 1.0 // Show the butterfly curve rather than the geometric orb
+};
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  particleSize: 12.0, // Thicker lines for orb
+  blastStrength: 1.0,
+  blastGravity: 8.0,  // Reduced gravity for slower fall
+  blastDrag: 0.6,
+  blastBounce: 0.35,
+  groundHeight: -26,  // Just above the bottom edge of the default view
+  handForce: 150,
+  morphSpeed: 0.05,
+  magicSpeed: 0.08,
+  blastRampSpeed: 0.08,
+  blastRecoverySpeed: 0.06 // Faster decay to return to magic circle quickly
+};
+
+// Shipped presets; these can be restored but not overwritten or deleted
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: 'Default', params: DEFAULT_PARAMS, settings: DEFAULT_RENDER_SETTINGS },
+  {
+    name: 'Geometric Orb',
+    params: { ...DEFAULT_PARAMS, morph: 0.0 },
+    settings: DEFAULT_RENDER_SETTINGS
+  },
+  {
+    name: 'Swallowtail',
+    params: { ...DEFAULT_PARAMS, a: 1.4, b: 2.6, c: 3.0, iter: 12 },
+    settings: { ...DEFAULT_RENDER_SETTINGS, particleSize: 10.0 },
+    theme: SOLAR_GOLD
+  },
+  {
+    name: 'Supernova',
+    params: DEFAULT_PARAMS,
+    settings: { ...DEFAULT_RENDER_SETTINGS, blastStrength: 2.0, blastGravity: 3.0, blastRampSpeed: 0.2 },
+    theme: NEBULA
+  }
+];
+
+const STORAGE_KEY = 'butterfly-visualizer:presets';
+
+// User presets persisted in localStorage; missing fields fall back to defaults so
+// presets saved by older versions still load. Those kept the orb color in params; it becomes
+// a one-color theme.
+export const loadPresets = (): Preset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((preset): preset is Preset => typeof preset?.name === 'string')
+      .map(preset => {
+        const { color, ...params } = (preset.params ?? {}) as Partial<ButterflyParams> & { color?: unknown };
+        const theme = preset.theme
+          ?? (typeof color === 'string' ? { ...DEFAULT_THEME, name: preset.name, orbColors: [color] } : undefined);
+        return {
+          name: preset.name,
+          params: { ...DEFAULT_PARAMS, ...params },
+          settings: { ...DEFAULT_RENDER_SETTINGS, ...preset.settings },
+          ...(theme && { theme: { ...DEFAULT_THEME, ...theme } })
+        };
+      });
+  } catch {
+    return [];
+  }
+};
+
+const storePresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+// Saves or replaces the preset with the same name
+export const savePreset = (preset: Preset): Preset[] =>
+  storePresets([...loadPresets().filter(p => p.name !== preset.name), preset]);
+
+export const deletePreset = (name: string): Preset[] =>
+  storePresets(loadPresets().filter(p => p.name !== name));
+
+export const DEFAULT_HAND_BINDINGS: HandBindings = { orb: 'any', magicCircle: 'any' };
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { CONTENT_VALUES, FingerContent, contentGlyphs } from './projectileContent';
+import { ATLAS_COLUMNS } from './glyphAtlas';
+
+const TEXT = 'MAGIC & MATH ✨';
+
+describe('contentGlyphs', () => {
+  it('covers every token each content stream produces', () => {
+    const glyphs = new Set(contentGlyphs(TEXT));
+    CONTENT_VALUES.filter(content => content !== 'ring').forEach(content => {
+      const finger = new FingerContent();
+      // Long enough to wrap the Fibonacci sequence and the text
+      for (let i = 0; i < 500; i++) {
+        const token = finger.next(content, TEXT, 'digits');
+        if (token.trim()) expect(glyphs, `${content}: ${token}`).toContain(token);
+      }
+    });
+  });
+
+  it('never asks for whitespace', () => {
+    expect(contentGlyphs(TEXT).every(token => token.trim() === token && token !== '')).toBe(true);
+  });
+
+  it('leaves most of the atlas free for custom text', () => {
+    expect(contentGlyphs().length).toBeLessThan((ATLAS_COLUMNS * ATLAS_COLUMNS) / 2);
+  });
+});
@@ -0,0 +1,155 @@
+import { ProjectileContent, RingLayer } from '../types';
+import { resolveRingLayers } from './rings';
+
+// Produces a finger's next glyph; sequences pick up where they left off
+type ContentStream = () => string;
+
+interface ContentSource {
+  label: string;
+  create: (text: string) => ContentStream;
+  glyphs: (text: string) => readonly string[];  // Every token the stream can produce
+}
+
+const randomFrom = (tokens: readonly string[]): ContentStream =>
+  () => tokens[Math.floor(Math.random() * tokens.length)];
+
+const cycle = (tokens: readonly string[]): ContentStream => {
+  let index = 0;
+  return () => {
+    const token = tokens[index];
+    index = (index + 1) % tokens.length;
+    return token;
+  };
+};
+
+const SEQUENCE_DIGITS = 1000;  // Digits of π and e before the sequence repeats
+const GUARD_DIGITS = 10;       // Extra precision absorbing the series' rounding
+
+// arctan(1 / x) in fixed point (scaled by `unity`), from its Taylor series
+const arctanInverse = (x: bigint, unity: bigint) => {
+  const xSquared = x * x;
+  let sum = 0n;
+  let power = unity / x;
+  for (let n = 1n, sign = 1n; power !== 0n; n += 2n, sign = -sign) {
+    sum += (sign * power) / n;
+    power /= xSquared;
+  }
+  return sum;
+};
+
+// Machin's formula: π = 16·arctan(1/5) − 4·arctan(1/239)
+const piFixed = (unity: bigint) => 16n * arctanInverse(5n, unity) - 4n * arctanInverse(239n, unity);
+
+// e = Σ 1/k!
+const eFixed = (unity: bigint) => {
+  let sum = 0n;
+  for (let k = 1n, term = unity; term !== 0n; k++) {
+    sum += term;
+    term /= k;
+  }
+  return sum;
+};
+
+// First SEQUENCE_DIGITS decimal digits of a constant, computed once on first use
+const digitsOf = (fixed: (unity: bigint) => bigint) => {
+  let digits: string[] | null = null;
+  return () => {
+    if (!digits) {
+      const unity = 10n ** BigInt(SEQUENCE_DIGITS + GUARD_DIGITS);
+      digits = Array.from((fixed(unity) / 10n ** BigInt(GUARD_DIGITS)).toString().slice(0, SEQUENCE_DIGITS));
+    }
+    return digits;
+  };
+};
+const piDigits = digitsOf(piFixed);
+const eDigits = digitsOf(eFixed);
+
+const FIBONACCI_LIMIT = 1e6;  // Restart before the numbers get too long to read
+
+const fibonacci = (): ContentStream => {
+  let current = 0;
+  let next = 1;
+  return () => {
+    const token = String(current);
+    [current, next] = next >= FIBONACCI_LIMIT ? [0, 1] : [next, current + next];
+    return token;
+  };
+};
+
+// One full run of the sequence, up to where it restarts
+const fibonacciNumbers = () => {
+  const stream = fibonacci();
+  const numbers = [stream()];
+  for (let token = stream(); token !== '0'; token = stream()) numbers.push(token);
+  return numbers;
+};
+
+const DIGITS = Array.from('0123456789');
+
+const GREEK = Array.from('αβγδεζηθικλμνξοπρστυφχψω');
+const SYMBOLS = Array.from('∑∫∮√∞∂∇±×÷≈≠≤≥∈∀∃∅∴ΔΩφπ');
+const EQUATIONS = ['E=mc²', 'πr²', 'a²+b²', 'i²=−1', 'eⁱᶿ', '√2', 'φ²=φ+1', 'dy/dx', '∮E·dA', 'n!', '1+1=2', 'ζ(s)'];
+const RUNES = Array.from('ᚠᚢᚦᚨᚱᚲᚷᚹᚺᚾᛁᛃᛇᛈᛉᛊᛏᛒᛖᛗᛚᛜᛞᛟ');
+
+type SourceId = Exclude<ProjectileContent, 'ring'>;
+
+const CONTENT_SOURCES: Record<SourceId, ContentSource> = {
+  digits: { label: 'Random digits', create: () => randomFrom(DIGITS), glyphs: () => DIGITS },
+  pi: { label: 'Digits of π', create: () => cycle(piDigits()), glyphs: () => DIGITS },
+  e: { label: 'Digits of e', create: () => cycle(eDigits()), glyphs: () => DIGITS },
+  fibonacci: { label: 'Fibonacci', create: fibonacci, glyphs: fibonacciNumbers },
+  greek: { label: 'Greek letters', create: () => randomFrom(GREEK), glyphs: () => GREEK },
+  symbols: { label: 'Math symbols', create: () => randomFrom(SYMBOLS), glyphs: () => SYMBOLS },
+  equations: { label: 'Equations', create: () => randomFrom(EQUATIONS), glyphs: () => EQUATIONS },
+  runes: { label: 'Runes', create: () => randomFrom(RUNES), glyphs: () => RUNES },
+  // Character by character; whitespace comes out as a gap
+  text: { label: 'My text', create: text => (text ? cycle(Array.from(text)) : () => ''), glyphs: text => Array.from(text) }
+};
+
+export const CONTENT_OPTIONS: { value: ProjectileContent; label: string }[] = [
+  { value: 'ring', label: 'Follow magic circle' },
+  ...(Object.keys(CONTENT_SOURCES) as SourceId[]).map(id => ({ value: id, label: CONTENT_SOURCES[id].label }))
+];
+
+export const CONTENT_VALUES = CONTENT_OPTIONS.map(option => option.value);
+
+// Every glyph any content can show, given the custom text; whitespace is never drawn.
+// Without text these are the built-in glyphs, fixed for the whole session.
+export const contentGlyphs = (text = '') => {
+  const glyphs = new Set<string>();
+  (Object.keys(CONTENT_SOURCES) as SourceId[]).forEach(id => {
+    CONTENT_SOURCES[id].glyphs(text).forEach(token => token.trim() && glyphs.add(token));
+  });
+  return Array.from(glyphs);
+};
+
+// Content of the most visible magic circle layer: the one with the largest share of the
+// particles, the outermost on a tie. Layers without their own content shoot digits.
+export const dominantRingContent = (layers: RingLayer[]): SourceId => {
+  const resolved = resolveRingLayers(layers);
+  if (resolved.length === 0) return 'digits';
+  const dominant = resolved.reduce((best, layer) => (layer.module.budget >= best.module.budget ? layer : best));
+  const content = dominant.module.content;
+  return content && content !== 'ring' ? content : 'digits';
+};
+
+// One finger's streams, created on first use so switching away and back resumes a sequence
+export class FingerContent {
+  private readonly streams = new Map<string, ContentStream>();
+
+  // `ringContent` stands in for 'ring' (see dominantRingContent)
+  next(content: ProjectileContent, text: string, ringContent: SourceId) {
+    const source = content === 'ring' ? ringContent : content;
+    const key = source === 'text' ? `text:${text}` : source;
+    let stream = this.streams.get(key);
+    if (!stream) {
+      // Edited text starts over from its first character
+      if (source === 'text') {
+        Array.from(this.streams.keys()).filter(k => k.startsWith('text:')).forEach(k => this.streams.delete(k));
+      }
+      stream = CONTENT_SOURCES[source].create(text);
+      this.streams.set(key, stream);
+    }
+    return stream();
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectilePool, ProjectileSpawn } from './projectilePool';
+
+const spawn = (glyph: number, time: number, lifetime = 1): ProjectileSpawn => ({
+  x: 0, y: 0, velocityX: 0, velocityY: 0, time, lifetime, scale: 1, glyph, color: { r: 1, g: 1, b: 1 }
+});
+
+describe('ProjectilePool', () => {
+  it('reports the glyph cells of projectiles still in flight', () => {
+    const pool = new ProjectilePool(4);
+    pool.spawn(spawn(3, 0));
+    pool.spawn(spawn(7, 0.5));
+    expect(pool.liveGlyphs(0.8)).toEqual(new Set([3, 7]));
+    expect(pool.liveGlyphs(1.2)).toEqual(new Set([7]));
+    pool.clear();
+    expect(pool.liveGlyphs(0.8).size).toBe(0);
+  });
+
+  it('splits dirty slots into two ranges when writes wrap around', () => {
+    const pool = new ProjectilePool(4);
+    [0, 1, 2].forEach(i => pool.spawn(spawn(i, 0)));
+    expect(pool.takeDirtyRanges()).toEqual([[0, 3]]);
+    [3, 4].forEach(i => pool.spawn(spawn(i, 0)));
+    expect(pool.takeDirtyRanges()).toEqual([[3, 1], [0, 1]]);
+    expect(pool.takeDirtyRanges()).toEqual([]);
+  });
+});
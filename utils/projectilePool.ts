@@ -0,0 +1,83 @@
+import { ProjectileSettings } from '../types';
+
+export const DEFAULT_PROJECTILES: ProjectileSettings = {
+  enabled: true,
+  spawnRate: 5,
+  lifetime: 2,
+  speed: 20,
+  thumbContent: 'digits',
+  indexContent: 'digits',
+  middleContent: 'digits',
+  ringContent: 'digits',
+  pinkyContent: 'digits',
+  text: 'MAGIC & MATH '
+};
+
+export interface ProjectileSpawn {
+  x: number;          // Start position in the camera-facing plane
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  time: number;       // Scene time at spawn
+  lifetime: number;
+  scale: number;
+  glyph: number;      // GlyphAtlas cell
+  color: { r: number; g: number; b: number };
+}
+
+// Fixed-capacity ring of projectile slots, laid out as instanced attribute data. A slot only
+// stores how its projectile was launched; the vertex shader derives position, size and fade
+// from the scene time, so live projectiles cost nothing on the CPU after they spawn.
+// When the ring is full, new projectiles replace the oldest.
+export class ProjectilePool {
+  readonly start: Float32Array;   // x, y, spawn time, lifetime (0 = empty slot)
+  readonly motion: Float32Array;  // velocity x, y, scale, glyph atlas cell
+  readonly color: Float32Array;   // rgb
+  private cursor = 0;
+  private dirtyFrom = 0;
+  private dirtyCount = 0;
+
+  constructor(readonly capacity: number) {
+    this.start = new Float32Array(capacity * 4);
+    this.motion = new Float32Array(capacity * 4);
+    this.color = new Float32Array(capacity * 3);
+  }
+
+  spawn(projectile: ProjectileSpawn) {
+    const slot = this.cursor;
+    this.start.set([projectile.x, projectile.y, projectile.time, projectile.lifetime], slot * 4);
+    this.motion.set([projectile.velocityX, projectile.velocityY, projectile.scale, projectile.glyph], slot * 4);
+    this.color.set([projectile.color.r, projectile.color.g, projectile.color.b], slot * 3);
+
+    if (this.dirtyCount === 0) this.dirtyFrom = slot;
+    this.dirtyCount = Math.min(this.dirtyCount + 1, this.capacity);
+    this.cursor = (slot + 1) % this.capacity;
+  }
+
+  // Empties every slot, e.g. when the scene clock jumps back and old spawn times would replay
+  clear() {
+    this.start.fill(0);
+    this.cursor = 0;
+    this.dirtyFrom = 0;
+    this.dirtyCount = this.capacity;
+  }
+
+  // Atlas cells shown by projectiles still in flight at scene time `time`
+  liveGlyphs(time: number) {
+    const cells = new Set<number>();
+    for (let slot = 0; slot < this.capacity; slot++) {
+      const lifetime = this.start[slot * 4 + 3];
+      if (lifetime > 0 && time - this.start[slot * 4 + 2] < lifetime) cells.add(this.motion[slot * 4 + 3]);
+    }
+    return cells;
+  }
+
+  // Slots written since the last call as [first, count] ranges; two when the writes wrapped
+  takeDirtyRanges(): [number, number][] {
+    const { dirtyFrom: from, dirtyCount: count } = this;
+    this.dirtyCount = 0;
+    if (count === 0) return [];
+    if (from + count <= this.capacity) return [[from, count]];
+    return [[from, this.capacity - from], [0, from + count - this.capacity]];
+  }
+}
@@ -0,0 +1,94 @@
+import { RingModule } from '../../types';
+
+// Precision geometry with sacred math: dodecagon, triangle grid, arcs and a pi-digit ring
+export const dodecagon: RingModule = {
+  id: 'dodecagon',
+  name: 'Dodecagon & π',
+  budget: 1,
+  rotationSpeed: 1,
+  content: 'pi',
+  glsl: `
+    if (segmentProgress < 0.25) {
+         // Outer dodecagon (12-sided) with intricate detail
+         float localP = segmentProgress / 0.25;
+         float dodAngle = localP * 6.28 + t * 0.15;
+         float dodR = 8.0 / cos(mod(dodAngle + 0.2618, 0.5236) - 0.2618);
+         r = dodR;
+         theta = dodAngle;
+
+         // Degree markers every 15 degrees (24 markers)
+         float degMark = mod(dodAngle * 57.2958, 15.0);
+         if (degMark < 1.5 || degMark > 13.5) {
+             r += 0.35;
+             sizeMult = 1.5;
+         }
+         // Major markers every 45 degrees
+         float majorMark = mod(dodAngle * 57.2958, 45.0);
+         if (majorMark < 2.0 || majorMark > 43.0) {
+             r += 0.2;
+             sizeMult = 2.0;
+         }
+    } else if (segmentProgress < 0.45) {
+         // Rotating triangular grid
+         innerCircle = 1.0;
+         float localP = (segmentProgress - 0.25) / 0.2;
+         float numTris = 6.0;
+         float triIdx = floor(localP * numTris);
+         float triProgress = fract(localP * numTris);
+
+         float triBaseAngle = (triIdx / numTris) * 6.28 + t * 0.75;
+         float triR = 1.6;
+         float triSize = 0.7;
+
+         float triVertexAngle = triProgress * 6.28;
+         float triVertexR = triSize / cos(mod(triVertexAngle + 0.523, 2.094) - 1.047);
+
+         vec2 triCenter = vec2(cos(triBaseAngle), sin(triBaseAngle)) * triR;
+         vec2 triPoint = triCenter + vec2(cos(triVertexAngle + triBaseAngle), sin(triVertexAngle + triBaseAngle)) * triVertexR;
+
+         r = length(triPoint);
+         theta = atan(triPoint.y, triPoint.x);
+         sizeMult = 0.5;
+    } else if (segmentProgress < 0.65) {
+         // Concentric arcs with gaps
+         float localP = (segmentProgress - 0.45) / 0.2;
+         float arcAngle = localP * 6.28 - t * 0.4;
+         float arcIdx = floor(localP * 8.0);
+         float arcProgress = fract(localP * 8.0);
+
+         // Create arc gaps
+         if (arcProgress > 0.15 && arcProgress < 0.85) {
+             r = 6.8 - mod(arcIdx, 3.0) * 0.4;
+             theta = arcAngle;
+             sizeMult = 0.6;
+         } else {
+             r = 0.001; // Hide in gaps
+         }
+    } else if (segmentProgress < 0.8) {
+         // Pi-based circle with digits visualization
+         float localP = (segmentProgress - 0.65) / 0.15;
+         float piAngle = localP * 6.28 + t * 0.35;
+         r = 7.2;
+         theta = piAngle;
+
+         // Create pattern based on pi digits (3.14159...)
+         float digitIdx = floor(localP * 20.0);
+         float piDigits[10] = float[10](3.0, 1.0, 4.0, 1.0, 5.0, 9.0, 2.0, 6.0, 5.0, 3.0);
+         int idx = int(mod(digitIdx, 10.0));
+         float digit = piDigits[idx];
+
+         r = 7.0 + digit * 0.08;
+         sizeMult = 0.4 + digit * 0.1;
+    } else {
+         // Inner mandala pattern
+         float localP = (segmentProgress - 0.8) / 0.2;
+         float mandalaAngle = localP * 6.28 * 2.0 - t * 0.6;
+         float mandalaR = 4.5 + 0.8 * sin(mandalaAngle * 8.0);
+         mandalaR += 0.3 * sin(mandalaAngle * 16.0 + t);
+
+         r = mandalaR;
+         theta = localP * 6.28;
+         sizeMult = 0.65;
+    }
+  `
+};
@@ -0,0 +1,62 @@
+import { RingModule } from '../../types';
+
+// Intricate Flower of Life with nested circles
+export const flowerOfLife: RingModule = {
+  id: 'flowerOfLife',
+  name: 'Flower of Life',
+  budget: 1,
+  rotationSpeed: 1,
+  content: 'greek',
+  glsl: `
+    float localP = segmentProgress;
+
+    if (localP < 0.5) {
+        // Main flower pattern - 6 overlapping circles
+        float flowerP = localP / 0.5;
+        float numPetals = 6.0;
+        float petalIdx = floor(flowerP * numPetals);
+        float petalProgress = fract(flowerP * numPetals);
+
+        float petalAngle = (petalIdx / numPetals) * 6.28 - t * 0.35;
+        float petalR = 1.8;
+        float circleR = 1.8;
+
+        float localAngle = petalProgress * 6.28;
+        vec2 petalCenter = vec2(cos(petalAngle), sin(petalAngle)) * petalR;
+        vec2 pointOnPetal = petalCenter + vec2(cos(localAngle), sin(localAngle)) * circleR;
+
+        r = length(pointOnPetal);
+        theta = atan(pointOnPetal.y, pointOnPetal.x);
+        sizeMult = 0.5;
+    } else if (localP < 0.75) {
+        // Secondary ring of 12 smaller circles
+        float secP = (localP - 0.5) / 0.25;
+        float numSmall = 12.0;
+        float smallIdx = floor(secP * numSmall);
+        float smallProgress = fract(secP * numSmall);
+
+        float smallAngle = (smallIdx / numSmall) * 6.28 + t * 0.5;
+        float smallR = 3.8;
+        float circR = 0.6;
+
+        float localAngle = smallProgress * 6.28;
+        vec2 smallCenter = vec2(cos(smallAngle), sin(smallAngle)) * smallR;
+        vec2 point = smallCenter + vec2(cos(localAngle), sin(localAngle)) * circR;
+
+        r = length(point);
+        theta = atan(point.y, point.x);
+        sizeMult = 0.4;
+    } else {
+        // Connecting radial lines
+        float lineP = (localP - 0.75) / 0.25;
+        float numLines = 12.0;
+        float lineIdx = floor(lineP * numLines);
+        float lineProgress = fract(lineP * numLines);
+
+        float lineAngle = (lineIdx / numLines) * 6.28 - t * 0.25;
+        r = 1.5 + lineProgress * 2.8;
+        theta = lineAngle;
+        sizeMult = 0.3;
+    }
+  `
+};
@@ -0,0 +1,52 @@
+import { RingModule } from '../../types';
+
+// Golden ratio spirals with mathematical precision
+export const goldenSpiral: RingModule = {
+  id: 'goldenSpiral',
+  name: 'Golden spiral',
+  budget: 1,
+  rotationSpeed: 1,
+  style: 'flicker',
+  content: 'fibonacci',
+  glsl: `
+    float localP = segmentProgress;
+
+    if (localP < 0.6) {
+        // Fibonacci spiral points
+        float fibP = localP / 0.6;
+        float fibIdx = fibP * 144.0; // Fibonacci number
+        float goldenAngle = 2.39996322; // Exact golden angle
+
+        theta = fibIdx * goldenAngle + t * 0.15;
+        r = sqrt(fibIdx) * 0.55 + 2.0;
+
+        // Pulsing based on position
+        r += 0.15 * sin(fibIdx * 0.3 + t * 3.0);
+        z = sin(fibIdx * 0.2 + t) * 2.0 * uMagic;
+        sizeMult = 0.6 + 0.3 * sin(fibIdx * 0.4);
+    } else if (localP < 0.8) {
+        // Logarithmic spiral
+        float spiralP = (localP - 0.6) / 0.2;
+        float spiralAngle = spiralP * 6.28 * 2.0 + t * 0.3;
+        float a = 0.5;
+        float b = 0.15;
+        float logR = a * exp(b * spiralAngle);
+
+        r = 2.0 + mod(logR, 5.0);
+        theta = spiralAngle;
+        z = (hash(progress * 1.5) - 0.5) * 3.0 * uMagic;
+        sizeMult = 0.7;
+    } else {
+        // Fermat spiral (parabolic)
+        float fermatP = (localP - 0.8) / 0.2;
+        float fermatIdx = fermatP * 50.0;
+        float fermatAngle = sqrt(fermatIdx) * 2.5 - t * 0.5;
+
+        r = sqrt(fermatIdx) * 0.9 + 3.0;
+        r = mod(r - 3.0, 4.5) + 3.0;
+        theta = fermatAngle;
+        z = cos(fermatIdx * 0.3) * 1.5 * uMagic;
+        sizeMult = 0.55;
+    }
+  `
+};
@@ -0,0 +1,64 @@
+import { RingModule } from '../../types';
+
+// Multi-layered hexagonal core with Metatron's Cube elements
+export const hexCore: RingModule = {
+  id: 'hexCore',
+  name: 'Hexagonal core',
+  budget: 1,
+  rotationSpeed: 1,
+  content: 'digits',
+  glsl: `
+    float localP = segmentProgress;
+
+    if (localP < 0.25) {
+        // Innermost hexagon - rotates clockwise
+        float hexP = localP / 0.25;
+        float baseAngle = hexP * 6.28;
+        float hexShape = 1.6 / cos(mod(baseAngle + 0.523, 1.047) - 0.523);
+        r = hexShape;
+        theta = baseAngle + t * 1.5; // Apply rotation to theta only
+        sizeMult = 1.5;
+
+        // Bright vertex markers
+        float vertexPhase = mod(baseAngle + 0.523, 1.047);
+        if (vertexPhase < 0.15 || vertexPhase > 0.9) {
+            sizeMult = 2.5;
+        }
+    } else if (localP < 0.5) {
+        // Second inner hexagon - rotates counter-clockwise (opposite to innermost)
+        float hexP = (localP - 0.25) / 0.25;
+        float baseAngle = hexP * 6.28;
+        float hexShape = 2.4 / cos(mod(baseAngle + 0.523, 1.047) - 0.523);
+        r = hexShape;
+        theta = baseAngle - t * 1.5; // Apply rotation to theta only (opposite direction)
+        sizeMult = 1.3;
+
+        // Bright vertex markers
+        float vertexPhase = mod(baseAngle + 0.523, 1.047);
+        if (vertexPhase < 0.15 || vertexPhase > 0.9) {
+            sizeMult = 2.2;
+        }
+    } else if (localP < 0.7) {
+        // Middle circle with tick marks
+        float circP = (localP - 0.5) / 0.2;
+        float circAngle = circP * 6.28 + t * 0.5;
+        r = 3.0;
+        theta = circAngle;
+
+        // 12 evenly spaced tick marks
+        float tickPhase = mod(circAngle * 1.909, 1.0);
+        if (tickPhase < 0.08) {
+            r = 3.3;
+            sizeMult = 1.4;
+        }
+    } else {
+        // Outer hexagon - rotates clockwise (opposite to second inner)
+        float hexP = (localP - 0.7) / 0.3;
+        float baseAngle = hexP * 6.28;
+        float hexShape = 3.6 / cos(mod(baseAngle + 0.523, 1.047) - 0.523);
+        r = hexShape;
+        theta = baseAngle + t * 1.2; // Apply rotation to theta only
+        sizeMult = 1.0;
+    }
+  `
+};
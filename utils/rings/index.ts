@@ -0,0 +1,102 @@
+import { RingLayer, RingModule } from '../../types';
+import { hexCore } from './hexCore';
+import { flowerOfLife } from './flowerOfLife';
+import { interlockingStars } from './interlockingStars';
+import { dodecagon } from './dodecagon';
+import { goldenSpiral } from './goldenSpiral';
+import { orbitingOrbs } from './orbitingOrbs';
+
+// Most layers the shader takes; per-layer colors and styles are uniform arrays of this size
+export const MAX_RING_LAYERS = 12;
+
+// uRingStyles values in the fragment shader
+export const RING_STYLE_CODES = { solid: 0, flicker: 1, trail: 2 } as const;
+
+const GLSL_IDENTIFIER = /^[A-Za-z][A-Za-z0-9]*$/;
+
+const registry = new Map<string, RingModule>();
+
+// Adds a layer type to the library; registered modules show up in the control panel's layer
+// picker and are accepted in scene configs
+export const registerRingModule = (module: RingModule) => {
+  if (!GLSL_IDENTIFIER.test(module.id)) {
+    throw new Error(`Ring module id "${module.id}" must start with a letter and contain only letters and digits`);
+  }
+  if (!(module.budget > 0)) throw new Error(`Ring module "${module.id}" needs a positive particle budget`);
+  registry.set(module.id, module);
+};
+
+export const getRingModule = (id: string) => registry.get(id);
+
+export const listRingModules = () => Array.from(registry.values());
+
+const BUILT_IN_RINGS = [hexCore, flowerOfLife, interlockingStars, dodecagon, goldenSpiral, orbitingOrbs];
+BUILT_IN_RINGS.forEach(registerRingModule);
+
+// The original six-layer magic circle, innermost first
+export const DEFAULT_RING_LAYERS: RingLayer[] = BUILT_IN_RINGS.map(ring => ({ module: ring.id }));
+
+// Layers whose module is registered; unknown ids are skipped
+export const resolveRingLayers = (layers: RingLayer[]) => layers.flatMap(layer => {
+  const module = getRingModule(layer.module);
+  return module ? [{ layer, module }] : [];
+});
+
+// Identifies the shader a layer list compiles to: adding, removing or reordering layers changes
+// it and rebuilds the shader.
+export const ringLayoutKey = (layers: RingLayer[]) => layers.map(layer => layer.module).join(',');
+
+const glslFloat = (value: number) => value.toFixed(6);
+
+// GLSL for the selected layers: one function per module, and ringPoint(), which hands each
+// particle to a layer by its progress, in proportion to the layers' particle budgets
+export const buildRingGlsl = (layers: RingLayer[]) => {
+  const modules = resolveRingLayers(layers).map(({ module }) => module);
+  const totalBudget = modules.reduce((sum, module) => sum + module.budget, 0);
+
+  const functions = Array.from(new Set(modules)).map(module => `
+  void ring_${module.id}(float segmentProgress, float progress, float t, inout RingPoint ring) {
+    float r = 0.0;
+    float theta = 0.0;
+    float z = 0.0;
+    float sizeMult = 1.0;
+    float innerCircle = 0.0;
+    float orbTrail = 1.0;
+${module.glsl}
+    ring.r = r;
+    ring.theta = theta;
+    ring.z = z;
+    ring.sizeMult = sizeMult;
+    ring.innerCircle = innerCircle;
+    ring.orbTrail = orbTrail;
+  }`).join('\n');
+
+  let start = 0;
+  const branches = modules.map((module, index) => {
+    const width = module.budget / totalBudget;
+    const call = `ring_${module.id}((progress - ${glslFloat(start)}) / ${glslFloat(width)}, progress, time * ${glslFloat(module.rotationSpeed)}, ring);`;
+    start += width;
+    const otherwise = index > 0 ? 'else ' : '';
+    const condition = index === modules.length - 1 ? otherwise : `${otherwise}if (progress < ${glslFloat(start)}) `;
+    return `    ${condition}{ ${call} ring.layer = ${glslFloat(index)}; }`;
+  });
+
+  return `
+  struct RingPoint {
+    float r;
+    float theta;
+    float z;
+    float sizeMult;
+    float innerCircle;
+    float orbTrail;
+    float layer;       // Index into the selected layers
+  };
+${functions}
+
+  RingPoint ringPoint(float progress, float time) {
+    RingPoint ring = RingPoint(0.0, 0.0, 0.0, 1.0, 0.0, 1.0, 0.0);
+${branches.join('\n')}
+    return ring;
+  }
+`;
+};
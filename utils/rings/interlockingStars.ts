@@ -0,0 +1,69 @@
+import { RingModule } from '../../types';
+
+// Complex interlocking geometric shapes
+export const interlockingStars: RingModule = {
+  id: 'interlockingStars',
+  name: 'Interlocking stars',
+  budget: 1,
+  rotationSpeed: 1,
+  content: 'symbols',
+  glsl: `
+    float localP = segmentProgress;
+
+    if (localP < 0.3) {
+        // Dual rotating squares forming star
+        float sqP = localP / 0.3;
+        float sqAngle = sqP * 6.28;
+        float sq1Angle = sqAngle + t * 0.35;
+        float sq2Angle = sqAngle - t * 0.35 + 0.7854;
+
+        float r1 = 5.2 / cos(mod(sq1Angle + 0.7854, 1.5708) - 0.7854);
+        float r2 = 5.2 / cos(mod(sq2Angle + 0.7854, 1.5708) - 0.7854);
+
+        float whichSq = step(0.5, fract(sqP * 2.0));
+        r = mix(r1, r2, whichSq);
+        theta = mix(sq1Angle, sq2Angle, whichSq);
+        sizeMult = 0.6;
+    } else if (localP < 0.5) {
+        // Inner rotating hexagram (6-pointed star)
+        float starP = (localP - 0.3) / 0.2;
+        float starAngle = starP * 6.28 - t * 0.55;
+
+        // Two overlapping triangles
+        float tri1R = 4.2 / cos(mod(starAngle + 0.523, 2.094) - 1.047);
+        float tri2R = 4.2 / cos(mod(starAngle + 0.523 + 1.047, 2.094) - 1.047);
+
+        float whichTri = step(0.5, fract(starP * 2.0));
+        r = mix(tri1R, tri2R, whichTri);
+        theta = starAngle;
+        sizeMult = 0.55;
+    } else if (localP < 0.75) {
+        // Spirograph-like pattern
+        float spiroP = (localP - 0.5) / 0.25;
+        float bigR = 5.8;
+        float smallR = 1.2;
+        float ratio = 7.0;
+
+        float spiroAngle = spiroP * 6.28 * 3.0 + t * 0.6;
+        float x = (bigR - smallR) * cos(spiroAngle) + smallR * cos(spiroAngle * ratio);
+        float y = (bigR - smallR) * sin(spiroAngle) + smallR * sin(spiroAngle * ratio);
+
+        r = length(vec2(x, y)) * 0.75;
+        theta = atan(y, x);
+        sizeMult = 0.5;
+    } else {
+        // Outer circle with pointed sawtooth wave pattern
+        float waveP = (localP - 0.75) / 0.25;
+        float waveAngle = waveP * 6.28 + t * 0.15;
+        float waves = 16.0;
+
+        // Create pointed/sawtooth pattern instead of smooth sine
+        float toothPhase = fract(waveAngle * waves / 6.28 + t * 0.3);
+        float pointed = abs(toothPhase - 0.5) * 2.0; // Triangle wave (0 to 1 to 0)
+
+        r = 5.8 + pointed * 0.6;
+        theta = waveAngle;
+        sizeMult = 0.5 + pointed * 0.4;
+    }
+  `
+};
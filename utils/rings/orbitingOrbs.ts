@@ -0,0 +1,100 @@
+import { RingModule } from '../../types';
+
+// 7 rotating orbs with free movement responding to palm rotation
+export const orbitingOrbs: RingModule = {
+  id: 'orbitingOrbs',
+  name: 'Orbiting orbs',
+  budget: 1,
+  rotationSpeed: 1,
+  style: 'trail',
+  content: 'runes',
+  glsl: `
+    float numOrbs = 7.0;
+    float orbIdx = floor(segmentProgress * numOrbs);
+    float orbProgress = fract(segmentProgress * numOrbs);
+
+    // Orbit radius and rotation
+    float orbitR = 10.0; // Distance from center
+    float baseAngle = (orbIdx / numOrbs) * 6.28318; // Evenly spaced
+
+    // Each orb has unique phase and response to rotation
+    float orbPhase = hash(orbIdx * 7.77) * 6.28;
+    float orbInertia = 0.5 + hash(orbIdx * 3.33) * 0.5; // Different inertia per orb
+
+    // Determine rotation direction: odd orbs go opposite direction
+    float rotationDir = mod(orbIdx, 2.0) < 1.0 ? 1.0 : -1.0;
+
+    // Free movement: orbs lag behind and catch up based on palm rotation
+    // Base rotation from time + palm rotation influence
+    float palmInfluence = uRotation * 2.0; // Palm rotation drives orb position
+    float timeRotation = t * 0.35 * rotationDir; // Direction based on orb index
+
+    // Each orb responds differently - some lead, some lag
+    float orbLag = sin(orbIdx * 1.5 + t * 0.5) * 0.8 * rotationDir; // Oscillating lag
+    float wobble = sin(t * 2.0 + orbIdx * 2.0) * 0.15; // Slight wobble
+
+    // Combined rotation with free movement feel
+    float dynamicAngle = baseAngle + timeRotation + palmInfluence * orbInertia * rotationDir + orbLag + wobble;
+
+    // Radius varies slightly based on rotation speed (centrifugal effect)
+    float rotationSpeed = abs(sin(t * 0.5 + palmInfluence * 0.3));
+    float dynamicR = orbitR + rotationSpeed * 0.8 + sin(t * 1.5 + orbIdx) * 0.5;
+
+    // Split orbProgress into trail (0-0.85) and orb body (0.85-1.0)
+    float trailLength = 0.85;
+    float isTrail = step(orbProgress, trailLength);
+
+    // Trail position: 0 = tail, 1 = head (near orb)
+    float trailPos = orbProgress / trailLength;
+    float orbBodyPos = (orbProgress - trailLength) / (1.0 - trailLength);
+
+    // Smooth trail intensity (1.0 at head, 0.0 at tail)
+    orbTrail = mix(trailPos, 1.0, 1.0 - isTrail);
+
+    // Trail follows the arc path behind the orb - longer trail when moving fast
+    float trailArcLength = 1.2 + rotationSpeed * 0.5;
+    float trailAngleOffset = mix((1.0 - trailPos) * trailArcLength, 0.0, 1.0 - isTrail) * rotationDir;
+    float orbAngle = dynamicAngle - trailAngleOffset;
+
+    // Trail width tapers from head to tail (flat ribbon effect)
+    float trailWidth = mix(0.25 * trailPos * trailPos, 0.0, 1.0 - isTrail);
+
+    // Distribute particles across the ribbon width (perpendicular to path)
+    float ribbonOffset = (hash(orbProgress * 13.0 + orbIdx) - 0.5) * 2.0 * trailWidth;
+
+    // Calculate position on the circular arc
+    float currentR = dynamicR + ribbonOffset;
+
+    // For the orb head - spherical distribution
+    float orbSize = 0.6;
+    vec3 orbOffset = vec3(0.0);
+    if (isTrail < 0.5) { // This is the orb body
+        float phi = orbBodyPos * 6.28318 * 3.0;
+        float randSeed = orbBodyPos * 7.0 + orbIdx;
+        float cosTheta2 = 1.0 - 2.0 * hash(randSeed);
+        float sinTheta2 = sqrt(1.0 - cosTheta2 * cosTheta2);
+        orbOffset = vec3(
+            orbSize * sinTheta2 * cos(phi),
+            orbSize * sinTheta2 * sin(phi),
+            orbSize * cosTheta2
+        );
+    }
+
+    // Final position - trail lies flat on the orbit plane (z = 0 for trail)
+    vec3 orbCenter = vec3(currentR * cos(orbAngle), currentR * sin(orbAngle), 0.0);
+
+    // Orbs bob up/down with more dynamic movement
+    if (isTrail < 0.5) {
+        orbCenter.z = sin(t * 2.0 + orbIdx * 1.2) * 0.6 + cos(palmInfluence + orbIdx) * 0.3;
+    }
+
+    vec3 finalOrbPos = orbCenter + orbOffset;
+    r = length(finalOrbPos.xy);
+    theta = atan(finalOrbPos.y, finalOrbPos.x);
+    z = finalOrbPos.z;
+
+    // Size: trail particles are consistent, orb pulses slightly
+    float pulseSize = 1.0 + sin(t * 8.0 + orbIdx * 0.5) * 0.1;
+    sizeMult = mix(0.8 + orbTrail * 0.4, 1.3 * pulseSize, 1.0 - isTrail);
+  `
+};
@@ -0,0 +1,17 @@
+// Longest step a single frame may advance; keeps a backgrounded tab from jumping animations
+export const MAX_FRAME_DELTA = 0.1;
+
+// Animation time shared by the scene's shaders. Normally it follows the render loop; offline
+// capture sets `fixedStep` so every exported frame lands on an exact, reproducible time.
+// R3F's state.clock can't serve here: in frameloop="never" mode its getElapsedTime() mixes
+// wall-clock milliseconds into the manually advanced timestamps.
+export class SceneClock {
+  time = 0;
+  delta = 0;
+  fixedStep: number | null = null;
+
+  tick(frameDelta: number) {
+    this.delta = this.fixedStep ?? Math.min(Math.max(frameDelta, 0), MAX_FRAME_DELTA);
+    this.time += this.delta;
+  }
+}
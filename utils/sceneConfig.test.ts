@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCENE_CONFIG, SCENE_CONFIG_VERSION, SceneConfigError, decodeSceneHash, diffSceneConfig, encodeSceneHash, parseSceneConfig } from './sceneConfig';
+import { DEFAULT_THEME } from './themes';
+
+const issuesOf = (input: unknown) => {
+  try {
+    parseSceneConfig(input);
+    return [];
+  } catch (err) {
+    return (err as SceneConfigError).issues;
+  }
+};
+
+describe('parseSceneConfig', () => {
+  it('lifts version 1 colors into a custom theme', () => {
+    const config = parseSceneConfig({
+      version: 1,
+      params: { a: 2, color: '#ff0000' },
+      rings: [{ module: DEFAULT_SCENE_CONFIG.rings[0].module, color: '#00ff00' }],
+      projectiles: { palette: ['#0000ff'] }
+    });
+    expect(config.version).toBe(SCENE_CONFIG_VERSION);
+    expect(config.params.a).toBe(2);
+    expect(config.rings).toEqual([{ module: DEFAULT_SCENE_CONFIG.rings[0].module }]);
+    expect(config.theme).toEqual({
+      ...DEFAULT_THEME,
+      name: 'Custom',
+      orbColors: ['#ff0000'],
+      ringColors: ['#00ff00'],
+      projectileColors: ['#0000ff']
+    });
+  });
+
+  it('keeps the theme of a version 1 config that already has one', () => {
+    const theme = { ...DEFAULT_THEME, name: 'Pink', orbColors: ['#ff00ff'] };
+    expect(parseSceneConfig({ version: 1, params: { color: '#ff0000' }, theme }).theme).toEqual(theme);
+  });
+
+  it('rejects the version 1 color fields in a version 2 config', () => {
+    const issues = issuesOf({ version: 2, params: { color: '#ff0000' }, projectiles: { palette: ['#0000ff'] } });
+    expect(issues).toEqual(['Unknown field "params.color"', 'Unknown field "projectiles.palette"']);
+  });
+
+  it('names the problem in a migrated field by its version 1 path', () => {
+    expect(issuesOf({ version: 1, params: { color: 'red' } })).toEqual([
+      'params.color must be a hex color like "#8b5cf6" (got "red")'
+    ]);
+  });
+
+  it('rejects configs from a newer version', () => {
+    expect(issuesOf({ version: SCENE_CONFIG_VERSION + 1 })[0]).toMatch(/newer version/);
+  });
+});
+
+describe('scene hash', () => {
+  const config = {
+    ...DEFAULT_SCENE_CONFIG,
+    params: { ...DEFAULT_SCENE_CONFIG.params, a: 2.5 },
+    theme: { ...DEFAULT_THEME, name: 'Pink', orbColors: ['#ff00ff', '#ff66ff', '#ffccff'] }
+  };
+
+  it('round-trips a config', () => {
+    expect(decodeSceneHash(encodeSceneHash(config))).toEqual(config);
+  });
+
+  it('compresses the link', () => {
+    const plain = btoa(JSON.stringify(diffSceneConfig(config)));
+    expect(encodeSceneHash(config).length).toBeLessThan(plain.length);
+  });
+
+  it('still opens uncompressed links', () => {
+    const plain = btoa(JSON.stringify({ version: 1, params: { a: 2.5 } })).replace(/=+$/, '');
+    expect(decodeSceneHash(`#s=${plain}`)?.params.a).toBe(2.5);
+  });
+
+  it('ignores hashes without a scene and rejects corrupted ones', () => {
+    expect(decodeSceneHash('#about')).toBeNull();
+    expect(() => decodeSceneHash('#z=AAAA')).toThrow(SceneConfigError);
+  });
+});
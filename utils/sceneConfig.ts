@@ -0,0 +1,498 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { AudioSettings, ButterflyParams, EmitterConfig, GestureBindings, FingerForces, HandBindings, HandFilterConfig, PostProcessingSettings, ProjectileSettings, QualitySettings, RenderSettings, RingLayer, SceneConfig, Theme, ViewMode } from '../types';
+import { DEFAULT_HAND_BINDINGS, DEFAULT_PARAMS, DEFAULT_RENDER_SETTINGS } from './presets';
+import { DEFAULT_HAND_FILTER } from './landmarkFilter';
+import { DEFAULT_FINGER_FORCES } from './fingerForces';
+import { DEFAULT_QUALITY } from './adaptiveQuality';
+import { DEFAULT_PROJECTILES } from './projectilePool';
+import { CONTENT_VALUES } from './projectileContent';
+import { DEFAULT_RING_LAYERS, MAX_RING_LAYERS, listRingModules } from './rings';
+import { DEFAULT_THEME, MAX_ORB_COLORS, MAX_PROJECTILE_COLORS } from './themes';
+import { DEFAULT_POST_PROCESSING } from './postProcessing';
+import { DEFAULT_EMITTER, DEFAULT_EMITTERS, EMITTER_ANCHORS, EMITTER_SHAPES, MAX_EMITTERS } from './emitters';
+import { AUDIO_FEATURES, DEFAULT_AUDIO } from './audioAnalysis';
+import { DEFAULT_GESTURE_BINDINGS, GESTURES, GESTURE_ACTIONS } from './gestureBindings';
+
+export const SCENE_CONFIG_VERSION = 2;
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  version: SCENE_CONFIG_VERSION,
+  params: DEFAULT_PARAMS,
+  settings: DEFAULT_RENDER_SETTINGS,
+  viewMode: ViewMode.Orbit,
+  handBindings: DEFAULT_HAND_BINDINGS,
+  handFilter: DEFAULT_HAND_FILTER,
+  fingerForces: DEFAULT_FINGER_FORCES,
+  rings: DEFAULT_RING_LAYERS,
+  quality: DEFAULT_QUALITY,
+  projectiles: DEFAULT_PROJECTILES,
+  emitters: DEFAULT_EMITTERS,
+  postProcessing: DEFAULT_POST_PROCESSING,
+  theme: DEFAULT_THEME,
+  audio: DEFAULT_AUDIO,
+  gestures: DEFAULT_GESTURE_BINDINGS
+};
+
+// Thrown when a config file or share link doesn't match the schema; lists every problem found
+export class SceneConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid scene config:\n${issues.map(issue => `• ${issue}`).join('\n')}`);
+    this.name = 'SceneConfigError';
+  }
+}
+
+type FieldSpec =
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'color' }
+  | { type: 'colors'; min: number; max: number }
+  | { type: 'string'; maxLength: number }
+  | { type: 'enum'; values: readonly string[] };
+
+const num = (min: number, max: number, integer = false): FieldSpec => ({ type: 'number', min, max, integer });
+const BOOLEAN: FieldSpec = { type: 'boolean' };
+const COLOR: FieldSpec = { type: 'color' };
+const HAND_BINDING: FieldSpec = { type: 'enum', values: ['any', 'left', 'right'] };
+
+type SectionSpec<T> = { [K in keyof T]: FieldSpec };
+
+// Accepted ranges are wider than the control panel sliders so hand-edited files still load,
+// but narrow enough to keep the shader and the filter numerically sane
+const PARAMS_SPEC: SectionSpec<ButterflyParams> = {
+  iter: num(1, 96, true),
+  a: num(0, 10),
+  b: num(0, 20),
+  c: num(0, 20),
+  scale: num(0.1, 20),
+  morph: num(0, 1)
+};
+
+const SETTINGS_SPEC: SectionSpec<RenderSettings> = {
+  particleSize: num(0.5, 100),
+  blastStrength: num(0, 10),
+  blastGravity: num(0, 100),
+  blastDrag: num(0, 10),
+  blastBounce: num(0, 1),
+  groundHeight: num(-200, 200),
+  handForce: num(0, 1000),
+  morphSpeed: num(0.001, 1),
+  magicSpeed: num(0.001, 1),
+  blastRampSpeed: num(0.001, 1),
+  blastRecoverySpeed: num(0.001, 1)
+};
+
+const HAND_BINDINGS_SPEC: SectionSpec<HandBindings> = {
+  orb: HAND_BINDING,
+  magicCircle: HAND_BINDING
+};
+
+const HAND_FILTER_SPEC: SectionSpec<HandFilterConfig> = {
+  enabled: BOOLEAN,
+  minCutoff: num(0.01, 30),
+  beta: num(0, 500),
+  dCutoff: num(0.01, 30),
+  predictionMs: num(0, 500),
+  lostGraceMs: num(0, 5000)
+};
+
+const FINGER_RADIUS = num(0, 50);
+const FINGER_STRENGTH = num(0, 30);
+
+const FINGER_FORCES_SPEC: SectionSpec<FingerForces> = {
+  enabled: BOOLEAN,
+  thumbRadius: FINGER_RADIUS,
+  thumbStrength: FINGER_STRENGTH,
+  indexRadius: FINGER_RADIUS,
+  indexStrength: FINGER_STRENGTH,
+  middleRadius: FINGER_RADIUS,
+  middleStrength: FINGER_STRENGTH,
+  ringRadius: FINGER_RADIUS,
+  ringStrength: FINGER_STRENGTH,
+  pinkyRadius: FINGER_RADIUS,
+  pinkyStrength: FINGER_STRENGTH
+};
+
+const QUALITY_SPEC: SectionSpec<QualitySettings> = {
+  particleCount: num(1000, 200000, true),
+  adaptive: BOOLEAN,
+  targetFps: num(15, 240, true)
+};
+
+const PROJECTILE_CONTENT: FieldSpec = { type: 'enum', values: CONTENT_VALUES };
+
+const PROJECTILES_SPEC: SectionSpec<ProjectileSettings> = {
+  enabled: BOOLEAN,
+  spawnRate: num(0, 200),
+  lifetime: num(0.1, 20),
+  speed: num(0, 200),
+  thumbContent: PROJECTILE_CONTENT,
+  indexContent: PROJECTILE_CONTENT,
+  middleContent: PROJECTILE_CONTENT,
+  ringContent: PROJECTILE_CONTENT,
+  pinkyContent: PROJECTILE_CONTENT,
+  text: { type: 'string', maxLength: 500 }
+};
+
+const EMITTER_SPEC: SectionSpec<EmitterConfig> = {
+  name: { type: 'string', maxLength: 40 },
+  enabled: BOOLEAN,
+  anchor: { type: 'enum', values: EMITTER_ANCHORS.map(option => option.value) },
+  shape: { type: 'enum', values: EMITTER_SHAPES.map(option => option.value) },
+  spread: num(0, 100),
+  rate: num(0, 5000),
+  lifetime: num(0.1, 20),
+  gravity: num(-50, 50),
+  drift: num(0, 20),
+  size: num(0.5, 50),
+  startColor: COLOR,
+  endColor: COLOR
+};
+
+const POST_PROCESSING_SPEC: SectionSpec<PostProcessingSettings> = {
+  bloom: BOOLEAN,
+  bloomStrength: num(0, 10),
+  bloomRadius: num(0, 1),
+  bloomThreshold: num(0, 1),
+  bloomButterfly: BOOLEAN,
+  bloomEmitters: BOOLEAN,
+  bloomProjectiles: BOOLEAN,
+  trails: BOOLEAN,
+  trailLength: num(0, 0.99),
+  trailSpeed: num(0.05, 20),
+  chromatic: BOOLEAN,
+  chromaticStrength: num(0, 0.2),
+  vignette: BOOLEAN,
+  vignetteStrength: num(0, 1)
+};
+
+const PROJECTILE_COLORS: FieldSpec = { type: 'colors', min: 1, max: MAX_PROJECTILE_COLORS };
+
+const THEME_SPEC: SectionSpec<Theme> = {
+  name: { type: 'string', maxLength: 40 },
+  orbColors: { type: 'colors', min: 1, max: MAX_ORB_COLORS },
+  orbGradient: { type: 'enum', values: ['progress', 'flowing'] },
+  ringColors: { type: 'colors', min: 1, max: MAX_RING_LAYERS },
+  innerCircle: COLOR,
+  trailHead: COLOR,
+  trailTail: COLOR,
+  flash: COLOR,
+  blastFlash: COLOR,
+  projectileColors: PROJECTILE_COLORS
+};
+
+const AUDIO_FEATURE: FieldSpec = { type: 'enum', values: AUDIO_FEATURES.map(option => option.value) };
+
+const AUDIO_SPEC: SectionSpec<AudioSettings> = {
+  gain: num(0, 20),
+  smoothing: num(0, 0.99),
+  beatSensitivity: num(0, 10),
+  pulseFeature: AUDIO_FEATURE,
+  pulseAmount: num(0, 2),
+  ringSpeedFeature: AUDIO_FEATURE,
+  ringSpeedAmount: num(0, 10),
+  wobbleFeature: AUDIO_FEATURE,
+  wobbleAmount: num(0, 5),
+  blastOnBeat: BOOLEAN,
+  blastThreshold: num(0, 1)
+};
+
+const GESTURE_ACTION: FieldSpec = { type: 'enum', values: GESTURE_ACTIONS.map(option => option.value) };
+
+const GESTURES_SPEC = Object.fromEntries(
+  GESTURES.map(gesture => [gesture.value, GESTURE_ACTION])
+) as SectionSpec<GestureBindings>;
+
+type SectionKey = 'params' | 'settings' | 'handBindings' | 'handFilter' | 'fingerForces' | 'quality' | 'projectiles' | 'postProcessing' | 'theme' | 'audio' | 'gestures';
+
+const SECTIONS: { [K in SectionKey]: SectionSpec<SceneConfig[K]> } = {
+  params: PARAMS_SPEC,
+  settings: SETTINGS_SPEC,
+  handBindings: HAND_BINDINGS_SPEC,
+  handFilter: HAND_FILTER_SPEC,
+  fingerForces: FINGER_FORCES_SPEC,
+  quality: QUALITY_SPEC,
+  projectiles: PROJECTILES_SPEC,
+  postProcessing: POST_PROCESSING_SPEC,
+  theme: THEME_SPEC,
+  audio: AUDIO_SPEC,
+  gestures: GESTURES_SPEC
+};
+
+const VIEW_MODE_SPEC: FieldSpec = { type: 'enum', values: Object.values(ViewMode) };
+const TOP_LEVEL_KEYS = ['version', 'viewMode', 'rings', 'emitters', ...Object.keys(SECTIONS)];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value));
+
+// Returns a human-readable problem with the value, or null when it fits the spec
+const checkField = (path: string, value: unknown, spec: FieldSpec): string | null => {
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${path} must be a number (got ${describe(value)})`;
+      if (spec.integer && !Number.isInteger(value)) return `${path} must be a whole number (got ${value})`;
+      if (value < spec.min || value > spec.max) return `${path} must be between ${spec.min} and ${spec.max} (got ${value})`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${path} must be true or false (got ${describe(value)})`;
+    case 'color':
+      return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+        ? null
+        : `${path} must be a hex color like "#8b5cf6" (got ${describe(value)})`;
+    case 'colors':
+      if (!Array.isArray(value) || value.length < spec.min || value.length > spec.max) {
+        return `${path} must be a list of ${spec.min} to ${spec.max} colors (got ${describe(value)})`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const issue = checkField(`${path}[${i}]`, value[i], COLOR);
+        if (issue) return issue;
+      }
+      return null;
+    case 'string':
+      if (typeof value !== 'string') return `${path} must be text (got ${describe(value)})`;
+      return value.length <= spec.maxLength ? null : `${path} must be at most ${spec.maxLength} characters`;
+    case 'enum':
+      return spec.values.includes(value as string)
+        ? null
+        : `${path} must be one of ${spec.values.map(v => `"${v}"`).join(', ')} (got ${describe(value)})`;
+  }
+};
+
+const parseSection = <T>(
+  name: string,
+  data: unknown,
+  spec: SectionSpec<T>,
+  defaults: T,
+  issues: string[]
+): T => {
+  if (data === undefined) return { ...defaults };
+  if (!isObject(data)) {
+    issues.push(`${name} must be an object`);
+    return { ...defaults };
+  }
+
+  Object.keys(data)
+    .filter(key => !(key in spec))
+    .forEach(key => issues.push(`Unknown field "${name}.${key}"`));
+
+  // Missing fields fall back to defaults so older files keep loading as new settings are added
+  const result = { ...defaults };
+  (Object.keys(spec) as (keyof T & string)[]).forEach(key => {
+    if (data[key] === undefined) return;
+    const issue = checkField(`${name}.${key}`, data[key], spec[key]);
+    if (issue) issues.push(issue);
+    else result[key] = data[key] as T[keyof T & string];
+  });
+  return result;
+};
+
+// Magic circle layers: 1 to MAX_RING_LAYERS registered ring modules
+const parseRings = (data: unknown, issues: string[]): RingLayer[] => {
+  if (data === undefined) return DEFAULT_SCENE_CONFIG.rings;
+  if (!Array.isArray(data) || data.length === 0 || data.length > MAX_RING_LAYERS) {
+    issues.push(`rings must be a list of 1 to ${MAX_RING_LAYERS} layers`);
+    return DEFAULT_SCENE_CONFIG.rings;
+  }
+
+  // Read at parse time so modules registered after startup are accepted too
+  const spec: SectionSpec<RingLayer> = {
+    module: { type: 'enum', values: listRingModules().map(module => module.id) }
+  };
+  return data.map((entry, i) => {
+    const layer = parseSection(`rings[${i}]`, entry, spec, { module: '' }, issues);
+    if (isObject(entry) && entry.module === undefined) issues.push(`rings[${i}].module is required`);
+    return layer;
+  });
+};
+
+// Particle emitters: up to MAX_EMITTERS, possibly none. Missing fields take the values of a new
+// emitter from the control panel.
+const parseEmitters = (data: unknown, issues: string[]): EmitterConfig[] => {
+  if (data === undefined) return DEFAULT_SCENE_CONFIG.emitters;
+  if (!Array.isArray(data) || data.length > MAX_EMITTERS) {
+    issues.push(`emitters must be a list of at most ${MAX_EMITTERS} emitters`);
+    return DEFAULT_SCENE_CONFIG.emitters;
+  }
+  return data.map((entry, i) => parseSection(`emitters[${i}]`, entry, EMITTER_SPEC, DEFAULT_EMITTER, issues));
+};
+
+// Version 1 scenes kept their colors on the curve (params.color), on each ring layer
+// (rings[].color) and on the projectiles (projectiles.palette). Version 2 keeps every color in the
+// theme, so those fields are lifted into one (unless the scene has a theme already).
+const migrateV1 = (data: Record<string, unknown>, issues: string[]) => {
+  const result = { ...data };
+  const lifted: Partial<Theme> = {};
+
+  if (isObject(data.params) && 'color' in data.params) {
+    const { color, ...params } = data.params;
+    const issue = checkField('params.color', color, COLOR);
+    if (issue) issues.push(issue);
+    else lifted.orbColors = [color as string];
+    result.params = params;
+  }
+
+  if (Array.isArray(data.rings) && data.rings.some(layer => isObject(layer) && 'color' in layer)) {
+    const defaults = DEFAULT_THEME.ringColors;
+    lifted.ringColors = data.rings.slice(0, MAX_RING_LAYERS).map((layer, i) => {
+      const color = isObject(layer) ? layer.color : undefined;
+      if (color === undefined) return defaults[i % defaults.length];
+      const issue = checkField(`rings[${i}].color`, color, COLOR);
+      if (issue) issues.push(issue);
+      return issue ? defaults[i % defaults.length] : color as string;
+    });
+    result.rings = data.rings.map(layer => {
+      if (!isObject(layer)) return layer;
+      const { color, ...rest } = layer;
+      return rest;
+    });
+  }
+
+  if (isObject(data.projectiles) && 'palette' in data.projectiles) {
+    const { palette, ...projectiles } = data.projectiles;
+    const issue = checkField('projectiles.palette', palette, PROJECTILE_COLORS);
+    if (issue) issues.push(issue);
+    else lifted.projectileColors = palette as string[];
+    result.projectiles = projectiles;
+  }
+
+  if (data.theme === undefined && Object.keys(lifted).length > 0) {
+    result.theme = { ...DEFAULT_THEME, name: 'Custom', ...lifted };
+  }
+  return result;
+};
+
+// MIGRATIONS[n] turns a version n config into version n + 1. Older files and links are upgraded
+// one step at a time before validation, which only knows the current schema.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>, issues: string[]) => Record<string, unknown>> = {
+  1: migrateV1
+};
+
+const migrate = (data: Record<string, unknown>, issues: string[]) => {
+  let result = data;
+  while (typeof result.version === 'number' && MIGRATIONS[result.version]) {
+    result = { ...MIGRATIONS[result.version](result, issues), version: result.version + 1 };
+  }
+  return result;
+};
+
+// Validates untrusted JSON (a file or a decoded link) into a complete SceneConfig.
+// Collects every problem before throwing so the user can fix them in one pass.
+export const parseSceneConfig = (input: unknown): SceneConfig => {
+  if (!isObject(input)) throw new SceneConfigError(['Expected a JSON object']);
+
+  const issues: string[] = [];
+  const data = migrate(input, issues);
+  if (data.version !== SCENE_CONFIG_VERSION) {
+    issues.push(typeof data.version === 'number' && data.version > SCENE_CONFIG_VERSION
+      ? `Config version ${data.version} was made by a newer version of this app (supported: ${SCENE_CONFIG_VERSION})`
+      : `version must be ${SCENE_CONFIG_VERSION} (got ${describe(data.version)})`);
+  }
+
+  Object.keys(data)
+    .filter(key => !TOP_LEVEL_KEYS.includes(key))
+    .forEach(key => issues.push(`Unknown field "${key}"`));
+
+  let viewMode = DEFAULT_SCENE_CONFIG.viewMode;
+  if (data.viewMode !== undefined) {
+    const issue = checkField('viewMode', data.viewMode, VIEW_MODE_SPEC);
+    if (issue) issues.push(issue);
+    else viewMode = data.viewMode as ViewMode;
+  }
+
+  const config: SceneConfig = {
+    version: SCENE_CONFIG_VERSION,
+    params: parseSection('params', data.params, SECTIONS.params, DEFAULT_SCENE_CONFIG.params, issues),
+    settings: parseSection('settings', data.settings, SECTIONS.settings, DEFAULT_SCENE_CONFIG.settings, issues),
+    viewMode,
+    handBindings: parseSection('handBindings', data.handBindings, SECTIONS.handBindings, DEFAULT_SCENE_CONFIG.handBindings, issues),
+    handFilter: parseSection('handFilter', data.handFilter, SECTIONS.handFilter, DEFAULT_SCENE_CONFIG.handFilter, issues),
+    fingerForces: parseSection('fingerForces', data.fingerForces, SECTIONS.fingerForces, DEFAULT_SCENE_CONFIG.fingerForces, issues),
+    rings: parseRings(data.rings, issues),
+    quality: parseSection('quality', data.quality, SECTIONS.quality, DEFAULT_SCENE_CONFIG.quality, issues),
+    projectiles: parseSection('projectiles', data.projectiles, SECTIONS.projectiles, DEFAULT_SCENE_CONFIG.projectiles, issues),
+    emitters: parseEmitters(data.emitters, issues),
+    postProcessing: parseSection('postProcessing', data.postProcessing, SECTIONS.postProcessing, DEFAULT_SCENE_CONFIG.postProcessing, issues),
+    theme: parseSection('theme', data.theme, SECTIONS.theme, DEFAULT_SCENE_CONFIG.theme, issues),
+    audio: parseSection('audio', data.audio, SECTIONS.audio, DEFAULT_SCENE_CONFIG.audio, issues),
+    gestures: parseSection('gestures', data.gestures, SECTIONS.gestures, DEFAULT_SCENE_CONFIG.gestures, issues)
+  };
+
+  if (issues.length > 0) throw new SceneConfigError(issues);
+  return config;
+};
+
+export const parseSceneConfigJson = (json: string): SceneConfig => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new SceneConfigError([`Not valid JSON: ${(err as Error).message}`]);
+  }
+  return parseSceneConfig(data);
+};
+
+// Only the fields that differ from the defaults, keeping share links short
+export const diffSceneConfig = (config: SceneConfig): Partial<Record<keyof SceneConfig, unknown>> => {
+  const diff: Partial<Record<keyof SceneConfig, unknown>> = { version: config.version };
+  if (config.viewMode !== DEFAULT_SCENE_CONFIG.viewMode) diff.viewMode = config.viewMode;
+  // Layers and emitters are kept or replaced as a whole list
+  if (JSON.stringify(config.rings) !== JSON.stringify(DEFAULT_SCENE_CONFIG.rings)) diff.rings = config.rings;
+  if (JSON.stringify(config.emitters) !== JSON.stringify(DEFAULT_SCENE_CONFIG.emitters)) diff.emitters = config.emitters;
+
+  (Object.keys(SECTIONS) as SectionKey[]).forEach(section => {
+    const values = config[section] as unknown as Record<string, unknown>;
+    const defaults = DEFAULT_SCENE_CONFIG[section] as unknown as Record<string, unknown>;
+    // Lists (palettes) compare by content
+    const changed = Object.fromEntries(Object.entries(values).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key])));
+    if (Object.keys(changed).length > 0) diff[section] = changed;
+  });
+  return diff;
+};
+
+const HASH_PREFIX = 'z=';
+// Links from before compression: the same JSON, only base64url-encoded
+const PLAIN_HASH_PREFIX = 's=';
+
+// base64url keeps the hash free of characters that need escaping
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// URL hash (without '#') that reproduces the config: the changed fields as deflated, base64url JSON
+export const encodeSceneHash = (config: SceneConfig) =>
+  HASH_PREFIX + toBase64Url(deflateSync(strToU8(JSON.stringify(diffSceneConfig(config))), { level: 9 }));
+
+// Returns null when the hash carries no scene; throws SceneConfigError when it does but is broken
+export const decodeSceneHash = (hash: string): SceneConfig | null => {
+  const value = hash.replace(/^#/, '');
+  const compressed = value.startsWith(HASH_PREFIX);
+  if (!compressed && !value.startsWith(PLAIN_HASH_PREFIX)) return null;
+
+  let json: string;
+  try {
+    const bytes = fromBase64Url(value.slice(HASH_PREFIX.length));
+    json = strFromU8(compressed ? inflateSync(bytes) : bytes);
+  } catch {
+    throw new SceneConfigError(['Share link is corrupted (could not decode the scene data)']);
+  }
+  return parseSceneConfigJson(json);
+};
+
+export const downloadSceneConfig = (config: SceneConfig, filename = `butterfly-scene-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,33 @@
+import * as THREE from 'three';
+
+const viewDir = new THREE.Vector3();
+const plane = new THREE.Plane();
+const ray = new THREE.Ray();
+const ORIGIN = new THREE.Vector3();
+
+// Maps a normalized screen position (0 to 1, y down) onto the plane through `anchor` that faces
+// the camera. Works for any camera pose or projection, so hand tracking stays glued to the
+// screen when the view is orbited or zoomed.
+export const screenToWorld = (
+  camera: THREE.Camera,
+  x: number,
+  y: number,
+  target: THREE.Vector3,
+  anchor: THREE.Vector3 = ORIGIN
+) => {
+  const ndcX = x * 2 - 1;
+  const ndcY = -(y * 2 - 1);
+
+  camera.getWorldDirection(viewDir);
+  plane.setFromNormalAndCoplanarPoint(viewDir, anchor);
+
+  if ((camera as THREE.OrthographicCamera).isOrthographicCamera) {
+    ray.origin.set(ndcX, ndcY, -1).unproject(camera);
+    ray.direction.copy(viewDir);
+  } else {
+    ray.origin.setFromMatrixPosition(camera.matrixWorld);
+    ray.direction.set(ndcX, ndcY, 0.5).unproject(camera).sub(ray.origin).normalize();
+  }
+
+  return ray.intersectPlane(plane, target) ?? target.copy(anchor);
+};
@@ -0,0 +1,192 @@
+import * as THREE from 'three';
+import { Theme } from '../types';
+import { MAX_RING_LAYERS } from './rings';
+import { FINGER_NAMES } from './fingerForces';
+
+export const MAX_ORB_COLORS = 4;         // Gradient stops the shader takes
+export const MAX_PROJECTILE_COLORS = 8;
+
+// The original look: violet orb, cyan and purple magic circle, cyan glyphs
+export const ARCANE_VIOLET: Theme = {
+  name: 'Arcane Violet',
+  orbColors: ['#8b5cf6'],
+  orbGradient: 'progress',
+  ringColors: ['#00ffe6', '#00ffff', '#8000ff', '#00ffff', '#9933ff', '#cc00ff'],
+  innerCircle: '#b3e6ff',
+  trailHead: '#db4dff',
+  trailTail: '#7a0099',
+  flash: '#330066',
+  blastFlash: '#ffccff',
+  projectileColors: ['#00ffff', '#00e5ff', '#00d4ff', '#00c3ff', '#00b0ff']
+};
+
+export const SOLAR_GOLD: Theme = {
+  name: 'Solar Gold',
+  orbColors: ['#b45309', '#f59e0b', '#fde047'],
+  orbGradient: 'progress',
+  ringColors: ['#ffd700', '#ffb300', '#ff8c00', '#ffd700', '#ff6f00', '#ffcc33'],
+  innerCircle: '#fff5cc',
+  trailHead: '#fff0b3',
+  trailTail: '#994d00',
+  flash: '#331a00',
+  blastFlash: '#fff2cc',
+  projectileColors: ['#fff176', '#ffe04d', '#ffca28', '#ffb300', '#ff9800']
+};
+
+export const ICE: Theme = {
+  name: 'Ice',
+  orbColors: ['#e0f2fe', '#7dd3fc', '#0ea5e9'],
+  orbGradient: 'flowing',
+  ringColors: ['#e0ffff', '#a5f3fc', '#67e8f9', '#bae6fd', '#38bdf8', '#e0f2fe'],
+  innerCircle: '#ffffff',
+  trailHead: '#f0ffff',
+  trailTail: '#1e6b99',
+  flash: '#001a33',
+  blastFlash: '#e6f7ff',
+  projectileColors: ['#ffffff', '#e0f7ff', '#b3ecff', '#80dfff', '#4dd2ff']
+};
+
+export const MONOCHROME: Theme = {
+  name: 'Monochrome',
+  orbColors: ['#d4d4d4'],
+  orbGradient: 'progress',
+  ringColors: ['#ffffff', '#bfbfbf', '#8c8c8c', '#ffffff', '#a6a6a6', '#d9d9d9'],
+  innerCircle: '#ffffff',
+  trailHead: '#ffffff',
+  trailTail: '#4d4d4d',
+  flash: '#1a1a1a',
+  blastFlash: '#ffffff',
+  projectileColors: ['#ffffff', '#e6e6e6', '#cccccc', '#b3b3b3', '#999999']
+};
+
+export const NEBULA: Theme = {
+  name: 'Nebula',
+  orbColors: ['#ec4899', '#8b5cf6', '#22d3ee'],
+  orbGradient: 'flowing',
+  ringColors: ['#f472b6', '#c084fc', '#818cf8', '#f472b6', '#a855f7', '#22d3ee'],
+  innerCircle: '#fbcfe8',
+  trailHead: '#fdf4ff',
+  trailTail: '#6b21a8',
+  flash: '#330033',
+  blastFlash: '#ffccf2',
+  projectileColors: ['#f472b6', '#e879f9', '#c084fc', '#a78bfa', '#818cf8']
+};
+
+export const DEFAULT_THEME = ARCANE_VIOLET;
+
+// Shipped themes; these can be applied but not overwritten or deleted
+export const BUILT_IN_THEMES: Theme[] = [ARCANE_VIOLET, SOLAR_GOLD, ICE, MONOCHROME, NEBULA];
+
+const STORAGE_KEY = 'butterfly-visualizer:themes';
+
+// User themes persisted in localStorage next to the presets; missing fields fall back to the
+// default theme
+export const loadThemes = (): Theme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored
+      .filter((theme): theme is Theme => typeof theme?.name === 'string')
+      .map(theme => ({ ...DEFAULT_THEME, ...theme }));
+  } catch {
+    return [];
+  }
+};
+
+const storeThemes = (themes: Theme[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  return themes;
+};
+
+// Saves or replaces the theme with the same name
+export const saveTheme = (theme: Theme): Theme[] =>
+  storeThemes([...loadThemes().filter(t => t.name !== theme.name), theme]);
+
+export const deleteTheme = (name: string): Theme[] =>
+  storeThemes(loadThemes().filter(t => t.name !== name));
+
+// The built-in and saved theme `step` places away from `current`, wrapping around
+export const adjacentTheme = (current: Theme, step: number): Theme => {
+  const themes = [...BUILT_IN_THEMES, ...loadThemes()];
+  const index = themes.findIndex(theme => theme.name === current.name);
+  if (index < 0) return themes[0];
+  return themes[(index + step + themes.length) % themes.length];
+};
+
+const FADE_SECONDS = 1.2;
+
+const toColor = (hex: string) => new THREE.Color().setStyle(hex, THREE.LinearSRGBColorSpace);
+
+// Repeats a list to `count` entries
+const repeat = (colors: string[], count: number) =>
+  Array.from({ length: count }, (_, i) => toColor(colors[i % colors.length]));
+
+// `count` evenly spaced samples of the gradient through `stops`
+const resample = (stops: string[], count: number) => {
+  const colors = stops.map(toColor);
+  return Array.from({ length: count }, (_, i) => {
+    const position = (i / (count - 1)) * (colors.length - 1);
+    const index = Math.min(Math.floor(position), colors.length - 1);
+    const next = Math.min(index + 1, colors.length - 1);
+    return colors[index].clone().lerp(colors[next], position - index);
+  });
+};
+
+// A theme as fixed-size color lists, so any two themes can be blended slot by slot
+const themeSlots = (theme: Theme) => ({
+  orb: resample(theme.orbColors, MAX_ORB_COLORS),
+  rings: repeat(theme.ringColors, MAX_RING_LAYERS),
+  projectiles: repeat(theme.projectileColors, FINGER_NAMES.length),
+  accents: [theme.innerCircle, theme.trailHead, theme.trailTail, theme.flash, theme.blastFlash].map(toColor),
+  flow: theme.orbGradient === 'flowing' ? 1 : 0
+});
+
+type ThemeSlots = ReturnType<typeof themeSlots>;
+type ColorSlot = Exclude<keyof ThemeSlots, 'flow'>;
+const COLOR_SLOTS: ColorSlot[] = ['orb', 'rings', 'projectiles', 'accents'];
+
+// Live colors of the current theme. A new theme cross-fades in over FADE_SECONDS of scene time;
+// the Color objects are updated in place, so shader uniforms can hold them directly.
+export class ThemeBlend {
+  readonly orb: THREE.Color[];
+  readonly rings: THREE.Color[];
+  readonly projectiles: THREE.Color[];
+  readonly innerCircle: THREE.Color;
+  readonly trailHead: THREE.Color;
+  readonly trailTail: THREE.Color;
+  readonly flash: THREE.Color;
+  readonly blastFlash: THREE.Color;
+  flow: number;  // 0 = gradient fixed along the curve, 1 = flowing
+
+  private current: ThemeSlots;
+  private from: ThemeSlots;
+  private to: ThemeSlots;
+  private progress = 1;
+
+  constructor(theme: Theme) {
+    this.current = themeSlots(theme);
+    this.from = themeSlots(theme);
+    this.to = themeSlots(theme);
+    this.orb = this.current.orb;
+    this.rings = this.current.rings;
+    this.projectiles = this.current.projectiles;
+    [this.innerCircle, this.trailHead, this.trailTail, this.flash, this.blastFlash] = this.current.accents;
+    this.flow = this.current.flow;
+  }
+
+  // Starts fading from whatever is showing now, so switching mid-fade doesn't jump
+  setTheme(theme: Theme) {
+    COLOR_SLOTS.forEach(slot => this.current[slot].forEach((color, i) => this.from[slot][i].copy(color)));
+    this.from.flow = this.flow;
+    this.to = themeSlots(theme);
+    this.progress = 0;
+  }
+
+  update(delta: number) {
+    if (this.progress >= 1) return;
+    this.progress = Math.min(this.progress + delta / FADE_SECONDS, 1);
+    const t = THREE.MathUtils.smoothstep(this.progress, 0, 1);
+    COLOR_SLOTS.forEach(slot => this.current[slot].forEach((color, i) => color.lerpColors(this.from[slot][i], this.to[slot][i], t)));
+    this.flow = THREE.MathUtils.lerp(this.from.flow, this.to.flow, t);
+  }
+}
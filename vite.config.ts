@@ -1,13 +1,53 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+// Files under public/ (e.g. models/hand_landmarker.task), relative to the site root
+const listPublicFiles = (dir = path.resolve(__dirname, 'public'), prefix = ''): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory()
+          ? listPublicFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+          : [`${prefix}${entry.name}`])
+    : [];
+
+// Emits sw.js from the template with this build's file list, so the service worker precaches
+// exactly what the build produced. Runs last so index.html is already in the bundle.
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    // Browsers that support service workers load the woff2 fonts, never the woff fallbacks
+    const files = [...Object.keys(bundle), ...listPublicFiles()].filter(file => !file.endsWith('.map') && !file.endsWith('.woff'));
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+      .replace('__BUILD_ID__', JSON.stringify(Date.now().toString(36)))
+      .replace('__PRECACHE__', JSON.stringify(files));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
 
 export default defineConfig({
   server: {
     port: 3000,
     host: '0.0.0.0',
   },
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
+  // The hand detection worker is a module worker in dev; build it the same way
+  worker: {
+    format: 'es',
+  },
+  css: {
+    postcss: {
+      plugins: [
+        tailwindcss({
+          content: ['./index.html', './*.tsx', './components/**/*.tsx', './utils/**/*.ts'],
+        }),
+      ],
+    },
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),